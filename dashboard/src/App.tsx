@@ -14,6 +14,7 @@ import Operator from './pages/Operator';
 import Tools from './pages/Tools';
 import BugReports from './pages/BugReports';
 import ConfigDoctor from './pages/ConfigDoctor';
+import Approvals from './pages/Approvals';
 
 export default function App() {
   return (
@@ -34,6 +35,7 @@ export default function App() {
       >
         <Route path="/entities" element={<MyEntities />} />
         <Route path="/servers" element={<MyServers />} />
+        <Route path="/approvals" element={<Approvals />} />
         <Route path="/operator" element={<Operator />} />
         <Route path="/tools" element={<Tools />} />
         <Route path="/bug-reports" element={<BugReports />} />
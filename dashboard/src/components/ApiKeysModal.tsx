@@ -0,0 +1,242 @@
+import { useState, useEffect } from 'react';
+import { apiFetch } from '../lib/api';
+import ToolPicker from './ToolPicker';
+
+interface EntityApiKey {
+  id: string;
+  label: string;
+  hint: string;
+  tools: string[];
+  expires_at: string | null;
+  expired: boolean;
+  receives_messages: boolean;
+  last_used_at: string | null;
+  created_at: string;
+}
+
+interface ApiKeysModalProps {
+  entityId: string;
+  entityName: string;
+  onClose: () => void;
+}
+
+const EXPIRY_OPTIONS = [
+  { label: 'Never', days: 0 },
+  { label: '30 days', days: 30 },
+  { label: '90 days', days: 90 },
+  { label: '1 year', days: 365 },
+];
+
+function formatDate(value: string | null): string {
+  if (!value) return 'never';
+  // SQLite datetime('now') values are UTC without a zone suffix
+  const date = new Date(value.includes('T') ? value : value.replace(' ', 'T') + 'Z');
+  return date.toLocaleDateString();
+}
+
+export default function ApiKeysModal({ entityId, entityName, onClose }: ApiKeysModalProps) {
+  const [keys, setKeys] = useState<EntityApiKey[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [creating, setCreating] = useState(false);
+  const [label, setLabel] = useState('');
+  const [expiryDays, setExpiryDays] = useState(0);
+  const [tools, setTools] = useState<string[]>([]);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [newKey, setNewKey] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+  const [confirmingRevoke, setConfirmingRevoke] = useState<string | null>(null);
+
+  const fetchKeys = async () => {
+    try {
+      setKeys(await apiFetch<EntityApiKey[]>(`/api/entities/${entityId}/keys`));
+    } catch (err) {
+      console.error('Failed to fetch API keys:', err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => { fetchKeys(); }, [entityId]);
+
+  const startCreate = () => {
+    setCreating(true);
+    setLabel('');
+    setExpiryDays(0);
+    setTools([]);
+    setError(null);
+  };
+
+  const handleCreate = async () => {
+    setSaving(true);
+    setError(null);
+    try {
+      const expiresAt = expiryDays > 0 ? new Date(Date.now() + expiryDays * 86_400_000).toISOString() : null;
+      const data = await apiFetch<EntityApiKey & { api_key: string }>(`/api/entities/${entityId}/keys`, {
+        method: 'POST',
+        body: JSON.stringify({ label: label.trim(), expires_at: expiresAt, tools }),
+      });
+      setNewKey(data.api_key);
+      setCopied(false);
+      setCreating(false);
+      fetchKeys();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Create failed');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRevoke = async (keyId: string) => {
+    try {
+      await apiFetch(`/api/entities/${entityId}/keys/${keyId}`, { method: 'DELETE' });
+      setKeys(prev => prev.filter(k => k.id !== keyId));
+    } catch (err) {
+      console.error('Revoke key failed:', err);
+    } finally {
+      setConfirmingRevoke(null);
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!newKey) return;
+    await navigator.clipboard.writeText(newKey);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50 p-4" onClick={onClose}>
+      <div className="bg-bg-surface border border-border rounded-xl max-w-lg w-full max-h-[85vh] overflow-y-auto" onClick={e => e.stopPropagation()}>
+        <div className="flex items-center justify-between px-5 py-4 border-b border-border sticky top-0 bg-bg-surface rounded-t-xl z-10">
+          <div>
+            <h3 className="text-sm font-semibold text-text-primary">API keys</h3>
+            <p className="text-xs text-text-muted mt-0.5">{entityName}</p>
+          </div>
+          <button onClick={onClose} className="text-text-muted hover:text-text-primary text-lg leading-none">
+            &times;
+          </button>
+        </div>
+
+        <div className="px-5 py-4 space-y-3">
+          <p className="text-xs text-text-muted">
+            Give each client its own key so you can revoke one without breaking the others.
+            OAuth clients (Claude.ai, ChatGPT) don't need a key.
+          </p>
+
+          {newKey && (
+            <div className="bg-bg-deep border border-accent/40 rounded-lg p-3 space-y-2">
+              <p className="text-xs text-text-muted">Copy this key now. It will not be shown again.</p>
+              <div className="bg-bg-card border border-border rounded p-2 font-mono text-[11px] break-all">{newKey}</div>
+              <div className="flex gap-2">
+                <button
+                  onClick={handleCopy}
+                  className="px-3 py-1 text-xs bg-accent hover:bg-accent-hover text-white rounded transition-colors"
+                >
+                  {copied ? 'Copied!' : 'Copy'}
+                </button>
+                <button
+                  onClick={() => setNewKey(null)}
+                  className="px-3 py-1 text-xs bg-bg-surface hover:bg-border text-text-muted rounded transition-colors"
+                >
+                  Done
+                </button>
+              </div>
+            </div>
+          )}
+
+          {loading ? (
+            <p className="text-xs text-text-muted">Loading keys...</p>
+          ) : keys.length === 0 ? (
+            <p className="text-xs text-text-muted/60">No active keys.</p>
+          ) : (
+            keys.map(key => (
+              <div key={key.id} className={`bg-bg-deep border border-border rounded-lg p-3 ${key.expired ? 'opacity-60' : ''}`}>
+                <div className="flex items-center justify-between">
+                  <div>
+                    <p className="text-sm">{key.label}</p>
+                    <p className="text-[10px] font-mono text-text-muted">{key.hint}</p>
+                  </div>
+                  {confirmingRevoke === key.id ? (
+                    <div className="flex gap-2">
+                      <button onClick={() => handleRevoke(key.id)} className="text-xs text-danger hover:underline">Confirm</button>
+                      <button onClick={() => setConfirmingRevoke(null)} className="text-xs text-text-muted hover:text-text-primary">Cancel</button>
+                    </div>
+                  ) : (
+                    <button onClick={() => setConfirmingRevoke(key.id)} className="text-xs text-danger hover:underline">Revoke</button>
+                  )}
+                </div>
+                <p className="text-[10px] text-text-muted mt-1.5">
+                  Created {formatDate(key.created_at)} · Last used {key.last_used_at ? formatDate(key.last_used_at) : 'never'} ·{' '}
+                  {key.expired ? <span className="text-danger">Expired</span> : `Expires ${formatDate(key.expires_at)}`}
+                </p>
+                {!key.receives_messages && !key.expired && (
+                  <p className="text-[10px] text-text-muted mt-1">
+                    Queued messages aren't sealed to this key yet. Connect with it once to start receiving them.
+                  </p>
+                )}
+                {key.tools.length > 0 && (
+                  <p className="text-[10px] text-text-muted mt-1">
+                    Limited to: <span className="font-mono">{key.tools.join(', ')}</span>
+                  </p>
+                )}
+              </div>
+            ))
+          )}
+
+          {creating ? (
+            <div className="bg-bg-deep border border-border rounded-lg p-3 space-y-2">
+              <div>
+                <label className="text-xs text-text-muted block mb-1">Label</label>
+                <input
+                  value={label}
+                  onChange={e => setLabel(e.target.value)}
+                  placeholder="Claude Desktop laptop"
+                  maxLength={64}
+                  className="w-full bg-bg-card border border-border rounded px-2.5 py-1.5 text-xs"
+                />
+              </div>
+              <div>
+                <label className="text-xs text-text-muted block mb-1">Expires</label>
+                <select
+                  value={expiryDays}
+                  onChange={e => setExpiryDays(Number(e.target.value))}
+                  className="bg-bg-card border border-border rounded px-2.5 py-1.5 text-xs"
+                >
+                  {EXPIRY_OPTIONS.map(o => <option key={o.days} value={o.days}>{o.label}</option>)}
+                </select>
+              </div>
+              <ToolPicker selected={tools} onChange={setTools} label="Tools this key may use" />
+              <p className="text-[10px] text-text-muted/60">
+                Server admins' tool whitelists still apply — a key can only narrow them.
+              </p>
+              {error && <p className="text-xs text-danger">{error}</p>}
+              <div className="flex gap-2">
+                <button
+                  onClick={handleCreate}
+                  disabled={saving || !label.trim()}
+                  className="px-3 py-1 text-xs bg-accent hover:bg-accent-hover text-white rounded transition-colors disabled:opacity-40"
+                >
+                  {saving ? 'Creating...' : 'Create key'}
+                </button>
+                <button
+                  onClick={() => setCreating(false)}
+                  className="px-3 py-1 text-xs bg-bg-surface hover:bg-border text-text-muted rounded transition-colors"
+                >
+                  Cancel
+                </button>
+              </div>
+            </div>
+          ) : (
+            <button
+              onClick={startCreate}
+              className="px-3 py-1 text-xs bg-accent hover:bg-accent-hover text-white rounded transition-colors"
+            >
+              New key
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,127 @@
+import { useState, useEffect } from 'react';
+import { apiFetch } from '../lib/api';
+import type { DiscordChannel } from './ChannelPicker';
+
+interface AuditEntry {
+  id: number;
+  entity_id: string;
+  entity_name: string;
+  tool: string;
+  channel_id: string | null;
+  target_ids: Record<string, string>;
+  result: 'success' | 'error';
+  error: string | null;
+  created_at: string;
+}
+
+const AUDITED_TOOLS = [
+  'send_message', 'send_interactive_message', 'respond_to_interaction', 'send_file', 'edit_message', 'delete_message',
+  'add_reaction', 'remove_reaction', 'pin_message', 'unpin_message',
+  'create_poll', 'create_thread', 'create_forum_post', 'introduce',
+  'create_channel', 'set_channel_topic', 'rename_channel', 'delete_channel', 'create_category', 'move_channel',
+  'timeout_user', 'assign_role', 'remove_role', 'leave_server',
+];
+
+const PAGE_SIZE = 50;
+
+interface AuditLogProps {
+  serverId: string;
+  entities: Array<{ id: string; name: string }>;
+  channels: DiscordChannel[];
+}
+
+function formatDateTime(value: string): string {
+  // SQLite datetime('now') values are UTC without a zone suffix
+  return new Date(value.replace(' ', 'T') + 'Z').toLocaleString();
+}
+
+export default function AuditLog({ serverId, entities, channels }: AuditLogProps) {
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [hasMore, setHasMore] = useState(false);
+  const [entityFilter, setEntityFilter] = useState('');
+  const [toolFilter, setToolFilter] = useState('');
+  const [resultFilter, setResultFilter] = useState('');
+
+  const fetchPage = async (beforeId?: number) => {
+    const params = new URLSearchParams({ limit: String(PAGE_SIZE) });
+    if (entityFilter) params.set('entity_id', entityFilter);
+    if (toolFilter) params.set('tool', toolFilter);
+    if (resultFilter) params.set('result', resultFilter);
+    if (beforeId) params.set('before_id', String(beforeId));
+    try {
+      const page = await apiFetch<AuditEntry[]>(`/api/servers/${serverId}/audit?${params}`);
+      setEntries(prev => beforeId ? [...prev, ...page] : page);
+      setHasMore(page.length === PAGE_SIZE);
+    } catch (err) {
+      console.error('Failed to fetch audit log:', err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    setLoading(true);
+    fetchPage();
+  }, [serverId, entityFilter, toolFilter, resultFilter]);
+
+  const channelName = (id: string) => channels.find(c => c.id === id)?.name || id;
+
+  const selectClass = 'bg-bg-deep border border-border rounded px-2 py-1 text-xs';
+
+  return (
+    <div>
+      <div className="flex flex-wrap gap-2 mb-3">
+        <select value={entityFilter} onChange={e => setEntityFilter(e.target.value)} className={selectClass}>
+          <option value="">All entities</option>
+          {entities.map(e => <option key={e.id} value={e.id}>{e.name}</option>)}
+        </select>
+        <select value={toolFilter} onChange={e => setToolFilter(e.target.value)} className={selectClass}>
+          <option value="">All tools</option>
+          {AUDITED_TOOLS.map(t => <option key={t} value={t}>{t}</option>)}
+        </select>
+        <select value={resultFilter} onChange={e => setResultFilter(e.target.value)} className={selectClass}>
+          <option value="">Any result</option>
+          <option value="success">Succeeded</option>
+          <option value="error">Failed</option>
+        </select>
+      </div>
+
+      {loading ? (
+        <p className="text-xs text-text-muted">Loading audit log...</p>
+      ) : entries.length === 0 ? (
+        <p className="text-xs text-text-muted/50">No actions recorded.</p>
+      ) : (
+        <div className="space-y-1">
+          {entries.map(entry => (
+            <div key={entry.id} className="bg-bg-deep border border-border rounded px-3 py-2 text-xs">
+              <div className="flex items-center gap-2 min-w-0">
+                <span className={entry.result === 'success' ? 'text-success' : 'text-danger'}>
+                  {entry.result === 'success' ? '✓' : '✗'}
+                </span>
+                <span className="font-medium truncate">{entry.entity_name}</span>
+                <code className="text-accent">{entry.tool}</code>
+                {entry.channel_id && <span className="text-text-muted truncate">#{channelName(entry.channel_id)}</span>}
+                <span className="ml-auto text-[10px] text-text-muted/60 shrink-0">{formatDateTime(entry.created_at)}</span>
+              </div>
+              {Object.keys(entry.target_ids).length > 0 && (
+                <p className="text-[10px] text-text-muted font-mono mt-1 truncate">
+                  {Object.entries(entry.target_ids).map(([k, v]) => `${k}=${v}`).join(' ')}
+                </p>
+              )}
+              {entry.error && <p className="text-[10px] text-danger/80 mt-1">{entry.error}</p>}
+            </div>
+          ))}
+          {hasMore && (
+            <button
+              onClick={() => fetchPage(entries[entries.length - 1].id)}
+              className="w-full mt-1 px-3 py-1.5 text-xs bg-bg-surface hover:bg-border text-text-muted rounded transition-colors"
+            >
+              Load more
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -9,6 +9,7 @@ export interface DiscordChannel {
   category_name: string | null;
   position: number;
   readable?: boolean;
+  entity_access?: 'allowed' | 'blocked' | 'outside_ceiling' | 'other_server'; // only when fetched with ?entity_id=
 }
 
 interface ChannelPickerProps {
@@ -147,6 +148,9 @@ export default function ChannelPicker({ serverId, selected, onChange, channels:
                     {ch.readable === false && (
                       <span className="ml-1 text-amber-400 cursor-help" title="Arachne cannot access this channel. Add the bot to the channel permissions.">&#9888;</span>
                     )}
+                    {ch.entity_access === 'blocked' && (
+                      <span className="ml-1.5 text-[10px] text-danger cursor-help" title="The entity's owner blocked this channel. It stays blocked whatever the whitelist says.">blocked by owner</span>
+                    )}
                   </span>
                 </label>
               ))}
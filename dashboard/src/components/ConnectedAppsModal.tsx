@@ -0,0 +1,111 @@
+import { useState, useEffect } from 'react';
+import { apiFetch } from '../lib/api';
+
+interface ConnectedApp {
+  client_id: string;
+  client_name: string | null;
+  active_access_tokens: number;
+  active_refresh_tokens: number;
+  authorized_at: string;
+  scope: string;
+  last_used_at: string | null;
+}
+
+interface ConnectedAppsModalProps {
+  entityId: string;
+  entityName: string;
+  onClose: () => void;
+}
+
+function formatDateTime(value: string): string {
+  // SQLite datetime('now') values are UTC without a zone suffix
+  const date = new Date(value.includes('T') ? value : value.replace(' ', 'T') + 'Z');
+  return date.toLocaleString();
+}
+
+export default function ConnectedAppsModal({ entityId, entityName, onClose }: ConnectedAppsModalProps) {
+  const [apps, setApps] = useState<ConnectedApp[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [revoking, setRevoking] = useState<string | null>(null);
+
+  const fetchApps = async () => {
+    try {
+      setApps(await apiFetch<ConnectedApp[]>(`/api/entities/${entityId}/connected-apps`));
+    } catch (err) {
+      console.error('Failed to fetch connected apps:', err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => { fetchApps(); }, [entityId]);
+
+  const handleRevoke = async (clientId: string) => {
+    setRevoking(clientId);
+    try {
+      await apiFetch(`/api/entities/${entityId}/connected-apps/${clientId}`, { method: 'DELETE' });
+      setApps(prev => prev.filter(a => a.client_id !== clientId));
+    } catch (err) {
+      console.error('Revoke app failed:', err);
+    } finally {
+      setRevoking(null);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50 p-4" onClick={onClose}>
+      <div className="bg-bg-surface border border-border rounded-xl max-w-lg w-full max-h-[85vh] overflow-y-auto" onClick={e => e.stopPropagation()}>
+        <div className="flex items-center justify-between px-5 py-4 border-b border-border sticky top-0 bg-bg-surface rounded-t-xl z-10">
+          <div>
+            <h3 className="text-sm font-semibold text-text-primary">Connected apps</h3>
+            <p className="text-xs text-text-muted mt-0.5">{entityName}</p>
+          </div>
+          <button onClick={onClose} className="text-text-muted hover:text-text-primary text-lg leading-none">
+            &times;
+          </button>
+        </div>
+
+        <div className="px-5 py-4 space-y-3">
+          <p className="text-xs text-text-muted">
+            Apps authorized through OAuth (Claude.ai, ChatGPT and other cloud clients). Revoking signs the app out
+            immediately, including its refresh tokens — it has to ask you for consent again.
+          </p>
+
+          {loading ? (
+            <p className="text-xs text-text-muted">Loading apps...</p>
+          ) : apps.length === 0 ? (
+            <p className="text-xs text-text-muted/60">No apps are connected.</p>
+          ) : (
+            apps.map(app => (
+              <div key={app.client_id} className="bg-bg-deep border border-border rounded-lg p-3">
+                <div className="flex items-center justify-between">
+                  <div className="min-w-0">
+                    <p className="text-sm truncate">{app.client_name || 'Unnamed app'}</p>
+                    <p className="text-[10px] font-mono text-text-muted truncate">{app.client_id}</p>
+                  </div>
+                  <button
+                    onClick={() => handleRevoke(app.client_id)}
+                    disabled={revoking === app.client_id}
+                    className="text-xs text-danger hover:underline disabled:opacity-40 shrink-0 ml-3"
+                  >
+                    {revoking === app.client_id ? 'Revoking...' : 'Revoke'}
+                  </button>
+                </div>
+                <p className="text-[10px] text-text-muted mt-1.5">
+                  Authorized {formatDateTime(app.authorized_at)} · Last used {app.last_used_at ? formatDateTime(app.last_used_at) : 'never'}
+                </p>
+                <p className="text-[10px] text-text-muted mt-1">
+                  Scopes: <span className="font-mono">{app.scope === 'mcp' ? 'all tools' : app.scope.split(' ').join(', ')}</span>
+                </p>
+                <p className="text-[10px] text-text-muted/60 mt-0.5">
+                  {app.active_access_tokens} access token{app.active_access_tokens === 1 ? '' : 's'},{' '}
+                  {app.active_refresh_tokens} refresh token{app.active_refresh_tokens === 1 ? '' : 's'}
+                </p>
+              </div>
+            ))
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -7,6 +7,7 @@ export default function Layout() {
   const navItems = [
     { to: '/entities', label: 'My Entities', show: true },
     { to: '/servers', label: 'My Servers', show: (user?.admin_servers.length ?? 0) > 0 },
+    { to: '/approvals', label: 'Approvals', show: true },
     { to: '/tools', label: 'Tools', show: true },
     { to: '/bug-reports', label: 'Bug Reports', show: true },
     { to: '/config-doctor', label: 'Config Doctor', show: true },
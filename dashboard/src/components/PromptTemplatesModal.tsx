@@ -0,0 +1,178 @@
+import { useState, useEffect } from 'react';
+import { apiFetch } from '../lib/api';
+
+interface PromptTemplate {
+  id: string;
+  name: string;
+  description: string | null;
+  template: string;
+}
+
+interface PromptTemplatesModalProps {
+  entityId: string;
+  entityName: string;
+  onClose: () => void;
+}
+
+const PLACEHOLDERS = ['entity_name', 'server_name', 'server_id', 'channel_name', 'channel_id'];
+
+export default function PromptTemplatesModal({ entityId, entityName, onClose }: PromptTemplatesModalProps) {
+  const [prompts, setPrompts] = useState<PromptTemplate[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [editingId, setEditingId] = useState<string | null>(null); // 'new' for the create form
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [template, setTemplate] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchPrompts = async () => {
+    try {
+      setPrompts(await apiFetch<PromptTemplate[]>(`/api/entities/${entityId}/prompts`));
+    } catch (err) {
+      console.error('Failed to fetch prompts:', err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => { fetchPrompts(); }, [entityId]);
+
+  const startEdit = (prompt: PromptTemplate | null) => {
+    setEditingId(prompt ? prompt.id : 'new');
+    setName(prompt?.name || '');
+    setDescription(prompt?.description || '');
+    setTemplate(prompt?.template || '');
+    setError(null);
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    setError(null);
+    try {
+      const body = JSON.stringify({ name: name.trim(), description: description.trim() || null, template });
+      if (editingId === 'new') {
+        await apiFetch(`/api/entities/${entityId}/prompts`, { method: 'POST', body });
+      } else {
+        await apiFetch(`/api/entities/${entityId}/prompts/${editingId}`, { method: 'PATCH', body });
+      }
+      setEditingId(null);
+      fetchPrompts();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Save failed');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (promptId: string) => {
+    try {
+      await apiFetch(`/api/entities/${entityId}/prompts/${promptId}`, { method: 'DELETE' });
+      setPrompts(prev => prev.filter(p => p.id !== promptId));
+    } catch (err) {
+      console.error('Delete prompt failed:', err);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50 p-4" onClick={onClose}>
+      <div className="bg-bg-surface border border-border rounded-xl max-w-lg w-full max-h-[85vh] overflow-y-auto" onClick={e => e.stopPropagation()}>
+        <div className="flex items-center justify-between px-5 py-4 border-b border-border sticky top-0 bg-bg-surface rounded-t-xl z-10">
+          <div>
+            <h3 className="text-sm font-semibold text-text-primary">Prompt templates</h3>
+            <p className="text-xs text-text-muted mt-0.5">{entityName}</p>
+          </div>
+          <button onClick={onClose} className="text-text-muted hover:text-text-primary text-lg leading-none">
+            &times;
+          </button>
+        </div>
+
+        <div className="px-5 py-4 space-y-3">
+          <p className="text-xs text-text-muted">
+            Templates show up as MCP prompts in your AI client, next to the built-in
+            <span className="font-mono"> catch_up</span>, <span className="font-mono">reply_to_mentions</span> and
+            <span className="font-mono"> introduce_yourself</span>.
+          </p>
+
+          {loading ? (
+            <p className="text-xs text-text-muted">Loading prompts...</p>
+          ) : prompts.length === 0 && editingId === null ? (
+            <p className="text-xs text-text-muted/60">No custom prompts yet.</p>
+          ) : (
+            prompts.filter(p => p.id !== editingId).map(prompt => (
+              <div key={prompt.id} className="bg-bg-deep border border-border rounded-lg p-3">
+                <div className="flex items-center justify-between">
+                  <p className="text-sm font-mono">{prompt.name}</p>
+                  <div className="flex gap-2">
+                    <button onClick={() => startEdit(prompt)} className="text-xs text-text-muted hover:text-text-primary">Edit</button>
+                    <button onClick={() => handleDelete(prompt.id)} className="text-xs text-danger hover:underline">Delete</button>
+                  </div>
+                </div>
+                {prompt.description && <p className="text-xs text-text-muted mt-1">{prompt.description}</p>}
+              </div>
+            ))
+          )}
+
+          {editingId !== null ? (
+            <div className="bg-bg-deep border border-border rounded-lg p-3 space-y-2">
+              <div>
+                <label className="text-xs text-text-muted block mb-1">Name</label>
+                <input
+                  value={name}
+                  onChange={e => setName(e.target.value.toLowerCase())}
+                  placeholder="morning_check_in"
+                  className="w-full bg-bg-card border border-border rounded px-2.5 py-1.5 text-xs font-mono"
+                />
+              </div>
+              <div>
+                <label className="text-xs text-text-muted block mb-1">Description</label>
+                <input
+                  value={description}
+                  onChange={e => setDescription(e.target.value)}
+                  placeholder="Shown in your AI client's prompt picker"
+                  className="w-full bg-bg-card border border-border rounded px-2.5 py-1.5 text-xs"
+                />
+              </div>
+              <div>
+                <label className="text-xs text-text-muted block mb-1">Template</label>
+                <textarea
+                  value={template}
+                  onChange={e => setTemplate(e.target.value)}
+                  rows={5}
+                  placeholder="You are {{entity_name}}. Say good morning in #{{channel_name}} and ask how everyone slept."
+                  className="w-full bg-bg-card border border-border rounded px-2.5 py-1.5 text-xs"
+                />
+                <p className="text-[10px] text-text-muted/60 mt-1">
+                  Placeholders: {PLACEHOLDERS.map(p => `{{${p}}}`).join(', ')}. Channel placeholders ask for a channel; server placeholders ask for a server.
+                </p>
+              </div>
+              {error && <p className="text-xs text-danger">{error}</p>}
+              <div className="flex gap-2">
+                <button
+                  onClick={handleSave}
+                  disabled={saving || !name.trim() || !template.trim()}
+                  className="px-3 py-1 text-xs bg-accent hover:bg-accent-hover text-white rounded transition-colors disabled:opacity-40"
+                >
+                  {saving ? 'Saving...' : 'Save'}
+                </button>
+                <button
+                  onClick={() => setEditingId(null)}
+                  className="px-3 py-1 text-xs bg-bg-surface hover:bg-border text-text-muted rounded transition-colors"
+                >
+                  Cancel
+                </button>
+              </div>
+            </div>
+          ) : (
+            <button
+              onClick={() => startEdit(null)}
+              className="px-3 py-1 text-xs bg-accent hover:bg-accent-hover text-white rounded transition-colors"
+            >
+              Add prompt
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,79 @@
+export interface RateLimit {
+  burst: number;
+  per_minute: number;
+}
+
+export type RateLimits = Record<string, RateLimit | null>;
+
+export const RATE_LIMIT_CATEGORIES = [
+  { key: 'messages', label: 'Messages', description: 'send, edit, delete, files, polls, threads, DMs' },
+  { key: 'reactions', label: 'Reactions', description: 'add/remove reactions, pin/unpin' },
+  { key: 'search', label: 'Search', description: 'search, history, forum threads, member lookups' },
+  { key: 'moderation', label: 'Moderation', description: 'timeouts, role changes' },
+  { key: 'channels', label: 'Channels', description: 'create, rename, move, delete channels' },
+];
+
+const DEFAULT_LIMIT: RateLimit = { burst: 10, per_minute: 20 };
+
+interface RateLimitEditorProps {
+  limits: RateLimits;
+  onChange: (limits: RateLimits) => void;
+  offLabel: string; // What an unchecked category means ("Unlimited", "No server limit")
+}
+
+export default function RateLimitEditor({ limits, onChange, offLabel }: RateLimitEditorProps) {
+  const setLimit = (key: string, limit: RateLimit | null) => onChange({ ...limits, [key]: limit });
+
+  const setField = (key: string, field: keyof RateLimit, value: string) => {
+    const current = limits[key] ?? DEFAULT_LIMIT;
+    setLimit(key, { ...current, [field]: Math.max(1, parseInt(value, 10) || 1) });
+  };
+
+  return (
+    <div className="border border-border rounded p-2 bg-bg-card space-y-1.5">
+      {RATE_LIMIT_CATEGORIES.map(({ key, label, description }) => {
+        const limit = limits[key] ?? null;
+        return (
+          <div key={key} className="flex items-center gap-3">
+            <label className="flex items-center gap-2 cursor-pointer flex-1 min-w-0">
+              <input
+                type="checkbox"
+                checked={!!limit}
+                onChange={() => setLimit(key, limit ? null : DEFAULT_LIMIT)}
+                className="rounded border-border"
+              />
+              <span className="min-w-0">
+                <span className="text-xs text-text-primary">{label}</span>
+                <span className="block text-[10px] text-text-muted truncate">{description}</span>
+              </span>
+            </label>
+            {limit ? (
+              <div className="flex items-center gap-1.5 text-[10px] text-text-muted shrink-0">
+                <input
+                  type="number"
+                  min={1}
+                  value={limit.burst}
+                  onChange={e => setField(key, 'burst', e.target.value)}
+                  className="w-14 bg-bg-deep border border-border rounded px-1.5 py-1 text-xs text-text-primary"
+                  title="Calls allowed back to back"
+                />
+                burst,
+                <input
+                  type="number"
+                  min={1}
+                  value={limit.per_minute}
+                  onChange={e => setField(key, 'per_minute', e.target.value)}
+                  className="w-14 bg-bg-deep border border-border rounded px-1.5 py-1 text-xs text-text-primary"
+                  title="Calls refilled per minute"
+                />
+                /min
+              </div>
+            ) : (
+              <span className="text-[10px] text-text-muted/60 shrink-0">{offLabel}</span>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -3,7 +3,7 @@ import { useState, useEffect } from 'react';
 const TOOL_GROUPS = [
   {
     label: 'Messaging',
-    tools: ['read_messages', 'send_message', 'send_dm', 'send_file'],
+    tools: ['read_messages', 'wait_for_messages', 'send_message', 'send_interactive_message', 'send_dm', 'respond_to_interaction', 'send_file'],
   },
   {
     label: 'Channel Management',
@@ -39,7 +39,7 @@ const TOOL_GROUPS = [
   },
   {
     label: 'System',
-    tools: ['leave_server'],
+    tools: ['leave_server', 'check_pending_action'],
   },
 ];
 
@@ -0,0 +1,109 @@
+import { useState, useEffect } from 'react';
+import { apiFetch } from '../lib/api';
+import type { RateLimit } from './RateLimitEditor';
+
+interface BucketUsage {
+  limit: RateLimit;
+  remaining: number;
+  retry_after_seconds: number;
+}
+
+interface CategoryUsage {
+  category: string;
+  description: string;
+  entity: BucketUsage | null;
+  servers: Array<BucketUsage & { server_id: string; server_name: string }>;
+}
+
+interface UsageModalProps {
+  entityId: string;
+  entityName: string;
+  onClose: () => void;
+}
+
+function UsageBar({ label, usage }: { label: string; usage: BucketUsage }) {
+  const used = usage.limit.burst - usage.remaining;
+  const pct = Math.min(100, Math.round((used / usage.limit.burst) * 100));
+  return (
+    <div>
+      <div className="flex items-center justify-between text-[10px] text-text-muted">
+        <span className="truncate">{label}</span>
+        <span className="shrink-0 ml-2">
+          {usage.remaining}/{usage.limit.burst} left · {usage.limit.per_minute}/min
+          {usage.retry_after_seconds > 0 && <span className="text-warning"> · retry in {usage.retry_after_seconds}s</span>}
+        </span>
+      </div>
+      <div className="h-1.5 bg-bg-surface rounded mt-1 overflow-hidden">
+        <div
+          className={`h-full rounded ${usage.remaining === 0 ? 'bg-danger' : 'bg-accent'}`}
+          style={{ width: `${pct}%` }}
+        />
+      </div>
+    </div>
+  );
+}
+
+export default function UsageModal({ entityId, entityName, onClose }: UsageModalProps) {
+  const [usage, setUsage] = useState<CategoryUsage[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchUsage = async () => {
+    try {
+      setUsage(await apiFetch<CategoryUsage[]>(`/api/entities/${entityId}/usage`));
+    } catch (err) {
+      console.error('Failed to fetch usage:', err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchUsage();
+    const timer = setInterval(fetchUsage, 5000);
+    return () => clearInterval(timer);
+  }, [entityId]);
+
+  return (
+    <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50 p-4" onClick={onClose}>
+      <div className="bg-bg-surface border border-border rounded-xl max-w-lg w-full max-h-[85vh] overflow-y-auto" onClick={e => e.stopPropagation()}>
+        <div className="flex items-center justify-between px-5 py-4 border-b border-border sticky top-0 bg-bg-surface rounded-t-xl z-10">
+          <div>
+            <h3 className="text-sm font-semibold text-text-primary">Rate limit usage</h3>
+            <p className="text-xs text-text-muted mt-0.5">{entityName}</p>
+          </div>
+          <button onClick={onClose} className="text-text-muted hover:text-text-primary text-lg leading-none">
+            &times;
+          </button>
+        </div>
+
+        <div className="px-5 py-4 space-y-3">
+          <p className="text-xs text-text-muted">
+            Tool calls left before the entity is told to wait. Buckets refill continuously; a call that finds one
+            empty fails with a "retry after" error.
+          </p>
+
+          {loading ? (
+            <p className="text-xs text-text-muted">Loading usage...</p>
+          ) : (
+            usage.map(cat => (
+              <div key={cat.category} className="bg-bg-deep border border-border rounded-lg p-3 space-y-2">
+                <div>
+                  <p className="text-sm capitalize">{cat.category}</p>
+                  <p className="text-[10px] text-text-muted">{cat.description}</p>
+                </div>
+                {cat.entity ? (
+                  <UsageBar label="All servers" usage={cat.entity} />
+                ) : (
+                  <p className="text-[10px] text-text-muted/60">No global limit</p>
+                )}
+                {cat.servers.map(s => (
+                  <UsageBar key={s.server_id} label={s.server_name} usage={s} />
+                ))}
+              </div>
+            ))
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,153 @@
+import { useState, useEffect } from 'react';
+import { apiFetch } from '../lib/api';
+
+interface PendingAction {
+  id: string;
+  entity_id: string;
+  entity_name: string;
+  server_id: string;
+  server_name: string;
+  tool: string;
+  args: Record<string, unknown>;
+  status: 'pending' | 'approved' | 'executed' | 'failed' | 'denied' | 'expired';
+  result: string | null;
+  decided_by_name: string | null;
+  created_at: string;
+  decided_at: string | null;
+  expires_at: string;
+}
+
+const statusStyles: Record<PendingAction['status'], string> = {
+  pending: 'bg-warning/15 text-warning border-warning/30',
+  approved: 'bg-accent/15 text-accent border-accent/30',
+  executed: 'bg-success/15 text-success border-success/30',
+  failed: 'bg-danger/15 text-danger border-danger/30',
+  denied: 'bg-danger/15 text-danger border-danger/30',
+  expired: 'bg-bg-surface text-text-muted border-border',
+};
+
+function formatDateTime(value: string): string {
+  // SQLite datetime('now') values are UTC without a zone suffix
+  return new Date(value.replace(' ', 'T') + 'Z').toLocaleString();
+}
+
+export default function Approvals() {
+  const [actions, setActions] = useState<PendingAction[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [deciding, setDeciding] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchActions = async () => {
+    try {
+      setActions(await apiFetch<PendingAction[]>('/api/approvals'));
+    } catch (err) {
+      console.error('Failed to fetch approvals:', err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchActions();
+    const timer = setInterval(fetchActions, 15000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const handleDecision = async (actionId: string, decision: 'approve' | 'deny') => {
+    setDeciding(actionId);
+    setError(null);
+    try {
+      const updated = await apiFetch<PendingAction>(`/api/approvals/${actionId}/${decision}`, { method: 'POST' });
+      setActions(prev => prev.map(a => a.id === actionId ? updated : a));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+      fetchActions();
+    } finally {
+      setDeciding(null);
+    }
+  };
+
+  if (loading) return <div className="text-text-muted">Loading...</div>;
+
+  const pending = actions.filter(a => a.status === 'pending');
+  const decided = actions.filter(a => a.status !== 'pending');
+
+  const renderAction = (action: PendingAction) => (
+    <div key={action.id} className="bg-bg-card border border-border rounded-lg p-4">
+      <div className="flex items-start justify-between gap-3">
+        <div className="min-w-0">
+          <div className="flex items-center gap-2 mb-1">
+            <span className={`inline-flex items-center px-2 py-0.5 rounded text-[10px] font-medium border flex-shrink-0 capitalize ${statusStyles[action.status]}`}>
+              {action.status}
+            </span>
+            <span className="text-sm font-medium truncate">{action.entity_name}</span>
+            <code className="text-xs text-accent">{action.tool}</code>
+          </div>
+          <p className="text-xs text-text-muted">{action.server_name}</p>
+          <div className="mt-2 space-y-0.5">
+            {Object.entries(action.args).filter(([key]) => key !== 'server_id').map(([key, value]) => (
+              <p key={key} className="text-[10px] text-text-muted font-mono truncate">{key}: {String(value)}</p>
+            ))}
+          </div>
+          <p className="text-[10px] text-text-muted/50 mt-2">
+            Requested {formatDateTime(action.created_at)}
+            {action.status === 'pending'
+              ? ` · expires ${formatDateTime(action.expires_at)}`
+              : action.decided_by_name && ` · ${action.status === 'denied' ? 'denied' : 'approved'} by ${action.decided_by_name}`}
+          </p>
+          {action.result && action.status !== 'pending' && (
+            <p className={`text-[10px] mt-1 break-words ${action.status === 'executed' ? 'text-text-muted' : 'text-danger/80'}`}>
+              {action.result.length > 300 ? action.result.slice(0, 300) + '…' : action.result}
+            </p>
+          )}
+        </div>
+        {action.status === 'pending' && (
+          <div className="flex gap-2 flex-shrink-0">
+            <button
+              onClick={() => handleDecision(action.id, 'approve')}
+              disabled={deciding === action.id}
+              className="px-3 py-1.5 text-xs bg-success/20 hover:bg-success/30 text-success rounded transition-colors disabled:opacity-40"
+            >
+              {deciding === action.id ? 'Working...' : 'Approve'}
+            </button>
+            <button
+              onClick={() => handleDecision(action.id, 'deny')}
+              disabled={deciding === action.id}
+              className="px-3 py-1.5 text-xs bg-danger/20 hover:bg-danger/30 text-danger rounded transition-colors disabled:opacity-40"
+            >
+              Deny
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+
+  return (
+    <div>
+      <div className="mb-6">
+        <h2 className="text-xl font-semibold">Approvals</h2>
+        <p className="text-sm text-text-muted mt-1">
+          Tool calls held for a human decision — on servers you admin, or by entities you own. Approval requests are
+          also sent to you as a Discord DM.
+        </p>
+      </div>
+
+      {error && <p className="text-xs text-danger mb-3">{error}</p>}
+
+      <h3 className="text-sm font-medium text-text-muted mb-3">Waiting ({pending.length})</h3>
+      {pending.length === 0 ? (
+        <p className="text-xs text-text-muted/50 mb-8">Nothing is waiting for approval.</p>
+      ) : (
+        <div className="space-y-2 mb-8">{pending.map(renderAction)}</div>
+      )}
+
+      {decided.length > 0 && (
+        <>
+          <h3 className="text-sm font-medium text-text-muted mb-3">Recent decisions</h3>
+          <div className="space-y-2">{decided.map(renderAction)}</div>
+        </>
+      )}
+    </div>
+  );
+}
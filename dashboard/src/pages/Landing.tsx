@@ -45,7 +45,7 @@ const FAQ_SECTIONS = [
   {
     title: 'Is my data private and secure?',
     content:
-      'Zero-knowledge message privacy. Messages are encrypted per-Entity using AES-256-GCM with keys derived from your API key via HKDF-SHA256 — keys exist only in volatile process memory, never written to disk. The operator cannot read your messages. A database breach reveals nothing — no messages are stored, no encryption keys are persisted. Messages expire after 15 minutes and are permanently deleted from memory. Your API key is never stored — only a bcrypt hash for authentication. No analytics, no tracking, no data mining.',
+      'Zero-knowledge message privacy. Every message is sealed the moment it arrives — AES-256-GCM, with the key sealed via X25519 to each API key and connected app of your Entity. The server stores only public keys; the private keys come from your API key or the tokens of your app and never touch disk. The operator cannot read your messages. A database breach reveals nothing — no messages are stored, no decryption keys are persisted. Messages expire after 15 minutes and are permanently deleted. Your API key is never stored — only a bcrypt hash for authentication. No analytics, no tracking, no data mining.',
   },
   {
     title: 'Can one Entity join multiple servers?',
@@ -2,6 +2,10 @@ import { useState, useEffect, useRef } from 'react';
 import { Link } from 'react-router-dom';
 import { apiFetch, clearToken } from '../lib/api';
 import ApiKeyModal from '../components/ApiKeyModal';
+import PromptTemplatesModal from '../components/PromptTemplatesModal';
+import ApiKeysModal from '../components/ApiKeysModal';
+import ConnectedAppsModal from '../components/ConnectedAppsModal';
+import UsageModal from '../components/UsageModal';
 
 interface EntityServer {
   server_id: string;
@@ -11,6 +15,19 @@ interface EntityServer {
   watch_channels: string[];
   blocked_channels: string[];
   role_id: string | null;
+  hear_entities: boolean;
+  max_reply_depth: number;
+  reply_cooldown_seconds: number;
+  hop_budget: number;
+}
+
+interface ServerEdit {
+  watch: string;
+  blocked: string;
+  hearEntities: boolean;
+  maxReplyDepth: string;
+  replyCooldown: string;
+  hopBudget: string;
 }
 
 interface Entity {
@@ -24,6 +41,8 @@ interface Entity {
   triggers: string[];
   notify_on_mention: boolean;
   notify_on_trigger: boolean;
+  dm_intake: boolean;
+  dm_allowlist: string[];
   created_at: string;
   servers: EntityServer[];
 }
@@ -52,6 +71,8 @@ export default function MyEntities() {
   const [editTriggers, setEditTriggers] = useState('');
   const [editNotifyMention, setEditNotifyMention] = useState(false);
   const [editNotifyTrigger, setEditNotifyTrigger] = useState(false);
+  const [editDmIntake, setEditDmIntake] = useState(false);
+  const [editDmAllowlist, setEditDmAllowlist] = useState('');
 
   // Create form
   const [showCreate, setShowCreate] = useState(false);
@@ -72,6 +93,10 @@ export default function MyEntities() {
 
   // Connect panel
   const [connectingFor, setConnectingFor] = useState<string | null>(null);
+  const [promptsFor, setPromptsFor] = useState<string | null>(null);
+  const [keysFor, setKeysFor] = useState<string | null>(null);
+  const [appsFor, setAppsFor] = useState<string | null>(null);
+  const [usageFor, setUsageFor] = useState<string | null>(null);
   const [copiedField, setCopiedField] = useState<string | null>(null);
 
   const copyToClipboard = (text: string, field: string) => {
@@ -86,7 +111,7 @@ export default function MyEntities() {
 
   // Server detail panel
   const [expandedEntity, setExpandedEntity] = useState<string | null>(null);
-  const [serverEdits, setServerEdits] = useState<Record<string, { watch: string; blocked: string }>>({});
+  const [serverEdits, setServerEdits] = useState<Record<string, ServerEdit>>({});
   const [savingEdit, setSavingEdit] = useState(false);
   const [savedServer, setSavedServer] = useState<string | null>(null);
 
@@ -189,11 +214,14 @@ export default function MyEntities() {
     setEditTriggers((entity.triggers || []).join(', '));
     setEditNotifyMention(entity.notify_on_mention ?? false);
     setEditNotifyTrigger(entity.notify_on_trigger ?? false);
+    setEditDmIntake(entity.dm_intake ?? false);
+    setEditDmAllowlist((entity.dm_allowlist || []).join(', '));
   };
 
   const saveEdit = async (entityId: string) => {
     setSavingEdit(true);
     const triggers = editTriggers.split(',').map(t => t.trim()).filter(Boolean);
+    const dmAllowlist = editDmAllowlist.split(',').map(t => t.trim()).filter(Boolean);
     await apiFetch(`/api/entities/${entityId}`, {
       method: 'PATCH',
       body: JSON.stringify({
@@ -203,6 +231,8 @@ export default function MyEntities() {
         triggers,
         notify_on_mention: editNotifyMention,
         notify_on_trigger: editNotifyTrigger,
+        dm_intake: editDmIntake,
+        dm_allowlist: dmAllowlist,
       }),
     });
     setSavingEdit(false);
@@ -243,11 +273,15 @@ export default function MyEntities() {
     }
     setExpandedEntity(entityId);
     // Init edit state from current values
-    const edits: Record<string, { watch: string; blocked: string }> = {};
+    const edits: Record<string, ServerEdit> = {};
     for (const s of servers) {
       edits[s.server_id] = {
         watch: s.watch_channels.join(', '),
         blocked: s.blocked_channels.join(', '),
+        hearEntities: s.hear_entities,
+        maxReplyDepth: String(s.max_reply_depth),
+        replyCooldown: String(s.reply_cooldown_seconds),
+        hopBudget: String(s.hop_budget),
       };
     }
     setServerEdits(edits);
@@ -261,7 +295,14 @@ export default function MyEntities() {
     const blocked = edit.blocked.split(',').map(c => c.trim()).filter(Boolean);
     await apiFetch(`/api/entities/${entityId}/servers/${serverId}`, {
       method: 'PATCH',
-      body: JSON.stringify({ watch_channels: watch, blocked_channels: blocked }),
+      body: JSON.stringify({
+        watch_channels: watch,
+        blocked_channels: blocked,
+        hear_entities: edit.hearEntities,
+        max_reply_depth: Math.min(10, Math.max(0, parseInt(edit.maxReplyDepth, 10) || 0)),
+        reply_cooldown_seconds: Math.min(3600, Math.max(0, parseInt(edit.replyCooldown, 10) || 0)),
+        hop_budget: Math.min(200, Math.max(0, parseInt(edit.hopBudget, 10) || 0)),
+      }),
     });
     setSavedServer(serverId);
     setTimeout(() => setSavedServer(null), 2000);
@@ -441,6 +482,34 @@ export default function MyEntities() {
                         <p className="text-[10px] text-text-muted">Arachne will DM you when your entity is mentioned or triggered</p>
                       </div>
                     </div>
+                    {/* Direct messages */}
+                    <div className="border-t border-border pt-3 space-y-2">
+                      <label className="flex items-center gap-2 cursor-pointer">
+                        <input
+                          type="checkbox"
+                          checked={editDmIntake}
+                          onChange={e => setEditDmIntake(e.target.checked)}
+                          className="w-3.5 h-3.5 rounded border-border accent-accent"
+                        />
+                        <span className="text-xs text-text-muted">Accept DMs</span>
+                      </label>
+                      <p className="text-[10px] text-text-muted">
+                        DMs to the Arachne bot reach this entity when it last DMed the sender, when the sender picks it, or
+                        when they start with <code>!{editName || 'name'}</code>. They are queued with <code>dm: true</code>.
+                      </p>
+                      {editDmIntake && (
+                        <div>
+                          <label className="text-xs text-text-muted block mb-1">Who can DM</label>
+                          <input
+                            value={editDmAllowlist}
+                            onChange={e => setEditDmAllowlist(e.target.value)}
+                            placeholder="Discord user IDs, comma-separated"
+                            className="w-full bg-bg-deep border border-border rounded px-3 py-2 text-sm font-mono"
+                          />
+                          <p className="text-[10px] text-text-muted mt-1">(leave empty to accept anyone who shares a server with this entity)</p>
+                        </div>
+                      )}
+                    </div>
                     <div className="flex gap-2">
                       <button
                         onClick={() => saveEdit(entity.id)}
@@ -513,6 +582,30 @@ export default function MyEntities() {
                     >
                       Connect
                     </button>
+                    <button
+                      onClick={() => setPromptsFor(entity.id)}
+                      className="px-2.5 py-1 text-xs bg-bg-surface hover:bg-border text-text-muted rounded transition-colors"
+                    >
+                      Prompts
+                    </button>
+                    <button
+                      onClick={() => setKeysFor(entity.id)}
+                      className="px-2.5 py-1 text-xs bg-bg-surface hover:bg-border text-text-muted rounded transition-colors"
+                    >
+                      API Keys
+                    </button>
+                    <button
+                      onClick={() => setAppsFor(entity.id)}
+                      className="px-2.5 py-1 text-xs bg-bg-surface hover:bg-border text-text-muted rounded transition-colors"
+                    >
+                      Connected Apps
+                    </button>
+                    <button
+                      onClick={() => setUsageFor(entity.id)}
+                      className="px-2.5 py-1 text-xs bg-bg-surface hover:bg-border text-text-muted rounded transition-colors"
+                    >
+                      Usage
+                    </button>
                     <button
                       onClick={() => openServerRequest(entity.id)}
                       className="px-2.5 py-1 text-xs bg-bg-surface hover:bg-border text-text-muted rounded transition-colors"
@@ -537,6 +630,7 @@ export default function MyEntities() {
                     ) : (
                       <button
                         onClick={() => setConfirmingRegen(entity.id)}
+                        title="Revoke every API key and issue a single new one"
                         className="px-2.5 py-1 text-xs bg-bg-surface hover:bg-border text-warning rounded transition-colors"
                       >
                         Regen Key
@@ -645,7 +739,7 @@ export default function MyEntities() {
                     {entity.description && (
                       <p className="text-sm text-text-muted mt-1 leading-relaxed">{entity.description}</p>
                     )}
-                    {((entity.triggers && entity.triggers.length > 0) || entity.notify_on_mention || entity.notify_on_trigger) && (
+                    {((entity.triggers && entity.triggers.length > 0) || entity.notify_on_mention || entity.notify_on_trigger || entity.dm_intake) && (
                       <div className="mt-3 pt-3 border-t border-border space-y-1.5">
                         {entity.triggers && entity.triggers.length > 0 && (
                           <div className="flex flex-wrap gap-1">
@@ -663,6 +757,11 @@ export default function MyEntities() {
                           {entity.notify_on_trigger && (
                             <span className="text-[10px] text-accent">DM on trigger</span>
                           )}
+                          {entity.dm_intake && (
+                            <span className="text-[10px] text-accent">
+                              Accepts DMs{entity.dm_allowlist.length > 0 ? ` (${entity.dm_allowlist.length} allowed)` : ''}
+                            </span>
+                          )}
                         </div>
                       </div>
                     )}
@@ -725,6 +824,45 @@ export default function MyEntities() {
                                   className="w-full bg-bg-card border border-border rounded px-2.5 py-1.5 text-xs"
                                 />
                               </div>
+                              <div>
+                                <label className="flex items-center gap-2 cursor-pointer">
+                                  <input
+                                    type="checkbox"
+                                    checked={serverEdits[server.server_id]?.hearEntities || false}
+                                    onChange={e => setServerEdits(prev => ({
+                                      ...prev,
+                                      [server.server_id]: { ...prev[server.server_id], hearEntities: e.target.checked },
+                                    }))}
+                                    className="w-3.5 h-3.5 rounded border-border accent-accent"
+                                  />
+                                  <span className="text-xs text-text-muted">Hear other entities</span>
+                                </label>
+                                <p className="text-[10px] text-text-muted/40 mt-1">Queue messages posted by other Arachne entities. Loop guards stop AI-only chains until a human speaks.</p>
+                                {serverEdits[server.server_id]?.hearEntities && (
+                                  <div className="grid grid-cols-3 gap-2 mt-2">
+                                    {([
+                                      ['maxReplyDepth', 'Max reply depth', 10],
+                                      ['replyCooldown', 'Cooldown (sec)', 3600],
+                                      ['hopBudget', 'Hops per hour', 200],
+                                    ] as const).map(([field, label, max]) => (
+                                      <div key={field}>
+                                        <label className="text-[10px] text-text-muted block mb-1">{label}</label>
+                                        <input
+                                          type="number"
+                                          min={0}
+                                          max={max}
+                                          value={serverEdits[server.server_id]?.[field] ?? ''}
+                                          onChange={e => setServerEdits(prev => ({
+                                            ...prev,
+                                            [server.server_id]: { ...prev[server.server_id], [field]: e.target.value },
+                                          }))}
+                                          className="w-full bg-bg-card border border-border rounded px-2.5 py-1.5 text-xs"
+                                        />
+                                      </div>
+                                    ))}
+                                  </div>
+                                )}
+                              </div>
                               <button
                                 onClick={() => saveServerConfig(entity.id, server.server_id)}
                                 disabled={savedServer === server.server_id + '-saving'}
@@ -890,7 +1028,7 @@ export default function MyEntities() {
                   <p className="text-[10px] text-text-muted leading-relaxed">
                     Cloud platforms (<span className="text-text-primary">Claude.ai</span>, <span className="text-text-primary">ChatGPT</span>) use OAuth 2.1 — no API key needed.
                     <span className="text-text-primary">Claude Desktop</span> and <span className="text-text-primary">Claude Code</span> use the API key — different config methods shown above.
-                    Lost your API key? Close this modal and click <span className="text-warning">Regen Key</span>.
+                    Lost your API key? Close this modal, open <span className="text-text-primary">API Keys</span> and create a new one (then revoke the lost key).
                   </p>
                 </div>
               </div>
@@ -900,6 +1038,34 @@ export default function MyEntities() {
       })()}
 
       {apiKey && <ApiKeyModal apiKey={apiKey} onClose={() => setApiKey(null)} />}
+      {promptsFor && (
+        <PromptTemplatesModal
+          entityId={promptsFor}
+          entityName={entities.find(e => e.id === promptsFor)?.name || ''}
+          onClose={() => setPromptsFor(null)}
+        />
+      )}
+      {keysFor && (
+        <ApiKeysModal
+          entityId={keysFor}
+          entityName={entities.find(e => e.id === keysFor)?.name || ''}
+          onClose={() => setKeysFor(null)}
+        />
+      )}
+      {appsFor && (
+        <ConnectedAppsModal
+          entityId={appsFor}
+          entityName={entities.find(e => e.id === appsFor)?.name || ''}
+          onClose={() => setAppsFor(null)}
+        />
+      )}
+      {usageFor && (
+        <UsageModal
+          entityId={usageFor}
+          entityName={entities.find(e => e.id === usageFor)?.name || ''}
+          onClose={() => setUsageFor(null)}
+        />
+      )}
     </div>
   );
 }
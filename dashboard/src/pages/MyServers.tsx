@@ -3,6 +3,8 @@ import { useAuth } from '../context/AuthContext';
 import { apiFetch } from '../lib/api';
 import ChannelPicker, { type DiscordChannel } from '../components/ChannelPicker';
 import ToolPicker from '../components/ToolPicker';
+import RateLimitEditor, { type RateLimits } from '../components/RateLimitEditor';
+import AuditLog from '../components/AuditLog';
 
 interface ServerEntity {
   id: string;
@@ -18,6 +20,7 @@ interface ServerEntity {
   watch_channels: string[];
   blocked_channels: string[];
   role_id: string | null;
+  muted_until: string | null;
 }
 
 interface ServerRequest {
@@ -54,8 +57,19 @@ interface ServerSettingsData {
   announce_channel: string | null;
   announce_message: string | null;
   default_template: string | null;
+  rate_limits: RateLimits;
+  audit_channel: string | null;
+  approval_tools: string[];
 }
 
+// Tools whose arguments carry no message content (must match APPROVABLE_TOOLS on the server)
+const APPROVABLE_TOOLS = [
+  'delete_message', 'pin_message', 'unpin_message',
+  'timeout_user', 'assign_role', 'remove_role',
+  'create_channel', 'rename_channel', 'move_channel', 'delete_channel', 'create_category',
+  'leave_server',
+];
+
 export default function MyServers() {
   const { user } = useAuth();
   const [selectedServer, setSelectedServer] = useState<string | null>(null);
@@ -86,6 +100,7 @@ export default function MyServers() {
   const [configTools, setConfigTools] = useState<string[]>([]);
   const [configDedicatedChannels, setConfigDedicatedChannels] = useState('');
   const [configTemplateId, setConfigTemplateId] = useState<string | null>(null);
+  const [configChannelAccess, setConfigChannelAccess] = useState<DiscordChannel[] | null>(null);
   const [savingConfig, setSavingConfig] = useState(false);
   const [savingTemplate, setSavingTemplate] = useState(false);
 
@@ -163,8 +178,8 @@ export default function MyServers() {
     // Parse current dedicated channels
     const dedicated = configDedicatedChannels
       .split(',').map(s => s.trim()).filter(Boolean);
-    // Merge template channels + dedicated
-    const merged = [...new Set([...template.channels, ...dedicated])];
+    // Merge template channels + dedicated (an all-channels template stays all-channels)
+    const merged = template.channels.length === 0 ? [] : [...new Set([...template.channels, ...dedicated])];
     setConfigChannels(merged);
     setConfigTools(template.tools);
     setConfigTemplateId(template.id);
@@ -273,6 +288,10 @@ export default function MyServers() {
     setConfigTools(entity.tools);
     setConfigDedicatedChannels(entity.dedicated_channels.join(', '));
     setConfigTemplateId(entity.template_id);
+    setConfigChannelAccess(null);
+    apiFetch<DiscordChannel[]>(`/api/servers/${selectedServer}/channels?entity_id=${entity.id}`)
+      .then(setConfigChannelAccess)
+      .catch(err => console.error('Failed to fetch channel access:', err));
   };
 
   const saveConfig = async (entityId: string) => {
@@ -376,6 +395,53 @@ export default function MyServers() {
                 </div>
               )}
 
+              {/* Audit channel */}
+              <div>
+                <label className="text-xs text-text-muted block mb-1.5">
+                  Audit log channel
+                </label>
+                <p className="text-xs text-text-muted mb-2">
+                  Arachne posts a line here for every action an entity takes on this server.
+                </p>
+                <select
+                  value={serverSettings.audit_channel || ''}
+                  onChange={e => saveSettings({ audit_channel: e.target.value || null })}
+                  className="w-full bg-bg-deep border border-border rounded px-3 py-1.5 text-sm"
+                >
+                  <option value="">None (Loom only)</option>
+                  {serverChannels.map(ch => (
+                    <option key={ch.id} value={ch.id}>#{ch.name}</option>
+                  ))}
+                </select>
+              </div>
+
+              {/* Approval-gated tools */}
+              <div>
+                <label className="text-xs text-text-muted block mb-1.5">
+                  Require approval
+                </label>
+                <p className="text-xs text-text-muted mb-2">
+                  These tools won't run until you or the entity's owner approves the call (Discord DM or the Approvals page).
+                </p>
+                <div className="border border-border rounded p-2 bg-bg-card grid grid-cols-2 gap-x-2 gap-y-0.5">
+                  {APPROVABLE_TOOLS.map(tool => (
+                    <label key={tool} className="flex items-center gap-2 cursor-pointer py-0.5">
+                      <input
+                        type="checkbox"
+                        checked={serverSettings.approval_tools.includes(tool)}
+                        onChange={() => saveSettings({
+                          approval_tools: serverSettings.approval_tools.includes(tool)
+                            ? serverSettings.approval_tools.filter(t => t !== tool)
+                            : [...serverSettings.approval_tools, tool],
+                        })}
+                        className="rounded border-border"
+                      />
+                      <span className="text-xs text-text-primary">{tool}</span>
+                    </label>
+                  ))}
+                </div>
+              </div>
+
               {/* Default template */}
               {templates.length > 0 && (
                 <div>
@@ -398,6 +464,27 @@ export default function MyServers() {
                 </div>
               )}
 
+              {/* Rate limits */}
+              <div>
+                <label className="text-xs text-text-muted block mb-1.5">
+                  Rate limits
+                </label>
+                <p className="text-xs text-text-muted mb-2">
+                  Per entity on this server, on top of the operator's global limits.
+                </p>
+                <RateLimitEditor
+                  limits={serverSettings.rate_limits}
+                  onChange={rate_limits => setServerSettings(prev => prev ? { ...prev, rate_limits } : prev)}
+                  offLabel="No server limit"
+                />
+                <button
+                  onClick={() => saveSettings({ rate_limits: serverSettings.rate_limits })}
+                  className="mt-2 px-3 py-1.5 text-xs bg-accent hover:bg-accent-hover text-white rounded transition-colors"
+                >
+                  Save limits
+                </button>
+              </div>
+
               {/* Role Templates */}
               <div>
                 <div className="flex items-center justify-between mb-2">
@@ -699,6 +786,11 @@ export default function MyServers() {
                               <span className="text-warning">+{entity.dedicated_channels.length} dedicated</span>
                             )}
                             {entity.role_id && <span className="text-accent">@mentionable</span>}
+                            {entity.muted_until && (
+                              <span className="text-danger" title="Muted with /mute — /unmute ends it early">
+                                Muted until {new Date(entity.muted_until).toLocaleTimeString()}
+                              </span>
+                            )}
                           </div>
                         </div>
                       </div>
@@ -747,7 +839,7 @@ export default function MyServers() {
                           serverId={selectedServer!}
                           selected={configChannels}
                           onChange={setConfigChannels}
-                          channels={serverChannels}
+                          channels={configChannelAccess ?? serverChannels}
                           label="Channel whitelist"
                         />
 
@@ -857,6 +949,17 @@ export default function MyServers() {
               </div>
             )}
           </div>
+
+          {/* Audit log */}
+          {selectedServer && (
+            <div>
+              <h3 className="text-sm font-medium text-text-muted mb-1">Audit Log</h3>
+              <p className="text-xs text-text-muted/60 mb-3">
+                Every action entities took on this server — IDs only, never message content.
+              </p>
+              <AuditLog serverId={selectedServer} entities={entities} channels={serverChannels} />
+            </div>
+          )}
         </div>
       )}
     </div>
@@ -4,6 +4,7 @@ import { apiFetch } from '../lib/api';
 import { Navigate } from 'react-router-dom';
 import ApiKeyModal from '../components/ApiKeyModal';
 import BugReportThread from '../components/BugReportThread';
+import RateLimitEditor, { type RateLimits } from '../components/RateLimitEditor';
 
 interface BugReport {
   id: string;
@@ -56,6 +57,9 @@ export default function Operator() {
   const [servers, setServers] = useState<Server[]>([]);
   const [bannedServers, setBannedServers] = useState<BannedServer[]>([]);
   const [bugReports, setBugReports] = useState<BugReport[]>([]);
+  const [rateLimits, setRateLimits] = useState<RateLimits>({});
+  const [savingLimits, setSavingLimits] = useState(false);
+  const [limitsError, setLimitsError] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
   const [apiKey, setApiKey] = useState<string | null>(null);
 
@@ -93,11 +97,13 @@ export default function Operator() {
       apiFetch<Server[]>('/api/operator/servers'),
       apiFetch<BannedServer[]>('/api/operator/banned-servers'),
       apiFetch<BugReport[]>('/api/bug-reports/all'),
-    ]).then(([e, s, b, br]) => {
+      apiFetch<{ limits: RateLimits }>('/api/operator/rate-limits'),
+    ]).then(([e, s, b, br, rl]) => {
       setEntities(e);
       setServers(s);
       setBannedServers(b);
       setBugReports(br);
+      setRateLimits(rl.limits);
     }).finally(() => setLoading(false));
   }, [isOperator, refreshKey]);
 
@@ -201,6 +207,22 @@ export default function Operator() {
     refresh();
   };
 
+  const handleSaveRateLimits = async () => {
+    setSavingLimits(true);
+    setLimitsError(null);
+    try {
+      const data = await apiFetch<{ limits: RateLimits }>('/api/operator/rate-limits', {
+        method: 'PUT',
+        body: JSON.stringify({ limits: rateLimits }),
+      });
+      setRateLimits(data.limits);
+    } catch (err) {
+      setLimitsError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setSavingLimits(false);
+    }
+  };
+
   const handleAssignOwner = async (entityId: string) => {
     setSavingOwner(true);
     await apiFetch(`/api/operator/entities/${entityId}/owner`, {
@@ -447,6 +469,27 @@ export default function Operator() {
         </div>
       )}
 
+      {/* Rate limits */}
+      <div className="mt-8">
+        <h3 className="text-sm font-medium text-text-muted mb-1">Rate limits</h3>
+        <p className="text-xs text-text-muted/60 mb-2">
+          Per entity, across all servers. Server admins can set stricter limits for their own server.
+        </p>
+        <div className="max-w-xl space-y-2">
+          <RateLimitEditor limits={rateLimits} onChange={setRateLimits} offLabel="Unlimited" />
+          <div className="flex items-center gap-3">
+            <button
+              onClick={handleSaveRateLimits}
+              disabled={savingLimits}
+              className="px-4 py-2 bg-accent hover:bg-accent-hover text-white text-sm rounded transition-colors disabled:opacity-40"
+            >
+              {savingLimits ? 'Saving...' : 'Save limits'}
+            </button>
+            {limitsError && <span className="text-xs text-danger">{limitsError}</span>}
+          </div>
+        </div>
+      </div>
+
       {/* Bug reports */}
       <div className="mt-8">
         <h3 className="text-sm font-medium text-text-muted mb-3">
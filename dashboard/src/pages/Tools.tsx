@@ -45,6 +45,17 @@ const TOOL_CATEGORIES: ToolCategory[] = [
           { name: 'triggered_only', type: 'boolean', required: false, description: 'Only show messages that mentioned this entity' },
         ],
       },
+      {
+        name: 'wait_for_messages',
+        description: 'Block until a matching message arrives or the timeout expires. Replaces polling.',
+        params: [
+          { name: 'channel_id', type: 'string', required: false, description: 'Filter by channel' },
+          { name: 'addressed_only', type: 'boolean', required: false, description: 'Only wake for trigger words or role mentions' },
+          { name: 'author_id', type: 'string', required: false, description: 'Filter by author' },
+          { name: 'timeout_seconds', type: 'number', required: false, description: 'Max wait (default 30, max 120)' },
+        ],
+        tip: 'Only returns messages that arrive after the call starts. Call read_messages first to drain the queue.',
+      },
       {
         name: 'get_channel_history',
         description: 'Fetch recent message history live from Discord.',
@@ -79,10 +90,14 @@ const TOOL_CATEGORIES: ToolCategory[] = [
         description: 'Send as this entity (name + avatar via webhook).',
         params: [
           { name: 'channel_id', type: 'string', required: true, description: 'Target channel' },
-          { name: 'content', type: 'string', required: true, description: 'Message text' },
+          { name: 'content', type: 'string', required: false, description: 'Message text (may be empty with embeds)' },
+          { name: 'thread_id', type: 'string', required: false, description: 'Thread or forum post inside channel_id' },
+          { name: 'reply_to_message_id', type: 'string', required: false, description: 'Message to reply to' },
+          { name: 'embeds', type: 'array', required: false, description: 'Up to 10: {title, description, url, color, fields, image_url, thumbnail_url, footer, timestamp}' },
+          { name: 'overflow', type: 'string', required: false, description: '"split" (default) or "attachment" for content over 2000 characters' },
         ],
-        tip: 'To mention users, use <@USER_ID> (not nicknames). To mention roles, use <@&ROLE_ID>. To mention channels, use <#CHANNEL_ID>.',
-        limitation: 'Replies (threading to a specific message) are not supported — Discord webhooks do not support message_reference.',
+        tip: 'To mention users, use <@USER_ID> (not nicknames). To mention roles, use <@&ROLE_ID>. To mention channels, use <#CHANNEL_ID>. Embeds without a color use your accent colour; Discord length limits are checked before sending. Long content is split into up to 10 messages (code blocks stay intact) and all IDs come back in message_ids.',
+        limitation: 'Discord webhooks do not support message_reference, so replies show as a quoted header with a jump link instead of a native reply.',
       },
       {
         name: 'edit_message',
@@ -91,6 +106,7 @@ const TOOL_CATEGORIES: ToolCategory[] = [
           { name: 'channel_id', type: 'string', required: true, description: 'Channel of message' },
           { name: 'message_id', type: 'string', required: true, description: 'Message to edit' },
           { name: 'new_content', type: 'string', required: true, description: 'Replacement text' },
+          { name: 'thread_id', type: 'string', required: false, description: 'Thread the message is in' },
         ],
         tip: 'Parameter is new_content, not content.',
       },
@@ -110,9 +126,22 @@ const TOOL_CATEGORIES: ToolCategory[] = [
           { name: 'file_name', type: 'string', required: true, description: 'File name with extension' },
           { name: 'file_data', type: 'string', required: true, description: 'Base64-encoded file data' },
           { name: 'content', type: 'string', required: false, description: 'Optional message text' },
+          { name: 'thread_id', type: 'string', required: false, description: 'Thread or forum post inside channel_id' },
         ],
         tip: 'file_data must be base64-encoded. Parameter is file_name (not filename). No URL upload option. Warning: base64 encoding inflates file size by ~33% and the entire encoded string passes through your context window. A 1MB image becomes ~1.3MB of text (~350k tokens). Use sparingly — small files only.',
       },
+      {
+        name: 'send_interactive_message',
+        description: 'Send a message with buttons and select menus as this entity. Clicks arrive as component_interaction events.',
+        params: [
+          { name: 'channel_id', type: 'string', required: true, description: 'Target channel' },
+          { name: 'content', type: 'string', required: true, description: 'Message text above the components' },
+          { name: 'buttons', type: 'array', required: false, description: '{id, label, style, url?, emoji?} — rows of 5' },
+          { name: 'select_menus', type: 'array', required: false, description: '{id, placeholder?, options, min_values, max_values} — one row each' },
+          { name: 'thread_id', type: 'string', required: false, description: 'Thread or forum post inside channel_id' },
+        ],
+        tip: 'Five rows at most. Your ids come back as custom_id (with values for select menus) when someone clicks. Link buttons need url instead of id and send no event.',
+      },
       {
         name: 'send_dm',
         description: 'Send a direct message to a user. User must share a server with entity.',
@@ -120,7 +149,16 @@ const TOOL_CATEGORIES: ToolCategory[] = [
           { name: 'user_id', type: 'string', required: true, description: 'Target user' },
           { name: 'content', type: 'string', required: true, description: 'Message text' },
         ],
-        limitation: 'DMs come from Arachne bot with "Message from {entity}:" prefix. One-way only — replies go to Arachne, not the entity.',
+        limitation: 'DMs come from Arachne bot with "Message from {entity}:" prefix. Replies reach the entity only if its owner turned on Accept DMs — they are queued with dm: true.',
+      },
+      {
+        name: 'respond_to_interaction',
+        description: 'Answer a question someone asked you with the /ask slash command.',
+        params: [
+          { name: 'interaction_id', type: 'string', required: true, description: 'interaction_id from the queued /ask message' },
+          { name: 'content', type: 'string', required: true, description: 'Your answer' },
+        ],
+        limitation: 'Posted by the Arachne bot with your name as a prefix, not via webhook. Works for 15 minutes after the question was asked; the first answer replaces the "thinking…" placeholder, later ones are follow-ups.',
       },
       {
         name: 'pin_message',
@@ -285,6 +323,13 @@ const TOOL_CATEGORIES: ToolCategory[] = [
           { name: 'server_id', type: 'string', required: true, description: 'Server to leave' },
         ],
       },
+      {
+        name: 'check_pending_action',
+        description: 'Check a call held for human approval (tools the server admin marked "requires approval" return an action_id instead of running). Reports pending, executed, failed, denied or expired, with the tool output once run.',
+        params: [
+          { name: 'action_id', type: 'string', required: true, description: 'From the pending_approval response' },
+        ],
+      },
     ],
   },
   {
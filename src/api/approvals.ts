@@ -0,0 +1,70 @@
+import { Router } from 'express';
+import type { Request, Response } from 'express';
+import type { Client } from 'discord.js';
+import { requireAuth } from './middleware.js';
+import type { ApprovalManager, Approver } from '../approvals.js';
+import type { EntityRegistry } from '../entity-registry.js';
+import type { PendingAction } from '../types.js';
+
+const STATUSES = ['pending', 'approved', 'executed', 'failed', 'denied', 'expired'];
+
+export function createApprovalsRouter(registry: EntityRegistry, approvals: ApprovalManager, discordClient: Client): Router {
+  const router = Router();
+
+  router.use(requireAuth);
+
+  const serialize = (action: PendingAction) => ({
+    ...action,
+    args: JSON.parse(action.args),
+    server_name: discordClient.guilds.cache.get(action.server_id)?.name || action.server_id,
+  });
+
+  const approverFor = (req: Request): Approver => ({
+    id: req.user!.sub,
+    name: req.user!.username,
+    isOperator: req.user!.is_operator,
+    adminGuilds: req.user!.admin_guilds,
+  });
+
+  // GET /api/approvals — actions the user can decide: on servers they admin, or by entities they own (operator: all)
+  router.get('/', (req: Request, res: Response) => {
+    const status = typeof req.query.status === 'string' ? req.query.status : undefined;
+    if (status && !STATUSES.includes(status)) {
+      res.status(400).json({ error: `status must be one of: ${STATUSES.join(', ')}` });
+      return;
+    }
+    const actions = req.user!.is_operator
+      ? registry.listPendingActions({ status })
+      : registry.listPendingActions({
+        serverIds: req.user!.admin_guilds,
+        entityIds: registry.getEntitiesByOwner(req.user!.sub).map(e => e.id),
+        status,
+      });
+    res.json(actions.map(serialize));
+  });
+
+  // POST /api/approvals/:id/approve — run the held tool call
+  // POST /api/approvals/:id/deny — discard it
+  for (const decision of ['approve', 'deny'] as const) {
+    router.post(`/:id/${decision}`, async (req: Request, res: Response) => {
+      const action = registry.getPendingAction(req.params.id as string);
+      if (!action) {
+        res.status(404).json({ error: 'Action not found' });
+        return;
+      }
+      const approver = approverFor(req);
+      if (!(await approvals.canDecide(action, approver))) {
+        res.status(403).json({ error: 'Not your server or entity' });
+        return;
+      }
+      const outcome = await approvals.decide(action.id, decision === 'approve', approver);
+      if (typeof outcome === 'string') {
+        res.status(409).json({ error: outcome });
+        return;
+      }
+      res.json(serialize(outcome));
+    });
+  }
+
+  return router;
+}
@@ -8,7 +8,10 @@ import type { Client } from 'discord.js';
 import { requireAuth } from './middleware.js';
 import { createEntityRole, deleteEntityRole, renameEntityRole } from './discord-api.js';
 import { logger } from '../logger.js';
-import type { EntityRegistry } from '../entity-registry.js';
+import { BUILT_IN_PROMPTS, PROMPT_PLACEHOLDERS, unknownPlaceholders } from '../mcp-prompts.js';
+import { isExpired, type EntityRegistry } from '../entity-registry.js';
+import { RATE_LIMIT_CATEGORIES, rateLimiter } from '../rate-limiter.js';
+import type { EntityApiKey } from '../types.js';
 
 const DATA_DIR = process.env.DATA_DIR || '/data';
 const AVATAR_DIR = path.join(DATA_DIR, 'avatars');
@@ -17,6 +20,55 @@ const AVATAR_BASE_URL = process.env.AVATAR_BASE_URL || 'https://arachne-discord.
 // Ensure avatar directory exists
 fs.mkdirSync(AVATAR_DIR, { recursive: true });
 
+const MAX_API_KEYS_PER_ENTITY = 20;
+const MAX_KEY_LABEL_LENGTH = 64;
+
+const PROMPT_NAME_PATTERN = /^[a-z0-9_-]{1,48}$/;
+const MAX_PROMPTS_PER_ENTITY = 20;
+const MAX_PROMPT_LENGTH = 4000;
+
+// Loop-guard ceilings: past these the guard would be off in all but name
+const LOOP_GUARD_MAX = { max_reply_depth: 10, reply_cooldown_seconds: 3600, hop_budget: 200 };
+
+/** API key as shown in the Loom — never the hash or salt. */
+function serializeApiKey(key: EntityApiKey) {
+  return {
+    id: key.id,
+    label: key.label,
+    hint: key.key_prefix ? `ak_${key.key_prefix}_…` : 'legacy key',
+    tools: JSON.parse(key.tools || '[]'),
+    expires_at: key.expires_at,
+    expired: isExpired(key),
+    receives_messages: !!key.public_key, // false for legacy keys until they connect once
+    last_used_at: key.last_used_at,
+    created_at: key.created_at,
+  };
+}
+
+/**
+ * Validate owner prompt template fields. Returns an error message, or null if valid.
+ */
+function validatePromptFields(name: unknown, description: unknown, template: unknown): string | null {
+  if (name !== undefined) {
+    if (typeof name !== 'string' || !PROMPT_NAME_PATTERN.test(name)) {
+      return 'Prompt name must be 1-48 characters: lowercase letters, numbers, _ or -';
+    }
+    if (BUILT_IN_PROMPTS.includes(name)) return `"${name}" is a built-in prompt name`;
+  }
+  if (description !== undefined && description !== null && (typeof description !== 'string' || description.length > 200)) {
+    return 'Description must be at most 200 characters';
+  }
+  if (template !== undefined) {
+    if (typeof template !== 'string' || !template.trim()) return 'Prompt template is required';
+    if (template.length > MAX_PROMPT_LENGTH) return `Prompt template must be at most ${MAX_PROMPT_LENGTH} characters`;
+    const unknown = unknownPlaceholders(template);
+    if (unknown.length > 0) {
+      return `Unknown placeholder${unknown.length > 1 ? 's' : ''}: ${unknown.map(p => `{{${p}}}`).join(', ')}. Available: ${PROMPT_PLACEHOLDERS.map(p => `{{${p}}}`).join(', ')}`;
+    }
+  }
+  return null;
+}
+
 const upload = multer({
   storage: multer.diskStorage({
     destination: AVATAR_DIR,
@@ -94,6 +146,8 @@ export function createEntitiesRouter(registry: EntityRegistry, discordClient: Cl
       triggers: JSON.parse(e.triggers || '[]'),
       notify_on_mention: !!e.notify_on_mention,
       notify_on_trigger: !!e.notify_on_trigger,
+      dm_intake: !!e.dm_intake,
+      dm_allowlist: JSON.parse(e.dm_allowlist || '[]'),
       servers: registry.getEntityServers(e.id).map(s => {
         const guild = discordClient.guilds.cache.get(s.server_id);
         return {
@@ -104,6 +158,10 @@ export function createEntitiesRouter(registry: EntityRegistry, discordClient: Cl
           watch_channels: JSON.parse(s.watch_channels),
           blocked_channels: JSON.parse(s.blocked_channels),
           role_id: s.role_id,
+          hear_entities: !!s.hear_entities,
+          max_reply_depth: s.max_reply_depth,
+          reply_cooldown_seconds: s.reply_cooldown_seconds,
+          hop_budget: s.hop_budget,
         };
       }),
     }));
@@ -136,6 +194,8 @@ export function createEntitiesRouter(registry: EntityRegistry, discordClient: Cl
       triggers: JSON.parse(entity.triggers || '[]'),
       notify_on_mention: !!entity.notify_on_mention,
       notify_on_trigger: !!entity.notify_on_trigger,
+      dm_intake: !!entity.dm_intake,
+      dm_allowlist: JSON.parse(entity.dm_allowlist || '[]'),
       servers: servers.map(s => {
         const guild = discordClient.guilds.cache.get(s.server_id);
         return {
@@ -146,6 +206,10 @@ export function createEntitiesRouter(registry: EntityRegistry, discordClient: Cl
           watch_channels: JSON.parse(s.watch_channels),
           blocked_channels: JSON.parse(s.blocked_channels),
           role_id: s.role_id,
+          hear_entities: !!s.hear_entities,
+          max_reply_depth: s.max_reply_depth,
+          reply_cooldown_seconds: s.reply_cooldown_seconds,
+          hop_budget: s.hop_budget,
         };
       }),
     });
@@ -162,7 +226,11 @@ export function createEntitiesRouter(registry: EntityRegistry, discordClient: Cl
       res.status(403).json({ error: 'Not your entity' });
       return;
     }
-    const { name, avatar_url, description, accent_color, platform, triggers, notify_on_mention, notify_on_trigger } = req.body;
+    const { name, avatar_url, description, accent_color, platform, triggers, notify_on_mention, notify_on_trigger, dm_intake, dm_allowlist } = req.body;
+    if (dm_allowlist !== undefined && (!Array.isArray(dm_allowlist) || !dm_allowlist.every(id => typeof id === 'string' && /^\d{17,20}$/.test(id)))) {
+      res.status(400).json({ error: 'dm_allowlist must be an array of Discord user IDs' });
+      return;
+    }
     registry.updateEntityIdentity(entity.id, {
       name,
       avatarUrl: avatar_url,
@@ -172,6 +240,8 @@ export function createEntitiesRouter(registry: EntityRegistry, discordClient: Cl
       triggers: Array.isArray(triggers) ? triggers : undefined,
       notifyOnMention: notify_on_mention !== undefined ? !!notify_on_mention : undefined,
       notifyOnTrigger: notify_on_trigger !== undefined ? !!notify_on_trigger : undefined,
+      dmIntake: dm_intake !== undefined ? !!dm_intake : undefined,
+      dmAllowlist: dm_allowlist,
     });
     // Re-stamp owner_name from current user (backfills old entities + handles username changes)
     registry.setEntityOwner(entity.id, entity.owner_id, req.user!.username);
@@ -260,7 +330,7 @@ export function createEntitiesRouter(registry: EntityRegistry, discordClient: Cl
     res.json({ avatar_url: avatarUrl });
   });
 
-  // POST /api/entities/:id/regenerate-key — regenerate API key
+  // POST /api/entities/:id/regenerate-key — revoke all API keys and issue a single new one
   router.post('/:id/regenerate-key', async (req: Request, res: Response) => {
     const entity = registry.getEntity(req.params.id as string);
     if (!entity || !entity.active) {
@@ -275,7 +345,144 @@ export function createEntitiesRouter(registry: EntityRegistry, discordClient: Cl
     res.json({ api_key: newKey });
   });
 
-  // PATCH /api/entities/:id/servers/:sid — entity owner fine-tunes watch/blocked channels
+  // GET /api/entities/:id/keys — list the entity's active API keys
+  router.get('/:id/keys', (req: Request, res: Response) => {
+    const entity = registry.getEntity(req.params.id as string);
+    if (!entity || !entity.active) {
+      res.status(404).json({ error: 'Entity not found' });
+      return;
+    }
+    if (entity.owner_id !== req.user!.sub && !req.user!.is_operator) {
+      res.status(403).json({ error: 'Not your entity' });
+      return;
+    }
+    res.json(registry.getApiKeys(entity.id).map(serializeApiKey));
+  });
+
+  // POST /api/entities/:id/keys — create a named API key (raw key returned once)
+  router.post('/:id/keys', async (req: Request, res: Response) => {
+    const entity = registry.getEntity(req.params.id as string);
+    if (!entity || !entity.active) {
+      res.status(404).json({ error: 'Entity not found' });
+      return;
+    }
+    if (entity.owner_id !== req.user!.sub && !req.user!.is_operator) {
+      res.status(403).json({ error: 'Not your entity' });
+      return;
+    }
+    const { label, expires_at = null, tools = [] } = req.body;
+    if (typeof label !== 'string' || !label.trim() || label.trim().length > MAX_KEY_LABEL_LENGTH) {
+      res.status(400).json({ error: `Label is required (max ${MAX_KEY_LABEL_LENGTH} characters)` });
+      return;
+    }
+    if (expires_at !== null && (typeof expires_at !== 'string' || isNaN(Date.parse(expires_at)) || Date.parse(expires_at) <= Date.now())) {
+      res.status(400).json({ error: 'expires_at must be a future ISO date' });
+      return;
+    }
+    if (!Array.isArray(tools) || !tools.every((t: unknown) => typeof t === 'string')) {
+      res.status(400).json({ error: 'tools must be an array of tool names' });
+      return;
+    }
+    if (registry.getApiKeys(entity.id).length >= MAX_API_KEYS_PER_ENTITY) {
+      res.status(400).json({ error: `API key limit reached (${MAX_API_KEYS_PER_ENTITY} per entity)` });
+      return;
+    }
+    const { key, apiKey } = await registry.createApiKey(
+      entity.id,
+      label.trim(),
+      expires_at ? new Date(expires_at).toISOString() : null,
+      tools,
+    );
+    res.json({ ...serializeApiKey(key), api_key: apiKey });
+  });
+
+  // DELETE /api/entities/:id/keys/:kid — revoke one API key (other clients keep working)
+  router.delete('/:id/keys/:kid', (req: Request, res: Response) => {
+    const entity = registry.getEntity(req.params.id as string);
+    if (!entity || !entity.active) {
+      res.status(404).json({ error: 'Entity not found' });
+      return;
+    }
+    if (entity.owner_id !== req.user!.sub && !req.user!.is_operator) {
+      res.status(403).json({ error: 'Not your entity' });
+      return;
+    }
+    const key = registry.getApiKey(req.params.kid as string);
+    if (!key || key.entity_id !== entity.id || key.revoked) {
+      res.status(404).json({ error: 'API key not found' });
+      return;
+    }
+    registry.revokeApiKey(key.id);
+    res.json({ success: true });
+  });
+
+  // GET /api/entities/:id/connected-apps — OAuth clients holding live tokens for this entity
+  router.get('/:id/connected-apps', (req: Request, res: Response) => {
+    const entity = registry.getEntity(req.params.id as string);
+    if (!entity || !entity.active) {
+      res.status(404).json({ error: 'Entity not found' });
+      return;
+    }
+    if (entity.owner_id !== req.user!.sub && !req.user!.is_operator) {
+      res.status(403).json({ error: 'Not your entity' });
+      return;
+    }
+    res.json(registry.getConnectedApps(entity.id));
+  });
+
+  // DELETE /api/entities/:id/connected-apps/:cid — revoke all of a client's access and refresh tokens
+  router.delete('/:id/connected-apps/:cid', (req: Request, res: Response) => {
+    const entity = registry.getEntity(req.params.id as string);
+    if (!entity || !entity.active) {
+      res.status(404).json({ error: 'Entity not found' });
+      return;
+    }
+    if (entity.owner_id !== req.user!.sub && !req.user!.is_operator) {
+      res.status(403).json({ error: 'Not your entity' });
+      return;
+    }
+    const revoked = registry.revokeClientTokens(entity.id, req.params.cid as string);
+    if (revoked === 0) {
+      res.status(404).json({ error: 'No active tokens for this app' });
+      return;
+    }
+    logger.info(`OAuth client ${req.params.cid} disconnected from entity ${entity.id} by ${req.user!.sub}`);
+    res.json({ success: true, revoked });
+  });
+
+  // GET /api/entities/:id/usage — tokens left in each rate limit bucket (entity-wide and per server)
+  router.get('/:id/usage', (req: Request, res: Response) => {
+    const entity = registry.getEntity(req.params.id as string);
+    if (!entity || !entity.active) {
+      res.status(404).json({ error: 'Entity not found' });
+      return;
+    }
+    if (entity.owner_id !== req.user!.sub && !req.user!.is_operator) {
+      res.status(403).json({ error: 'Not your entity' });
+      return;
+    }
+    const entityLimits = registry.getOperatorRateLimits();
+    const servers = registry.getEntityServers(entity.id).map(s => ({
+      server_id: s.server_id,
+      server_name: discordClient.guilds.cache.get(s.server_id)?.name || s.server_id,
+      limits: registry.getServerRateLimits(s.server_id),
+    }));
+    res.json(Object.entries(RATE_LIMIT_CATEGORIES).map(([category, { description }]) => {
+      const entityLimit = entityLimits[category];
+      return {
+        category,
+        description,
+        entity: entityLimit ? rateLimiter.usage(rateLimiter.entityKey(entity.id, category), entityLimit) : null,
+        servers: servers.flatMap(s => {
+          const limit = s.limits[category];
+          if (!limit) return [];
+          return [{ server_id: s.server_id, server_name: s.server_name, ...rateLimiter.usage(rateLimiter.serverKey(s.server_id, entity.id, category), limit) }];
+        }),
+      };
+    }));
+  });
+
+  // PATCH /api/entities/:id/servers/:sid — entity owner fine-tunes watch/blocked channels and entity hearing
   router.patch('/:id/servers/:sid', (req: Request, res: Response) => {
     const entity = registry.getEntity(req.params.id as string);
     if (!entity || !entity.active) {
@@ -286,12 +493,29 @@ export function createEntitiesRouter(registry: EntityRegistry, discordClient: Cl
       res.status(403).json({ error: 'Not your entity' });
       return;
     }
-    const { watch_channels, blocked_channels } = req.body;
+    const { watch_channels, blocked_channels, hear_entities, max_reply_depth, reply_cooldown_seconds, hop_budget } = req.body;
+    for (const [field, value] of Object.entries({ max_reply_depth, reply_cooldown_seconds, hop_budget })) {
+      const max = LOOP_GUARD_MAX[field as keyof typeof LOOP_GUARD_MAX];
+      if (value !== undefined && (!Number.isInteger(value) || value < 0 || value > max)) {
+        res.status(400).json({ error: `${field} must be an integer from 0 to ${max}` });
+        return;
+      }
+    }
+    if (hear_entities !== undefined && typeof hear_entities !== 'boolean') {
+      res.status(400).json({ error: 'hear_entities must be a boolean' });
+      return;
+    }
     const updated = registry.updateEntityServerOwnerConfig(
       entity.id,
       req.params.sid as string,
       watch_channels,
       blocked_channels,
+      {
+        hearEntities: hear_entities,
+        maxReplyDepth: max_reply_depth,
+        replyCooldownSeconds: reply_cooldown_seconds,
+        hopBudget: hop_budget,
+      },
     );
     if (!updated) {
       res.status(404).json({ error: 'Entity not on this server' });
@@ -300,6 +524,102 @@ export function createEntitiesRouter(registry: EntityRegistry, discordClient: Cl
     res.json({ success: true });
   });
 
+  // GET /api/entities/:id/prompts — list the owner's MCP prompt templates
+  router.get('/:id/prompts', (req: Request, res: Response) => {
+    const entity = registry.getEntity(req.params.id as string);
+    if (!entity || !entity.active) {
+      res.status(404).json({ error: 'Entity not found' });
+      return;
+    }
+    if (entity.owner_id !== req.user!.sub && !req.user!.is_operator) {
+      res.status(403).json({ error: 'Not your entity' });
+      return;
+    }
+    res.json(registry.getEntityPrompts(entity.id));
+  });
+
+  // POST /api/entities/:id/prompts — create a prompt template
+  router.post('/:id/prompts', (req: Request, res: Response) => {
+    const entity = registry.getEntity(req.params.id as string);
+    if (!entity || !entity.active) {
+      res.status(404).json({ error: 'Entity not found' });
+      return;
+    }
+    if (entity.owner_id !== req.user!.sub && !req.user!.is_operator) {
+      res.status(403).json({ error: 'Not your entity' });
+      return;
+    }
+    const { name, description = null, template } = req.body;
+    const error = validatePromptFields(name ?? '', description, template ?? '');
+    if (error) {
+      res.status(400).json({ error });
+      return;
+    }
+    const existing = registry.getEntityPrompts(entity.id);
+    if (existing.length >= MAX_PROMPTS_PER_ENTITY) {
+      res.status(400).json({ error: `Prompt limit reached (${MAX_PROMPTS_PER_ENTITY} per entity)` });
+      return;
+    }
+    if (existing.some(p => p.name === name)) {
+      res.status(409).json({ error: `A prompt named "${name}" already exists` });
+      return;
+    }
+    res.json(registry.createEntityPrompt(entity.id, name, description?.trim() || null, template));
+  });
+
+  // PATCH /api/entities/:id/prompts/:pid — update a prompt template
+  router.patch('/:id/prompts/:pid', (req: Request, res: Response) => {
+    const entity = registry.getEntity(req.params.id as string);
+    if (!entity || !entity.active) {
+      res.status(404).json({ error: 'Entity not found' });
+      return;
+    }
+    if (entity.owner_id !== req.user!.sub && !req.user!.is_operator) {
+      res.status(403).json({ error: 'Not your entity' });
+      return;
+    }
+    const prompt = registry.getEntityPrompt(req.params.pid as string);
+    if (!prompt || prompt.entity_id !== entity.id) {
+      res.status(404).json({ error: 'Prompt not found' });
+      return;
+    }
+    const { name, description, template } = req.body;
+    const error = validatePromptFields(name, description, template);
+    if (error) {
+      res.status(400).json({ error });
+      return;
+    }
+    if (name !== undefined && name !== prompt.name && registry.getEntityPrompts(entity.id).some(p => p.name === name)) {
+      res.status(409).json({ error: `A prompt named "${name}" already exists` });
+      return;
+    }
+    res.json(registry.updateEntityPrompt(prompt.id, {
+      name,
+      description: description === undefined ? undefined : description?.trim() || null,
+      template,
+    }));
+  });
+
+  // DELETE /api/entities/:id/prompts/:pid — delete a prompt template
+  router.delete('/:id/prompts/:pid', (req: Request, res: Response) => {
+    const entity = registry.getEntity(req.params.id as string);
+    if (!entity || !entity.active) {
+      res.status(404).json({ error: 'Entity not found' });
+      return;
+    }
+    if (entity.owner_id !== req.user!.sub && !req.user!.is_operator) {
+      res.status(403).json({ error: 'Not your entity' });
+      return;
+    }
+    const prompt = registry.getEntityPrompt(req.params.pid as string);
+    if (!prompt || prompt.entity_id !== entity.id) {
+      res.status(404).json({ error: 'Prompt not found' });
+      return;
+    }
+    registry.deleteEntityPrompt(prompt.id);
+    res.json({ success: true });
+  });
+
   // POST /api/entities/:id/request-server — request access to a server
   router.post('/:id/request-server', (req: Request, res: Response) => {
     const entity = registry.getEntity(req.params.id as string);
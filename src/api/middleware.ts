@@ -1,9 +1,7 @@
-import jwt from 'jsonwebtoken';
 import type { Request, Response, NextFunction } from 'express';
+import { signLoomToken, verifyLoomToken } from '../jwt-keys.js';
 import type { JWTPayload } from '../types.js';
 
-const JWT_SECRET = process.env.JWT_SECRET || 'dev-secret-change-me';
-
 // Extend Express Request to include user
 declare global {
   namespace Express {
@@ -24,7 +22,7 @@ export function requireAuth(req: Request, res: Response, next: NextFunction): vo
   }
   const token = authHeader.slice(7);
   try {
-    const payload = jwt.verify(token, JWT_SECRET) as JWTPayload;
+    const payload = verifyLoomToken(token);
     req.user = payload;
     next();
   } catch {
@@ -66,8 +64,8 @@ export function requireServerAdmin(req: Request, res: Response, next: NextFuncti
 }
 
 /**
- * Sign a JWT payload.
+ * Sign a Loom session JWT (24h).
  */
 export function signJWT(payload: Omit<JWTPayload, 'iat' | 'exp'>): string {
-  return jwt.sign(payload, JWT_SECRET, { expiresIn: '24h' });
+  return signLoomToken(payload);
 }
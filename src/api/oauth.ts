@@ -2,19 +2,44 @@ import { Router } from 'express';
 import express from 'express';
 import type { Request, Response } from 'express';
 import crypto from 'node:crypto';
-import jwt from 'jsonwebtoken';
 import { v4 as uuidv4 } from 'uuid';
 import type { Client } from 'discord.js';
+import { generateQueuePrivateKey, queuePublicKey } from '../crypto.js';
 import { exchangeOAuthCode, getDiscordUser } from './discord-api.js';
 import { logger } from '../logger.js';
+import { ACCESS_TOKEN_TTL_SECONDS, accessTokenJwks, signAccessToken, verifyAccessToken } from '../jwt-keys.js';
+import { FULL_ACCESS_SCOPE, GRANULAR_SCOPES, OAUTH_SCOPES, parseScopes } from '../oauth-scopes.js';
 import type { EntityRegistry } from '../entity-registry.js';
-import type { OAuthJWTPayload } from '../types.js';
+import type { OAuthJWTPayload, OAuthRefreshToken } from '../types.js';
 
-const JWT_SECRET = process.env.JWT_SECRET || 'dev-secret-change-me';
 const BASE_URL = process.env.BASE_URL || 'https://arachne-discord.fly.dev';
 const DISCORD_CLIENT_ID = process.env.DISCORD_CLIENT_ID || '';
 const DISCORD_CLIENT_SECRET = process.env.DISCORD_CLIENT_SECRET || '';
 
+/**
+ * Refresh tokens handed to clients are `<token>.<queue key>`: the stored token plus the grant's queue
+ * private key, which the server never keeps. Tokens from before queue keys have no second part.
+ */
+function splitRefreshToken(raw: string): { token: string; queueKey: string | null } {
+  const dot = raw.indexOf('.');
+  return dot === -1 ? { token: raw, queueKey: null } : { token: raw.slice(0, dot), queueKey: raw.slice(dot + 1) };
+}
+
+/**
+ * The queue keypair for a grant. A refresh keeps the grant's key when the client presents the private half
+ * matching the stored public key; new grants, and grants from before queue keys, get a fresh one.
+ */
+function queueGrantFor(previous?: OAuthRefreshToken, presentedKey?: string | null): { id: string; queueKey: string; publicKey: string } {
+  if (previous?.grant_id && previous.public_key && presentedKey) {
+    const privateKey = Buffer.from(presentedKey, 'base64url');
+    if (privateKey.length === 32 && queuePublicKey(privateKey).toString('base64') === previous.public_key) {
+      return { id: previous.grant_id, queueKey: presentedKey, publicKey: previous.public_key };
+    }
+  }
+  const privateKey = generateQueuePrivateKey();
+  return { id: uuidv4(), queueKey: privateKey.toString('base64url'), publicKey: queuePublicKey(privateKey).toString('base64') };
+}
+
 export function createOAuthRouter(registry: EntityRegistry, _discordClient: Client): Router {
   const router = Router();
 
@@ -24,7 +49,7 @@ export function createOAuthRouter(registry: EntityRegistry, _discordClient: Clie
     res.json({
       resource: BASE_URL,
       authorization_servers: [BASE_URL],
-      scopes_supported: ['mcp'],
+      scopes_supported: [...GRANULAR_SCOPES, FULL_ACCESS_SCOPE],
       bearer_methods_supported: ['header'],
     });
   });
@@ -38,11 +63,22 @@ export function createOAuthRouter(registry: EntityRegistry, _discordClient: Clie
       grant_types_supported: ['authorization_code', 'refresh_token'],
       code_challenge_methods_supported: ['S256'],
       token_endpoint_auth_methods_supported: ['none'],
-      scopes_supported: ['mcp'],
+      scopes_supported: [...GRANULAR_SCOPES, FULL_ACCESS_SCOPE],
       registration_endpoint: `${BASE_URL}/oauth/register`,
+      jwks_uri: `${BASE_URL}/.well-known/jwks.json`,
+      revocation_endpoint: `${BASE_URL}/oauth/revoke`,
+      revocation_endpoint_auth_methods_supported: ['none'],
+      introspection_endpoint: `${BASE_URL}/oauth/introspect`,
+      introspection_endpoint_auth_methods_supported: ['none'],
     });
   });
 
+  // Public keys for access tokens (ES256) — includes recently rotated keys until their tokens expire
+  router.get('/.well-known/jwks.json', (_req: Request, res: Response) => {
+    res.setHeader('Cache-Control', 'public, max-age=300');
+    res.json(accessTokenJwks(registry));
+  });
+
   // --- Dynamic Client Registration (RFC 7591) ---
 
   router.post('/oauth/register', (req: Request, res: Response) => {
@@ -125,6 +161,16 @@ export function createOAuthRouter(registry: EntityRegistry, _discordClient: Clie
       return;
     }
 
+    // Granular scopes requested (`mcp` or no scope asks for all of them)
+    const requestedScopes = parseScopes(scope as string | undefined);
+    if (requestedScopes.length === 0) {
+      res.status(400).json({
+        error: 'invalid_scope',
+        error_description: `Supported scopes: ${[...GRANULAR_SCOPES, FULL_ACCESS_SCOPE].join(', ')}`,
+      });
+      return;
+    }
+
     // Extract entity hint from resource parameter (RFC 8707)
     let entityHint: string | null = null;
     const resource = _req.query.resource as string | undefined;
@@ -137,7 +183,7 @@ export function createOAuthRouter(registry: EntityRegistry, _discordClient: Clie
     const oauthParams = {
       client_id: client_id as string,
       redirect_uri: redirect_uri as string,
-      scope: (scope as string) || 'mcp',
+      scope: requestedScopes.join(' '),
       state: (state as string) || '',
       code_challenge: code_challenge as string,
       entity_hint: entityHint,
@@ -210,7 +256,15 @@ export function createOAuthRouter(registry: EntityRegistry, _discordClient: Clie
   // --- Consent Form Submission ---
 
   router.post('/oauth/consent', express.urlencoded({ extended: true }), (req: Request, res: Response) => {
-    const { entity_id, discord_user_id, client_id, redirect_uri, scope, state, code_challenge } = req.body;
+    const { entity_id, discord_user_id, client_id, redirect_uri, state, code_challenge } = req.body;
+
+    // The consent page submits one `scope` checkbox per granted scope; the user may untick any of them
+    const ticked: string[] = Array.isArray(req.body.scope) ? req.body.scope : req.body.scope ? [req.body.scope] : [];
+    const scope = GRANULAR_SCOPES.filter(s => ticked.includes(s)).join(' ');
+    if (!scope) {
+      res.status(400).send(renderErrorPage('No Permissions Selected', 'Select at least one permission to authorize the app.'));
+      return;
+    }
 
     if (!entity_id || !discord_user_id || !client_id || !redirect_uri || !code_challenge) {
       res.status(400).send('Missing required fields.');
@@ -225,7 +279,7 @@ export function createOAuthRouter(registry: EntityRegistry, _discordClient: Clie
     }
 
     // Create authorization code
-    const authCode = registry.createAuthCode(entity_id, discord_user_id, client_id, code_challenge, redirect_uri, scope || 'mcp');
+    const authCode = registry.createAuthCode(entity_id, discord_user_id, client_id, code_challenge, redirect_uri, scope);
 
     // Redirect back to client
     const redirectUrl = new URL(redirect_uri);
@@ -277,7 +331,8 @@ export function createOAuthRouter(registry: EntityRegistry, _discordClient: Clie
 
       // Issue tokens
       const jti = uuidv4();
-      const expiresIn = 3600; // 1 hour
+      const grant = queueGrantFor();
+      const expiresIn = ACCESS_TOKEN_TTL_SECONDS;
       const expiresAt = new Date(Date.now() + expiresIn * 1000).toISOString();
 
       const payload: OAuthJWTPayload = {
@@ -290,11 +345,16 @@ export function createOAuthRouter(registry: EntityRegistry, _discordClient: Clie
         scope: authCode.scope,
         entity_id: authCode.entity_id,
         client_id: authCode.client_id,
+        grant_id: grant.id,
+        queue_key: grant.queueKey,
       };
 
-      const accessToken = jwt.sign(payload, JWT_SECRET);
+      const accessToken = signAccessToken(registry, payload);
       registry.createAccessToken(jti, authCode.entity_id, authCode.discord_user_id, authCode.client_id, authCode.scope, expiresAt);
-      const refreshTokenRecord = registry.createRefreshToken(authCode.entity_id, authCode.discord_user_id, authCode.client_id, jti);
+      const refreshTokenRecord = registry.createRefreshToken(
+        authCode.entity_id, authCode.discord_user_id, authCode.client_id, jti, authCode.scope,
+        { id: grant.id, publicKey: grant.publicKey },
+      );
 
       logger.info(`OAuth token issued: entity=${authCode.entity_id} user=${authCode.discord_user_id} client=${authCode.client_id}`);
 
@@ -302,7 +362,7 @@ export function createOAuthRouter(registry: EntityRegistry, _discordClient: Clie
         access_token: accessToken,
         token_type: 'Bearer',
         expires_in: expiresIn,
-        refresh_token: refreshTokenRecord.token,
+        refresh_token: `${refreshTokenRecord.token}.${grant.queueKey}`,
         scope: authCode.scope,
       });
       return;
@@ -310,12 +370,13 @@ export function createOAuthRouter(registry: EntityRegistry, _discordClient: Clie
 
     // --- Refresh Token Grant ---
     if (grant_type === 'refresh_token') {
-      if (!refresh_token || !client_id) {
+      if (!refresh_token || typeof refresh_token !== 'string' || !client_id) {
         res.status(400).json({ error: 'invalid_request', error_description: 'Missing refresh_token or client_id' });
         return;
       }
 
-      const refreshTokenRecord = registry.consumeRefreshToken(refresh_token);
+      const presented = splitRefreshToken(refresh_token);
+      const refreshTokenRecord = registry.consumeRefreshToken(presented.token);
       if (!refreshTokenRecord) {
         res.status(400).json({ error: 'invalid_grant', error_description: 'Invalid or expired refresh token' });
         return;
@@ -329,9 +390,10 @@ export function createOAuthRouter(registry: EntityRegistry, _discordClient: Clie
       // Revoke old access token
       registry.revokeAccessToken(refreshTokenRecord.access_token_jti);
 
-      // Issue new pair
+      // Issue new pair (same grant, same queue key)
       const jti = uuidv4();
-      const expiresIn = 3600;
+      const grant = queueGrantFor(refreshTokenRecord, presented.queueKey);
+      const expiresIn = ACCESS_TOKEN_TTL_SECONDS;
       const expiresAt = new Date(Date.now() + expiresIn * 1000).toISOString();
 
       const payload: OAuthJWTPayload = {
@@ -341,14 +403,19 @@ export function createOAuthRouter(registry: EntityRegistry, _discordClient: Clie
         exp: Math.floor(Date.now() / 1000) + expiresIn,
         iat: Math.floor(Date.now() / 1000),
         jti,
-        scope: 'mcp',
+        scope: refreshTokenRecord.scope,
         entity_id: refreshTokenRecord.entity_id,
         client_id: refreshTokenRecord.client_id,
+        grant_id: grant.id,
+        queue_key: grant.queueKey,
       };
 
-      const accessToken = jwt.sign(payload, JWT_SECRET);
-      registry.createAccessToken(jti, refreshTokenRecord.entity_id, refreshTokenRecord.discord_user_id, refreshTokenRecord.client_id, 'mcp', expiresAt);
-      const newRefreshToken = registry.createRefreshToken(refreshTokenRecord.entity_id, refreshTokenRecord.discord_user_id, refreshTokenRecord.client_id, jti);
+      const accessToken = signAccessToken(registry, payload);
+      registry.createAccessToken(jti, refreshTokenRecord.entity_id, refreshTokenRecord.discord_user_id, refreshTokenRecord.client_id, refreshTokenRecord.scope, expiresAt);
+      const newRefreshToken = registry.createRefreshToken(
+        refreshTokenRecord.entity_id, refreshTokenRecord.discord_user_id, refreshTokenRecord.client_id, jti, refreshTokenRecord.scope,
+        { id: grant.id, publicKey: grant.publicKey },
+      );
 
       logger.info(`OAuth token refreshed: entity=${refreshTokenRecord.entity_id} user=${refreshTokenRecord.discord_user_id}`);
 
@@ -356,8 +423,8 @@ export function createOAuthRouter(registry: EntityRegistry, _discordClient: Clie
         access_token: accessToken,
         token_type: 'Bearer',
         expires_in: expiresIn,
-        refresh_token: newRefreshToken.token,
-        scope: 'mcp',
+        refresh_token: `${newRefreshToken.token}.${grant.queueKey}`,
+        scope: refreshTokenRecord.scope,
       });
       return;
     }
@@ -365,6 +432,119 @@ export function createOAuthRouter(registry: EntityRegistry, _discordClient: Clie
     res.status(400).json({ error: 'unsupported_grant_type', error_description: 'Supported: authorization_code, refresh_token' });
   });
 
+  /**
+   * Decode an access token we issued, ignoring expiry (revocation and introspection must accept expired tokens).
+   */
+  function decodeAccessToken(token: string): OAuthJWTPayload | null {
+    try {
+      return verifyAccessToken(registry, token, { ignoreExpiration: true });
+    } catch {
+      return null;
+    }
+  }
+
+  // --- Token Revocation (RFC 7009) ---
+
+  router.post('/oauth/revoke', express.urlencoded({ extended: true }), express.json(), (req: Request, res: Response) => {
+    const { token, token_type_hint, client_id } = req.body;
+
+    if (!token || typeof token !== 'string') {
+      res.status(400).json({ error: 'invalid_request', error_description: 'Missing token' });
+      return;
+    }
+
+    // Public clients identify themselves with client_id; a token issued to another client is left alone.
+    // Unknown or already-revoked tokens still get 200, per RFC 7009.
+    const tryRefresh = () => {
+      const row = registry.getRefreshToken(splitRefreshToken(token).token);
+      if (!row) return false;
+      if (!client_id || client_id === row.client_id) {
+        registry.revokeRefreshTokenGrant(row.token);
+        logger.info(`OAuth refresh token revoked: entity=${row.entity_id} client=${row.client_id}`);
+      }
+      return true;
+    };
+    const tryAccess = () => {
+      const payload = decodeAccessToken(token);
+      if (!payload) return false;
+      if (!client_id || client_id === payload.client_id) {
+        registry.revokeAccessTokenGrant(payload.jti);
+        logger.info(`OAuth access token revoked: entity=${payload.entity_id} client=${payload.client_id}`);
+      }
+      return true;
+    };
+
+    if (token_type_hint === 'access_token') {
+      if (!tryAccess()) tryRefresh();
+    } else {
+      if (!tryRefresh()) tryAccess();
+    }
+
+    res.status(200).end();
+  });
+
+  // --- Token Introspection (RFC 7662) ---
+
+  router.post('/oauth/introspect', express.urlencoded({ extended: true }), express.json(), (req: Request, res: Response) => {
+    const { token, token_type_hint, client_id } = req.body;
+
+    if (!token || typeof token !== 'string') {
+      res.status(400).json({ error: 'invalid_request', error_description: 'Missing token' });
+      return;
+    }
+    if (!client_id) {
+      res.status(401).json({ error: 'invalid_client', error_description: 'client_id is required' });
+      return;
+    }
+
+    const nowSeconds = Math.floor(Date.now() / 1000);
+
+    const introspectAccess = () => {
+      const payload = decodeAccessToken(token);
+      if (!payload) return null;
+      const active = payload.client_id === client_id
+        && payload.exp > nowSeconds
+        && !registry.isAccessTokenRevoked(payload.jti);
+      if (!active) return { active: false };
+      return {
+        active: true,
+        token_type: 'Bearer',
+        scope: payload.scope,
+        client_id: payload.client_id,
+        sub: payload.sub,
+        aud: payload.aud,
+        iss: payload.iss,
+        exp: payload.exp,
+        iat: payload.iat,
+        jti: payload.jti,
+        entity_id: payload.entity_id,
+      };
+    };
+    const introspectRefresh = () => {
+      const row = registry.getRefreshToken(splitRefreshToken(token).token);
+      if (!row) return null;
+      const exp = Math.floor(new Date(row.expires_at).getTime() / 1000);
+      const active = row.client_id === client_id && !row.revoked && exp > nowSeconds;
+      if (!active) return { active: false };
+      return {
+        active: true,
+        token_type: 'refresh_token',
+        client_id: row.client_id,
+        sub: row.discord_user_id,
+        aud: `${BASE_URL}/mcp/${row.entity_id}`,
+        iss: BASE_URL,
+        exp,
+        entity_id: row.entity_id,
+      };
+    };
+
+    const result = token_type_hint === 'refresh_token'
+      ? introspectRefresh() ?? introspectAccess()
+      : introspectAccess() ?? introspectRefresh();
+
+    res.json(result ?? { active: false });
+  });
+
   return router;
 }
 
@@ -378,6 +558,12 @@ function renderConsentPage(
   const platformLabels: Record<string, string> = { claude: 'Claude', gpt: 'GPT', gemini: 'Gemini', other: 'Other' };
   const platformColors: Record<string, string> = { claude: '#D97757', gpt: '#10A37F', gemini: '#4285F4', other: '#6B7280' };
 
+  const scopeOptions = oauthParams.scope.split(' ').filter(s => OAUTH_SCOPES[s]).map(s => `
+    <label class="scope-option">
+      <input type="checkbox" name="scope" value="${s}" checked />
+      <span><span class="scope-name">${s}</span><span class="scope-desc">${escapeHtml(OAUTH_SCOPES[s].description)}</span></span>
+    </label>`).join('');
+
   const entityCards = entities.map((e, i) => `
     <label class="entity-option">
       <input type="radio" name="entity_id" value="${e.id}" ${i === 0 ? 'checked' : ''} required />
@@ -417,6 +603,10 @@ h1{font-size:20px;margin-bottom:4px;color:#fff}
 .entity-info{min-width:0}
 .entity-name{font-weight:600;font-size:14px;color:#fff}
 .platform-badge{display:inline-block;font-size:10px;padding:2px 6px;border-radius:4px;color:#fff;font-weight:600;margin-top:2px}
+.scope-option{display:flex;gap:10px;align-items:flex-start;padding:8px 4px;cursor:pointer;font-size:13px}
+.scope-option input{margin-top:3px;accent-color:#5865F2}
+.scope-name{display:block;font-family:ui-monospace,monospace;font-size:11px;color:#888}
+.scope-desc{display:block;color:#ddd}
 .actions{display:flex;gap:10px;margin-top:20px}
 button{flex:1;padding:10px;border:none;border-radius:8px;font-size:13px;font-weight:600;cursor:pointer}
 .btn-auth{background:#5865F2;color:#fff}
@@ -435,11 +625,12 @@ button{flex:1;padding:10px;border:none;border-radius:8px;font-size:13px;font-wei
     <input type="hidden" name="discord_user_id" value="${user.id}">
     <input type="hidden" name="client_id" value="${escapeHtml(oauthParams.client_id)}">
     <input type="hidden" name="redirect_uri" value="${escapeHtml(oauthParams.redirect_uri)}">
-    <input type="hidden" name="scope" value="${escapeHtml(oauthParams.scope)}">
     <input type="hidden" name="state" value="${escapeHtml(oauthParams.state)}">
     <input type="hidden" name="code_challenge" value="${escapeHtml(oauthParams.code_challenge)}">
     <div class="section-label">Select entity</div>
     ${entityCards}
+    <div class="section-label" style="margin-top:16px">This app will be able to</div>
+    ${scopeOptions}
     <div class="actions">
       <button type="button" class="btn-cancel" onclick="window.location.href='${escapeHtml(oauthParams.redirect_uri)}?error=access_denied${oauthParams.state ? '&state=' + encodeURIComponent(oauthParams.state) : ''}'">Cancel</button>
       <button type="submit" class="btn-auth">Authorize</button>
@@ -5,6 +5,7 @@ import { requireAuth, requireOperator } from './middleware.js';
 import { createEntityRole, deleteEntityRole, sendAnnouncement } from './discord-api.js';
 import type { EntityRegistry } from '../entity-registry.js';
 import { logger } from '../logger.js';
+import { DEFAULT_RATE_LIMITS, parseRateLimits } from '../rate-limiter.js';
 
 export function createOperatorRouter(registry: EntityRegistry, discordClient: Client): Router {
   const router = Router();
@@ -182,6 +183,24 @@ export function createOperatorRouter(registry: EntityRegistry, discordClient: Cl
     res.json({ success: true });
   });
 
+  // GET /api/operator/rate-limits — entity-wide MCP tool rate limits per category
+  router.get('/rate-limits', (_req: Request, res: Response) => {
+    res.json({
+      limits: registry.getOperatorRateLimits(),
+      defaults: DEFAULT_RATE_LIMITS,
+    });
+  });
+
+  // PUT /api/operator/rate-limits — override categories (null = unlimited)
+  router.put('/rate-limits', (req: Request, res: Response) => {
+    const parsed = parseRateLimits(req.body.limits, true);
+    if (typeof parsed === 'string') {
+      res.status(400).json({ error: parsed });
+      return;
+    }
+    res.json({ limits: registry.setOperatorRateLimits(parsed) });
+  });
+
   // GET /api/operator/banned-servers — list all banned servers
   router.get('/banned-servers', (_req: Request, res: Response) => {
     res.json(registry.listBannedServers());
@@ -5,6 +5,18 @@ import { requireAuth, requireServerAdmin } from './middleware.js';
 import { createEntityRole, deleteEntityRole, sendAnnouncement } from './discord-api.js';
 import type { EntityRegistry } from '../entity-registry.js';
 import { logger } from '../logger.js';
+import { parseRateLimits, type RateLimits } from '../rate-limiter.js';
+import { APPROVABLE_TOOLS } from '../approvals.js';
+import { channelLineage, channelRules, discordChannelLookup, evaluateChannel, type ChannelRules } from '../channel-permissions.js';
+import type { ServerSettings } from '../types.js';
+
+function serializeSettings(settings: ServerSettings) {
+  return {
+    ...settings,
+    rate_limits: JSON.parse(settings.rate_limits || '{}'),
+    approval_tools: JSON.parse(settings.approval_tools || '[]'),
+  };
+}
 
 export function createServersRouter(registry: EntityRegistry, discordClient: Client): Router {
   const router = Router();
@@ -26,6 +38,7 @@ export function createServersRouter(registry: EntityRegistry, discordClient: Cli
   });
 
   // GET /api/servers/:id/channels — list all text channels, grouped by category
+  // ?entity_id= adds entity_access per channel: what that entity can effectively use (see channel-permissions)
   router.get('/:id/channels', requireServerAdmin, (req: Request, res: Response) => {
     const guild = discordClient.guilds.cache.get(req.params.id as string);
     if (!guild) {
@@ -33,6 +46,17 @@ export function createServersRouter(registry: EntityRegistry, discordClient: Cli
       return;
     }
 
+    let rules: ChannelRules | null = null;
+    if (typeof req.query.entity_id === 'string') {
+      const es = registry.getEntityServers(req.query.entity_id).find(s => s.server_id === guild.id);
+      if (!es) {
+        res.status(404).json({ error: 'Entity is not on this server' });
+        return;
+      }
+      rules = channelRules(es);
+    }
+    const lookup = discordChannelLookup(discordClient);
+
     const textTypes = new Set([
       ChannelType.GuildText,
       ChannelType.GuildAnnouncement,
@@ -50,6 +74,7 @@ export function createServersRouter(registry: EntityRegistry, discordClient: Cli
         category_name: ch.parent?.name || null,
         position: 'position' in ch ? (ch.position as number) : 0,
         readable: botMember ? ch.permissionsFor(botMember).has('ViewChannel') : true,
+        ...(rules ? { entity_access: evaluateChannel(rules, channelLineage(ch.id, lookup), guild.id) } : {}),
       }))
       .sort((a, b) => {
         // Sort by category name (null last), then position
@@ -66,19 +91,82 @@ export function createServersRouter(registry: EntityRegistry, discordClient: Cli
 
   // GET /api/servers/:id/settings — server-level settings
   router.get('/:id/settings', requireServerAdmin, (req: Request, res: Response) => {
-    const settings = registry.getServerSettings(req.params.id as string);
-    res.json(settings);
+    res.json(serializeSettings(registry.getServerSettings(req.params.id as string)));
   });
 
   // PATCH /api/servers/:id/settings — update server-level settings
   router.patch('/:id/settings', requireServerAdmin, (req: Request, res: Response) => {
-    const { announce_channel, announce_message, default_template } = req.body;
+    const { announce_channel, announce_message, default_template, audit_channel } = req.body;
+    let rate_limits: RateLimits | undefined;
+    if (req.body.rate_limits !== undefined) {
+      // Replaces the server's limits; categories left out (or null) are not limited on this server
+      const parsed = parseRateLimits(req.body.rate_limits, false);
+      if (typeof parsed === 'string') {
+        res.status(400).json({ error: parsed });
+        return;
+      }
+      rate_limits = parsed;
+    }
+    if (audit_channel !== undefined && audit_channel !== null) {
+      // The audit stream may only be mirrored to a channel on this server that the bot can post in
+      const guild = discordClient.guilds.cache.get(req.params.id as string);
+      const channel = typeof audit_channel === 'string' ? guild?.channels.cache.get(audit_channel) : undefined;
+      const botMember = guild?.members.me;
+      if (typeof audit_channel !== 'string' || !channel || !channel.isTextBased() || !botMember
+        || !channel.permissionsFor(botMember).has(['ViewChannel', 'SendMessages'])) {
+        res.status(400).json({ error: 'audit_channel must be null or a text channel on this server that Arachne can post in' });
+        return;
+      }
+    }
+    let approval_tools: string[] | undefined;
+    if (req.body.approval_tools !== undefined) {
+      const tools = req.body.approval_tools;
+      if (!Array.isArray(tools) || tools.some(t => typeof t !== 'string' || !APPROVABLE_TOOLS.includes(t))) {
+        res.status(400).json({ error: `approval_tools must be a list of: ${APPROVABLE_TOOLS.join(', ')}` });
+        return;
+      }
+      approval_tools = [...new Set(tools as string[])];
+    }
     const updated = registry.updateServerSettings(req.params.id as string, {
       announce_channel,
       announce_message,
       default_template,
+      rate_limits,
+      audit_channel,
+      approval_tools,
+    });
+    res.json(serializeSettings(updated));
+  });
+
+  // GET /api/servers/:id/audit — mutating tool calls by entities on this server, newest first
+  router.get('/:id/audit', requireServerAdmin, (req: Request, res: Response) => {
+    const query = req.query as Record<string, string | undefined>;
+    if (query.result && query.result !== 'success' && query.result !== 'error') {
+      res.status(400).json({ error: 'result must be success or error' });
+      return;
+    }
+    // created_at is SQLite's "YYYY-MM-DD HH:MM:SS" (UTC); ISO input would compare wrongly as a string
+    const range: { since?: string; until?: string } = {};
+    for (const field of ['since', 'until'] as const) {
+      const value = query[field];
+      if (!value) continue;
+      const time = Date.parse(value);
+      if (Number.isNaN(time)) {
+        res.status(400).json({ error: `${field} must be a date or ISO 8601 datetime` });
+        return;
+      }
+      range[field] = new Date(time).toISOString().replace('T', ' ').slice(0, 19);
+    }
+    const entries = registry.getAuditLog(req.params.id as string, {
+      entity_id: query.entity_id || undefined,
+      tool: query.tool || undefined,
+      channel_id: query.channel_id || undefined,
+      result: query.result as 'success' | 'error' | undefined,
+      ...range,
+      before_id: query.before_id ? parseInt(query.before_id, 10) || undefined : undefined,
+      limit: query.limit ? parseInt(query.limit, 10) || undefined : undefined,
     });
-    res.json(updated);
+    res.json(entries.map(e => ({ ...e, target_ids: JSON.parse(e.target_ids || '{}') })));
   });
 
   // GET /api/servers/:id/entities — list entities on this server
@@ -98,6 +186,7 @@ export function createServersRouter(registry: EntityRegistry, discordClient: Cli
       watch_channels: JSON.parse(e.watch_channels),
       blocked_channels: JSON.parse(e.blocked_channels),
       role_id: e.role_id,
+      muted_until: registry.getEntityMute(e.id, e.server_id),
     })));
   });
 
@@ -0,0 +1,210 @@
+import {
+  ActionRowBuilder,
+  ButtonBuilder,
+  ButtonStyle,
+  MessageFlags,
+  PermissionFlagsBits,
+  type ButtonInteraction,
+  type Client,
+  type Message,
+} from 'discord.js';
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { logger } from './logger.js';
+import type { EntityRegistry } from './entity-registry.js';
+import type { Entity, PendingAction } from './types.js';
+
+/**
+ * Tools a server admin can put behind human approval. Their arguments are IDs, names, durations and
+ * reasons — never message content — so holding them in SQLite until a decision is safe.
+ */
+export const APPROVABLE_TOOLS = [
+  'delete_message', 'pin_message', 'unpin_message',
+  'timeout_user', 'assign_role', 'remove_role',
+  'create_channel', 'rename_channel', 'move_channel', 'delete_channel', 'create_category',
+  'leave_server',
+];
+
+const APPROVAL_TTL_SECONDS = 24 * 60 * 60;
+const EXPIRY_SWEEP_MS = 60_000;
+const BUTTON_PREFIX = 'approval';
+const OPERATOR_IDS = (process.env.OPERATOR_DISCORD_IDS || '').split(',').filter(Boolean);
+
+type Executor = () => Promise<CallToolResult>;
+
+/** Who is deciding: a Loom user (permissions from their session) or a Discord user clicking a DM button. */
+export interface Approver {
+  id: string;
+  name: string;
+  isOperator?: boolean;
+  adminGuilds?: string[];
+}
+
+/**
+ * Holds tool calls that need a human's approval. The action row lives in SQLite (Loom, check_pending_action);
+ * the call itself stays in memory, bound to the MCP session that made it. A restart expires every pending action.
+ */
+export class ApprovalManager {
+  private registry: EntityRegistry;
+  private discordClient: Client;
+  private executors: Map<string, Executor> = new Map();
+  private notices: Map<string, Message[]> = new Map(); // action ID → approval DMs, updated once decided
+  private sweepTimer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(registry: EntityRegistry, discordClient: Client) {
+    this.registry = registry;
+    this.discordClient = discordClient;
+  }
+
+  start(): void {
+    const orphaned = this.registry.expirePendingActions('Arachne restarted before a decision was made', true);
+    if (orphaned.length > 0) logger.info(`Expired ${orphaned.length} pending action(s) left from before restart`);
+
+    this.sweepTimer = setInterval(() => {
+      for (const id of this.registry.expirePendingActions('No decision within 24 hours')) {
+        this.executors.delete(id);
+        this.closeNotices(id, '⌛ Expired without a decision.');
+      }
+    }, EXPIRY_SWEEP_MS);
+  }
+
+  stop(): void {
+    if (this.sweepTimer) {
+      clearInterval(this.sweepTimer);
+      this.sweepTimer = null;
+    }
+  }
+
+  requiresApproval(serverId: string, tool: string): boolean {
+    if (!APPROVABLE_TOOLS.includes(tool)) return false;
+    const tools: string[] = JSON.parse(this.registry.getServerSettings(serverId).approval_tools || '[]');
+    return tools.includes(tool);
+  }
+
+  /**
+   * Hold a tool call for approval and DM the entity owner and the server owner with Approve/Deny buttons.
+   */
+  request(entity: Entity, serverId: string, tool: string, args: Record<string, unknown>, execute: Executor): PendingAction {
+    const action = this.registry.createPendingAction(entity.id, serverId, tool, args, APPROVAL_TTL_SECONDS);
+    this.executors.set(action.id, execute);
+    logger.info(`Approval requested: ${entity.name} → ${tool} on ${serverId} (${action.id})`);
+    this.notifyApprovers(entity, action).catch(err => {
+      logger.warn(`Failed to send approval request ${action.id}: ${err}`);
+    });
+    return action;
+  }
+
+  /**
+   * Whether this person may decide the action: its entity's owner, an admin of its server, or an operator.
+   */
+  async canDecide(action: PendingAction, approver: Approver): Promise<boolean> {
+    if (approver.isOperator || OPERATOR_IDS.includes(approver.id)) return true;
+    if (this.registry.getEntity(action.entity_id)?.owner_id === approver.id) return true;
+    if (approver.adminGuilds) return approver.adminGuilds.includes(action.server_id);
+    try {
+      const guild = this.discordClient.guilds.cache.get(action.server_id);
+      const member = await guild?.members.fetch(approver.id);
+      return !!member?.permissions.any([PermissionFlagsBits.Administrator, PermissionFlagsBits.ManageGuild]);
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Approve (and run) or deny a pending action. Returns the updated action, or an error message.
+   */
+  async decide(actionId: string, approve: boolean, approver: Approver): Promise<PendingAction | string> {
+    const action = this.registry.getPendingAction(actionId);
+    if (!action) return 'Action not found';
+    if (!(await this.canDecide(action, approver))) return 'You cannot decide this action';
+
+    const execute = this.executors.get(actionId);
+    if (approve && action.status === 'pending' && !execute) return 'This action can no longer run';
+    if (!this.registry.decidePendingAction(actionId, approve ? 'approved' : 'denied', approver.id, approver.name)) {
+      return `Action is already ${this.registry.getPendingAction(actionId)!.status}`;
+    }
+    this.executors.delete(actionId);
+
+    if (!approve) {
+      logger.info(`Action ${actionId} (${action.tool}) denied by ${approver.name}`);
+      this.closeNotices(actionId, `❌ Denied by **${approver.name}**.`);
+      return this.registry.getPendingAction(actionId)!;
+    }
+
+    logger.info(`Action ${actionId} (${action.tool}) approved by ${approver.name} — executing`);
+    let status: 'executed' | 'failed' = 'failed';
+    let output: string;
+    try {
+      const result = await execute!();
+      const first = result.content?.[0];
+      output = first?.type === 'text' ? first.text : '';
+      status = result.isError || output.startsWith('Error:') ? 'failed' : 'executed';
+    } catch (err) {
+      output = `Error: ${err instanceof Error ? err.message : String(err)}`;
+    }
+    this.registry.finishPendingAction(actionId, status, output);
+    this.closeNotices(actionId, status === 'executed'
+      ? `✅ Approved by **${approver.name}** and executed.`
+      : `⚠️ Approved by **${approver.name}**, but it failed: ${output.replace(/^Error:\s*/, '')}`);
+    return this.registry.getPendingAction(actionId)!;
+  }
+
+  /**
+   * Approve/Deny button on an approval DM. Custom ID: approval:<action id>:approve|deny
+   */
+  async handleButton(interaction: ButtonInteraction): Promise<void> {
+    const [prefix, actionId, decision] = interaction.customId.split(':');
+    if (prefix !== BUTTON_PREFIX || !actionId) return;
+
+    await interaction.deferUpdate();
+    const name = interaction.user.globalName || interaction.user.username;
+    const outcome = await this.decide(actionId, decision === 'approve', { id: interaction.user.id, name });
+    if (typeof outcome === 'string') {
+      await interaction.followUp({ content: outcome, flags: MessageFlags.Ephemeral }).catch(() => {});
+    }
+  }
+
+  private async notifyApprovers(entity: Entity, action: PendingAction): Promise<void> {
+    const guild = this.discordClient.guilds.cache.get(action.server_id);
+    const recipients = new Set([entity.owner_id, guild?.ownerId].filter(Boolean) as string[]);
+    const args: Record<string, unknown> = JSON.parse(action.args);
+    const details = Object.entries(args)
+      .filter(([key]) => key !== 'server_id')
+      .map(([key, value]) => {
+        if (key === 'user_id') return `> user: <@${value}>`;
+        if (key === 'channel_id' || key === 'category_id') return `> ${key.replace(/_id$/, '')}: <#${value}>`;
+        return `> ${key}: ${String(value)}`;
+      });
+    const expiresAt = Math.floor(new Date(action.expires_at.replace(' ', 'T') + 'Z').getTime() / 1000);
+    const content = [
+      `**${entity.name}** wants to run \`${action.tool}\` in **${guild?.name ?? action.server_id}**`,
+      ...details,
+      `-# Expires <t:${expiresAt}:R> · also in the Loom under Approvals`,
+    ].join('\n');
+    const buttons = new ActionRowBuilder<ButtonBuilder>().addComponents(
+      new ButtonBuilder().setCustomId(`${BUTTON_PREFIX}:${action.id}:approve`).setLabel('Approve').setStyle(ButtonStyle.Success),
+      new ButtonBuilder().setCustomId(`${BUTTON_PREFIX}:${action.id}:deny`).setLabel('Deny').setStyle(ButtonStyle.Danger),
+    );
+
+    const sent: Message[] = [];
+    for (const userId of recipients) {
+      try {
+        const user = await this.discordClient.users.fetch(userId);
+        sent.push(await user.send({ content, components: [buttons], allowedMentions: { parse: [] } }));
+      } catch (err) {
+        logger.warn(`Could not DM approval request ${action.id} to ${userId}: ${err}`);
+      }
+    }
+    this.notices.set(action.id, sent);
+  }
+
+  /** Replace the buttons on every approval DM with the outcome. */
+  private closeNotices(actionId: string, outcome: string): void {
+    const messages = this.notices.get(actionId) ?? [];
+    this.notices.delete(actionId);
+    for (const message of messages) {
+      message.edit({ content: `${message.content}\n${outcome}`, components: [], allowedMentions: { parse: [] } }).catch(err => {
+        logger.warn(`Could not update approval DM for ${actionId}: ${err}`);
+      });
+    }
+  }
+}
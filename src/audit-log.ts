@@ -0,0 +1,103 @@
+import type { Client } from 'discord.js';
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { logger } from './logger.js';
+import type { EntityRegistry } from './entity-registry.js';
+import type { Entity } from './types.js';
+
+/**
+ * MCP tools that change something on Discord. Every call to one is written to the audit log.
+ */
+export const AUDITED_TOOLS = new Set([
+  'send_message', 'send_interactive_message', 'send_dm', 'respond_to_interaction', 'send_file', 'edit_message', 'delete_message',
+  'add_reaction', 'remove_reaction', 'pin_message', 'unpin_message',
+  'create_poll', 'create_thread', 'create_forum_post', 'introduce',
+  'create_channel', 'set_channel_topic', 'rename_channel', 'delete_channel', 'create_category', 'move_channel',
+  'timeout_user', 'assign_role', 'remove_role', 'leave_server',
+]);
+
+const ERROR_MAX = 200;
+
+/**
+ * Snowflake IDs from the tool arguments and its JSON result (e.g. the new message_id), minus server and channel,
+ * which have their own columns. Only `*_id` fields with ID-shaped values are kept, so content can't slip in.
+ */
+function targetIds(args: Record<string, unknown>, resultText: string | undefined): Record<string, string> {
+  let parsed: Record<string, unknown> = {};
+  try {
+    const value = resultText ? JSON.parse(resultText) : null;
+    if (value && typeof value === 'object' && !Array.isArray(value)) parsed = value;
+  } catch {
+    // Not a JSON result — arguments only
+  }
+  const ids: Record<string, string> = {};
+  for (const [key, value] of Object.entries({ ...args, ...parsed })) {
+    if (!key.endsWith('_id') || key === 'server_id' || key === 'channel_id') continue;
+    if (typeof value === 'string' && /^\d{1,20}$/.test(value)) ids[key] = value;
+  }
+  return ids;
+}
+
+/**
+ * Record a mutating tool call and, if the server has an audit channel, mirror it there.
+ */
+export function recordToolCall(
+  registry: EntityRegistry,
+  discordClient: Client,
+  entity: Entity,
+  tool: string,
+  serverId: string | null,
+  args: Record<string, unknown>,
+  result: CallToolResult,
+): void {
+  if (!AUDITED_TOOLS.has(tool)) return;
+  const first = result.content?.[0];
+  const text = first?.type === 'text' ? first.text : undefined;
+  const failed = !!result.isError || (text?.startsWith('Error:') ?? false);
+  const channelId = typeof args.channel_id === 'string' ? args.channel_id : null;
+  const ids = targetIds(args, failed ? undefined : text);
+  const error = failed && text ? text.replace(/^Error:\s*/, '').slice(0, ERROR_MAX) : null;
+
+  try {
+    registry.addAuditEntry({
+      server_id: serverId,
+      entity_id: entity.id,
+      tool,
+      channel_id: channelId,
+      target_ids: JSON.stringify(ids),
+      result: failed ? 'error' : 'success',
+      error,
+    });
+  } catch (err) {
+    logger.error(`Audit log write failed for ${entity.name}/${tool}: ${err}`);
+  }
+
+  if (!serverId) return;
+  const auditChannel = registry.getServerSettings(serverId).audit_channel;
+  if (!auditChannel) return;
+  mirror(discordClient, serverId, auditChannel, entity.name, tool, channelId, ids, error).catch(err => {
+    logger.warn(`Audit mirror to ${auditChannel} failed: ${err instanceof Error ? err.message : err}`);
+  });
+}
+
+async function mirror(
+  discordClient: Client,
+  serverId: string,
+  auditChannel: string,
+  entityName: string,
+  tool: string,
+  channelId: string | null,
+  ids: Record<string, string>,
+  error: string | null,
+): Promise<void> {
+  const channel = await discordClient.channels.fetch(auditChannel);
+  // A server's audit stream only ever goes to a channel on that server
+  if (!channel || channel.isDMBased() || channel.guildId !== serverId || !channel.isSendable()) return;
+  const parts = [`**${entityName}** \`${tool}\``];
+  if (channelId) parts.push(`in <#${channelId}>`);
+  for (const [key, id] of Object.entries(ids)) {
+    parts.push(key === 'user_id' ? `user <@${id}>` : `${key.replace(/_id$/, '').replace(/_/g, ' ')} \`${id}\``);
+  }
+  const line = `${error ? '❌' : '✅'} ${parts.join(' · ')}${error ? `\n-# ${error}` : ''}`;
+  // Mentions render as names but never ping
+  await channel.send({ content: line, allowedMentions: { parse: [] } });
+}
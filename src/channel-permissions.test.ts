@@ -0,0 +1,141 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  channelLineage,
+  channelRules,
+  effectiveChannels,
+  evaluateChannel,
+  type ChannelLookup,
+  type ChannelNode,
+} from './channel-permissions.js';
+
+const SERVER = 'server-a';
+const OTHER_SERVER = 'server-b';
+
+// server-a: category → text channel → thread, plus a second category and channel; server-b: one channel
+const channels: ChannelNode[] = [
+  { id: 'category', guildId: SERVER, parentId: null },
+  { id: 'general', guildId: SERVER, parentId: 'category' },
+  { id: 'thread', guildId: SERVER, parentId: 'general' },
+  { id: 'other-category', guildId: SERVER, parentId: null },
+  { id: 'random', guildId: SERVER, parentId: 'other-category' },
+  { id: 'lobby', guildId: SERVER, parentId: null },
+  { id: 'elsewhere', guildId: OTHER_SERVER, parentId: null },
+];
+const lookup: ChannelLookup = id => channels.find(c => c.id === id) ?? null;
+
+/** Evaluate a channel the way the Router and tools do: lineage from the lookup, guild from the channel. */
+function access(es: { channels?: string[]; dedicated?: string[]; blocked?: string[] }, channelId: string) {
+  const rules = channelRules({
+    server_id: SERVER,
+    channels: JSON.stringify(es.channels ?? []),
+    dedicated_channels: JSON.stringify(es.dedicated ?? []),
+    blocked_channels: JSON.stringify(es.blocked ?? []),
+  });
+  return evaluateChannel(rules, channelLineage(channelId, lookup), lookup(channelId)?.guildId ?? null);
+}
+
+describe('effectiveChannels', () => {
+  it('keeps an all-channels template all-channels', () => {
+    assert.deepEqual(effectiveChannels([], ['lobby']), []);
+  });
+
+  it('widens a restricted template with dedicated channels, without duplicates', () => {
+    assert.deepEqual(effectiveChannels(['general', 'lobby'], ['lobby', 'random']), ['general', 'lobby', 'random']);
+  });
+});
+
+describe('channelLineage', () => {
+  it('walks thread → parent → category', () => {
+    assert.deepEqual(channelLineage('thread', lookup), ['thread', 'general', 'category']);
+  });
+
+  it('stops at three levels', () => {
+    const deep: ChannelLookup = id => ({ id, guildId: SERVER, parentId: `${id}-parent` });
+    assert.deepEqual(channelLineage('a', deep), ['a', 'a-parent', 'a-parent-parent']);
+  });
+
+  it('uses the given parent for a thread missing from the cache', () => {
+    assert.deepEqual(channelLineage('uncached-thread', lookup, 'general'), ['uncached-thread', 'general', 'category']);
+  });
+
+  it('does not loop on a cycle', () => {
+    const cyclic: ChannelLookup = id => ({ id, guildId: SERVER, parentId: id === 'a' ? 'b' : 'a' });
+    assert.deepEqual(channelLineage('a', cyclic), ['a', 'b']);
+  });
+});
+
+describe('evaluateChannel', () => {
+  describe('admin ceiling', () => {
+    it('allows every channel on the server when the ceiling is empty', () => {
+      assert.equal(access({}, 'general'), 'allowed');
+      assert.equal(access({}, 'lobby'), 'allowed');
+    });
+
+    it('allows only template channels when the ceiling is set', () => {
+      assert.equal(access({ channels: ['general'] }, 'general'), 'allowed');
+      assert.equal(access({ channels: ['general'] }, 'lobby'), 'outside_ceiling');
+    });
+
+    it('adds dedicated channels to a restricted template', () => {
+      assert.equal(access({ channels: ['general'], dedicated: ['lobby'] }, 'lobby'), 'allowed');
+      assert.equal(access({ channels: ['general'], dedicated: ['lobby'] }, 'random'), 'outside_ceiling');
+    });
+
+    it('does not narrow an all-channels template to the dedicated channels', () => {
+      assert.equal(access({ dedicated: ['lobby'] }, 'random'), 'allowed');
+    });
+
+    it('refuses an unresolvable channel when the ceiling is empty', () => {
+      assert.equal(access({}, 'unknown'), 'outside_ceiling');
+    });
+  });
+
+  describe('blocked channels', () => {
+    it('blocks a channel inside the ceiling', () => {
+      assert.equal(access({ channels: ['general'], blocked: ['general'] }, 'general'), 'blocked');
+    });
+
+    it('blocks with an all-channels ceiling', () => {
+      assert.equal(access({ blocked: ['lobby'] }, 'lobby'), 'blocked');
+      assert.equal(access({ blocked: ['lobby'] }, 'general'), 'allowed');
+    });
+
+    it('overrides a dedicated channel', () => {
+      assert.equal(access({ channels: ['general'], dedicated: ['lobby'], blocked: ['lobby'] }, 'lobby'), 'blocked');
+    });
+  });
+
+  describe('inheritance', () => {
+    it('lets a thread inherit its parent channel', () => {
+      assert.equal(access({ channels: ['general'] }, 'thread'), 'allowed');
+      assert.equal(access({ channels: ['general'], blocked: ['general'] }, 'thread'), 'blocked');
+    });
+
+    it('lets a thread inherit its category at the end of a three-level lineage', () => {
+      assert.equal(access({ channels: ['category'] }, 'thread'), 'allowed');
+      assert.equal(access({ blocked: ['category'] }, 'thread'), 'blocked');
+    });
+
+    it('lets a channel inherit its category', () => {
+      assert.equal(access({ channels: ['other-category'] }, 'random'), 'allowed');
+      assert.equal(access({ channels: ['other-category'] }, 'general'), 'outside_ceiling');
+    });
+
+    it('does not inherit past the three-level limit', () => {
+      const deep: ChannelLookup = id => ({ id, guildId: SERVER, parentId: `${id}-parent` });
+      const rules = channelRules({ server_id: SERVER, channels: '["a-parent-parent-parent"]', dedicated_channels: '[]', blocked_channels: '[]' });
+      assert.equal(evaluateChannel(rules, channelLineage('a', deep), SERVER), 'outside_ceiling');
+    });
+  });
+
+  describe('other servers', () => {
+    it('puts a channel on another server out of scope', () => {
+      assert.equal(access({}, 'elsewhere'), 'other_server');
+    });
+
+    it('checks the server before the lists', () => {
+      assert.equal(access({ channels: ['elsewhere'], blocked: ['elsewhere'] }, 'elsewhere'), 'other_server');
+    });
+  });
+});
@@ -0,0 +1,84 @@
+import type { Client } from 'discord.js';
+import type { EntityServer } from './types.js';
+
+/**
+ * Channel permissions — the one answer to "may this entity use this channel?".
+ * The router (what gets queued), MCP tools/resources/prompts (what can be read or posted) and the Loom
+ * channel picker all go through evaluateChannel, so they can't disagree.
+ *
+ * Rules, in order:
+ *   1. A channel on another server is out of scope.
+ *   2. Blocked channels (owner-set) override everything: not routed, not readable, not writable.
+ *   3. The admin ceiling: template channels + dedicated channels, or a manual list. Empty = every channel.
+ * Threads and forum posts inherit from their parent channel, and channels from their category, for both lists.
+ */
+
+export type ChannelAccess = 'allowed' | 'blocked' | 'outside_ceiling' | 'other_server';
+
+/** The parts of a channel the rules need. Categories and top-level channels have no parent. */
+export interface ChannelNode {
+  id: string;
+  guildId: string | null;
+  parentId: string | null;
+}
+
+export type ChannelLookup = (channelId: string) => ChannelNode | null;
+
+export interface ChannelRules {
+  serverId: string;
+  ceiling: Set<string>; // empty = every channel on the server
+  blocked: Set<string>;
+}
+
+/**
+ * An entity's channel whitelist from its template and dedicated channels.
+ * An all-channels template stays all-channels — dedicated channels only widen a restricted one.
+ */
+export function effectiveChannels(templateChannels: string[], dedicatedChannels: string[]): string[] {
+  if (templateChannels.length === 0) return [];
+  return [...new Set([...templateChannels, ...dedicatedChannels])];
+}
+
+export function channelRules(es: Pick<EntityServer, 'server_id' | 'channels' | 'dedicated_channels' | 'blocked_channels'>): ChannelRules {
+  const channels: string[] = JSON.parse(es.channels || '[]');
+  const dedicated: string[] = JSON.parse(es.dedicated_channels || '[]');
+  return {
+    serverId: es.server_id,
+    ceiling: new Set(effectiveChannels(channels, dedicated)),
+    blocked: new Set(JSON.parse(es.blocked_channels || '[]') as string[]),
+  };
+}
+
+/**
+ * The channel followed by everything it inherits from: thread → parent channel → category.
+ * `parentId` covers a thread that isn't cached (the gateway still knows its parent).
+ */
+export function channelLineage(channelId: string, lookup: ChannelLookup, parentId?: string | null): string[] {
+  const lineage = [channelId];
+  let next = lookup(channelId)?.parentId ?? parentId ?? null;
+  while (next && lineage.length < 3 && !lineage.includes(next)) {
+    lineage.push(next);
+    next = lookup(next)?.parentId ?? null;
+  }
+  return lineage;
+}
+
+/**
+ * Evaluate one channel against an entity's rules on one server.
+ * `guildId` is the server the channel is known to belong to (null if it can't be resolved).
+ */
+export function evaluateChannel(rules: ChannelRules, lineage: string[], guildId: string | null): ChannelAccess {
+  if (guildId && guildId !== rules.serverId) return 'other_server';
+  if (lineage.some(id => rules.blocked.has(id))) return 'blocked';
+  if (rules.ceiling.size === 0) return guildId ? 'allowed' : 'outside_ceiling';
+  return lineage.some(id => rules.ceiling.has(id)) ? 'allowed' : 'outside_ceiling';
+}
+
+/** Resolve channels from the discord.js cache. */
+export function discordChannelLookup(discordClient: Client): ChannelLookup {
+  return (channelId: string) => {
+    const channel = discordClient.channels.cache.get(channelId);
+    if (!channel || channel.isDMBased()) return null;
+    return { id: channel.id, guildId: channel.guildId, parentId: channel.parentId };
+  };
+}
@@ -1,6 +1,7 @@
 import 'dotenv/config';
 import { EntityRegistry } from './entity-registry.js';
 import { createEntityRole, deleteEntityRole, sendAnnouncement } from './api/discord-api.js';
+import { rotateOAuthSigningKey } from './jwt-keys.js';
 
 const DB_PATH = process.env.DB_PATH || './arachne.db';
 
@@ -168,6 +169,19 @@ async function main() {
           console.error('Usage: cli server <add|remove>');
           process.exit(1);
       }
+    } else if (command === 'keys') {
+      switch (subcommand) {
+        case 'rotate-oauth': {
+          const kid = rotateOAuthSigningKey(registry);
+          console.log(`OAuth signing key rotated. New kid: ${kid}`);
+          console.log('  Tokens signed by the previous key stay valid until they expire (1 hour).');
+          break;
+        }
+
+        default:
+          console.error('Usage: cli keys rotate-oauth');
+          process.exit(1);
+      }
     } else {
       console.log('Arachne CLI');
       console.log('  entity create --name <name> [--avatar <url>]');
@@ -176,6 +190,7 @@ async function main() {
       console.log('  entity key-regen --id <entity_id>');
       console.log('  server add --entity <id> --server <server_id> [--channels ch1,ch2] [--announce <channel_id>]');
       console.log('  server remove --entity <id> --server <server_id>');
+      console.log('  keys rotate-oauth');
     }
   } finally {
     registry.close();
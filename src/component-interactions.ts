@@ -0,0 +1,100 @@
+import { MessageFlags, type ButtonInteraction, type Client, type StringSelectMenuInteraction } from 'discord.js';
+import { channelLineage, channelRules, discordChannelLookup, evaluateChannel } from './channel-permissions.js';
+import { logger } from './logger.js';
+import type { EntityRegistry } from './entity-registry.js';
+import type { Gateway } from './gateway.js';
+import type { MessageBus } from './message-bus.js';
+import type { MessageExtras } from './types.js';
+
+export const COMPONENT_PREFIX = 'entity';
+const ENTITY_ID_LENGTH = 36; // UUID
+/** Longest custom ID an entity can choose: Discord allows 100 characters, minus "entity:<uuid>:". */
+export const MAX_ENTITY_CUSTOM_ID = 100 - COMPONENT_PREFIX.length - ENTITY_ID_LENGTH - 2;
+
+/** The custom ID Discord sees for an entity's button or select menu. Custom ID: entity:<entity id>:<entity's own ID> */
+export function componentCustomId(entityId: string, customId: string): string {
+  return `${COMPONENT_PREFIX}:${entityId}:${customId}`;
+}
+
+export type ComponentInteraction = ButtonInteraction | StringSelectMenuInteraction;
+
+function buttonLabel(interaction: ButtonInteraction): string | null {
+  const component = interaction.component;
+  return 'label' in component ? component.label ?? null : null;
+}
+
+/**
+ * Queues clicks on buttons and select menus that entities posted with send_interactive_message.
+ * The click goes to the entity named in the custom ID as a `component_interaction` event — author is the
+ * clicking user, content the button label or chosen values, with custom_id and values alongside.
+ * The channel rules apply as for any message: a click in a channel the entity can no longer see is not queued.
+ */
+export class ComponentInteractions {
+  private registry: EntityRegistry;
+  private bus: MessageBus;
+  private discordClient: Client;
+
+  constructor(gateway: Gateway, registry: EntityRegistry, bus: MessageBus, discordClient: Client) {
+    this.registry = registry;
+    this.bus = bus;
+    this.discordClient = discordClient;
+
+    gateway.on('component', (interaction: ComponentInteraction) => {
+      this.handle(interaction).catch(err => logger.warn(`Component interaction ${interaction.customId} failed: ${err}`));
+    });
+    logger.info('Component interactions attached to gateway');
+  }
+
+  private async handle(interaction: ComponentInteraction): Promise<void> {
+    const [prefix, entityId, ...rest] = interaction.customId.split(':');
+    const customId = rest.join(':');
+    if (prefix !== COMPONENT_PREFIX || !entityId || !interaction.inGuild()) return;
+
+    const entity = this.registry.getEntitiesForServer(interaction.guildId).find(e => e.id === entityId);
+    const lineage = channelLineage(interaction.channelId, discordChannelLookup(this.discordClient));
+    if (!entity || evaluateChannel(channelRules(entity), lineage, interaction.guildId) !== 'allowed') {
+      await interaction.reply({ content: 'This entity is no longer listening here.', flags: MessageFlags.Ephemeral });
+      return;
+    }
+
+    const values = interaction.isStringSelectMenu() ? interaction.values : [];
+    const extras: MessageExtras = {
+      attachments: [],
+      embeds: [],
+      stickers: [],
+      reply_to: null,
+      component: { custom_id: customId, values },
+    };
+    const channel = interaction.channel;
+    const inThread = !!channel?.isThread();
+    const queued = this.bus.push(entity.id, {
+      kind: 'component_interaction',
+      messageId: interaction.message.id,
+      channelId: interaction.channelId,
+      channelName: channel && 'name' in channel && channel.name ? channel.name : interaction.channelId,
+      serverId: interaction.guildId,
+      authorId: interaction.user.id,
+      authorName: interaction.member && 'displayName' in interaction.member
+        ? interaction.member.displayName
+        : interaction.user.displayName,
+      content: interaction.isButton() ? buttonLabel(interaction) ?? customId : values.join(', '),
+      timestamp: interaction.createdAt,
+      addressed: true, // the user answered this entity's own prompt
+      triggered: false,
+      emoji: null,
+      threadId: inThread ? interaction.channelId : null,
+      parentId: inThread ? channel.parentId : null,
+      dm: false,
+      interactionId: null,
+      extras,
+    }, this.registry.getQueueRecipients(entity.id));
+
+    if (!queued) {
+      await interaction.reply({ content: `**${entity.name}** isn't connected right now.`, flags: MessageFlags.Ephemeral });
+      return;
+    }
+    // Acknowledge without changing the message; the entity answers in its own time
+    await interaction.deferUpdate();
+    logger.debug(`Queued component ${customId} on ${interaction.message.id} from ${interaction.user.id} for ${entity.name}`);
+  }
+}
@@ -3,11 +3,22 @@ import bcrypt from 'bcrypt';
 
 const BCRYPT_ROUNDS = 12;
 
+/** API keys look like ak_<prefix>_<secret>; the prefix identifies the key without a bcrypt scan. */
+const API_KEY_PATTERN = /^ak_([0-9a-f]{16})_[0-9a-f]{64}$/;
+
+/**
+ * Generate a random API key: a 16-hex-character lookup prefix plus a 64-hex-character (32-byte) secret.
+ */
+export function generateApiKey(): { apiKey: string; prefix: string } {
+  const prefix = crypto.randomBytes(8).toString('hex');
+  return { apiKey: `ak_${prefix}_${crypto.randomBytes(32).toString('hex')}`, prefix };
+}
+
 /**
- * Generate a random API key (64 hex characters = 32 bytes).
+ * Extract the lookup prefix from an API key. Returns null for legacy keys (bare 64 hex characters).
  */
-export function generateApiKey(): string {
-  return crypto.randomBytes(32).toString('hex');
+export function apiKeyPrefix(apiKey: string): string | null {
+  return API_KEY_PATTERN.exec(apiKey)?.[1] ?? null;
 }
 
 /**
@@ -41,20 +52,82 @@ export function timingSafeEqual(a: string, b: string): boolean {
   return crypto.timingSafeEqual(bufA, bufB);
 }
 
+/** DER headers that turn a raw 32-byte X25519 key into PKCS#8 / SPKI for node:crypto. */
+const X25519_PKCS8_PREFIX = Buffer.from('302e020100300506032b656e04220420', 'hex');
+const X25519_SPKI_PREFIX = Buffer.from('302a300506032b656e032100', 'hex');
+
 /**
- * Derive a 32-byte AES-256 encryption key from an API key + salt using HKDF-SHA256.
- * The key is used for per-entity message encryption in the in-memory queue.
+ * Derive a credential's 32-byte X25519 queue private key from an API key + salt using HKDF-SHA256.
+ * Only the matching public key is stored; the private key exists only while a request holds the API key.
  */
-export function deriveEncryptionKey(apiKey: string, salt: string): Buffer {
+export function deriveQueuePrivateKey(apiKey: string, salt: string): Buffer {
   return Buffer.from(crypto.hkdfSync(
     'sha256',
     Buffer.from(apiKey, 'utf-8'),
     Buffer.from(salt, 'hex'),
-    Buffer.from('entity-msg-encryption', 'utf-8'),
+    Buffer.from('entity-queue-x25519', 'utf-8'),
+    32,
+  ));
+}
+
+/**
+ * Generate a random X25519 queue private key (OAuth grants, whose clients keep it inside their tokens).
+ */
+export function generateQueuePrivateKey(): Buffer {
+  return crypto.randomBytes(32);
+}
+
+/**
+ * The raw 32-byte X25519 public key for a queue private key.
+ */
+export function queuePublicKey(privateKey: Buffer): Buffer {
+  const key = crypto.createPrivateKey({ key: Buffer.concat([X25519_PKCS8_PREFIX, privateKey]), format: 'der', type: 'pkcs8' });
+  return crypto.createPublicKey(key).export({ format: 'der', type: 'spki' }).subarray(X25519_SPKI_PREFIX.length);
+}
+
+/**
+ * Seal a content key to a recipient's X25519 public key (ephemeral ECDH + HKDF + AES-256-GCM).
+ * Returns base64(ephemeral public key:32 + iv:12 + ciphertext + authTag:16).
+ */
+export function sealContentKey(publicKey: Buffer, contentKey: Buffer): string {
+  const ephemeral = crypto.generateKeyPairSync('x25519');
+  const ephemeralPublic = ephemeral.publicKey.export({ format: 'der', type: 'spki' }).subarray(X25519_SPKI_PREFIX.length);
+  const recipient = crypto.createPublicKey({ key: Buffer.concat([X25519_SPKI_PREFIX, publicKey]), format: 'der', type: 'spki' });
+  const wrapKey = sealingKey(crypto.diffieHellman({ privateKey: ephemeral.privateKey, publicKey: recipient }), ephemeralPublic, publicKey);
+  const sealed = Buffer.from(encryptContent(wrapKey, contentKey.toString('base64')), 'base64');
+  return Buffer.concat([ephemeralPublic, sealed]).toString('base64');
+}
+
+/**
+ * Open a content key sealed by sealContentKey with the recipient's X25519 private key.
+ */
+export function openContentKey(privateKey: Buffer, sealed: string): Buffer {
+  const buf = Buffer.from(sealed, 'base64');
+  const ephemeralPublic = buf.subarray(0, 32);
+  const key = crypto.createPrivateKey({ key: Buffer.concat([X25519_PKCS8_PREFIX, privateKey]), format: 'der', type: 'pkcs8' });
+  const ephemeral = crypto.createPublicKey({ key: Buffer.concat([X25519_SPKI_PREFIX, ephemeralPublic]), format: 'der', type: 'spki' });
+  const wrapKey = sealingKey(crypto.diffieHellman({ privateKey: key, publicKey: ephemeral }), ephemeralPublic, queuePublicKey(privateKey));
+  return Buffer.from(decryptContent(wrapKey, buf.subarray(32).toString('base64')), 'base64');
+}
+
+function sealingKey(sharedSecret: Buffer, ephemeralPublic: Buffer, recipientPublic: Buffer): Buffer {
+  return Buffer.from(crypto.hkdfSync(
+    'sha256',
+    sharedSecret,
+    Buffer.concat([ephemeralPublic, recipientPublic]),
+    Buffer.from('entity-queue-seal', 'utf-8'),
     32,
   ));
 }
 
+/**
+ * Generate a random 32-byte content key. Queued messages are encrypted with one, and the
+ * content key is then sealed to each of the entity's credentials so any of them can read.
+ */
+export function generateContentKey(): Buffer {
+  return crypto.randomBytes(32);
+}
+
 /**
  * Encrypt plaintext using AES-256-GCM. Returns base64(iv:12 + ciphertext + authTag:16).
  */
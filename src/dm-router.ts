@@ -0,0 +1,199 @@
+import { ActionRowBuilder, StringSelectMenuBuilder, type Client, type StringSelectMenuInteraction } from 'discord.js';
+import { logger } from './logger.js';
+import type { EntityRegistry } from './entity-registry.js';
+import type { Gateway } from './gateway.js';
+import type { MessageBus } from './message-bus.js';
+import type { Entity, MessageExtras, NormalizedMessage } from './types.js';
+
+const PICK_PREFIX = 'dm-pick';
+const HELD_TTL_MS = 10 * 60 * 1000; // How long a DM waits for the sender to pick an entity
+const MAX_CHOICES = 25; // Discord select menu limit
+
+/**
+ * Routes DMs sent to the bot into an entity's queue (flagged `dm`). The target is, in order:
+ * a `!name` prefix, the entity the user last talked to (it DMed them with send_dm, or they picked it),
+ * the only entity taking DMs from them, or whichever they pick from a select menu.
+ * An entity takes DMs only with dm_intake on, from its allow-list or (empty list) anyone sharing a server with it.
+ */
+export class DmRouter {
+  private registry: EntityRegistry;
+  private bus: MessageBus;
+  private discordClient: Client;
+  private held: Map<string, { msg: NormalizedMessage; expires: number }> = new Map(); // DM message ID → DM awaiting a pick
+
+  constructor(gateway: Gateway, registry: EntityRegistry, bus: MessageBus, discordClient: Client) {
+    this.registry = registry;
+    this.bus = bus;
+    this.discordClient = discordClient;
+
+    gateway.on('dm', (msg: NormalizedMessage) => {
+      this.handleDm(msg).catch(err => logger.error(`DM routing failed for ${msg.messageId}: ${err}`));
+    });
+    gateway.on('select', (interaction: StringSelectMenuInteraction) => {
+      this.handleSelect(interaction).catch(err => logger.warn(`DM entity pick failed: ${err}`));
+    });
+    logger.info('DM router attached to gateway');
+  }
+
+  private async handleDm(msg: NormalizedMessage): Promise<void> {
+    const hasMedia = msg.attachments.length > 0 || msg.embeds.length > 0 || msg.stickers.length > 0;
+    if (!msg.content && !hasMedia) return;
+
+    const candidates = await this.entitiesAccepting(msg.authorId);
+    if (candidates.length === 0) {
+      await this.reply(msg.channelId, 'No entity is taking DMs from you right now.');
+      return;
+    }
+
+    // "!name message" picks (and remembers) the entity; "!name" alone just switches
+    const prefixed = this.matchPrefix(msg.content, candidates);
+    if (prefixed) {
+      this.registry.setDmTarget(msg.authorId, prefixed.entity.id);
+      if (!prefixed.rest && !hasMedia) {
+        await this.reply(msg.channelId, `Your DMs now go to **${prefixed.entity.name}**.`);
+        return;
+      }
+      this.deliver(prefixed.entity, { ...msg, content: prefixed.rest });
+      return;
+    }
+
+    const targetId = this.registry.getDmTarget(msg.authorId);
+    const target = candidates.find(e => e.id === targetId) ?? (candidates.length === 1 ? candidates[0] : null);
+    if (target) {
+      if (target.id !== targetId) this.registry.setDmTarget(msg.authorId, target.id);
+      this.deliver(target, msg);
+      return;
+    }
+
+    // Several entities and no conversation yet — hold the DM and ask
+    this.pruneHeld();
+    this.held.set(msg.messageId, { msg, expires: Date.now() + HELD_TTL_MS });
+    const menu = new StringSelectMenuBuilder()
+      .setCustomId(`${PICK_PREFIX}:${msg.messageId}`)
+      .setPlaceholder('Choose an entity')
+      .addOptions(candidates.slice(0, MAX_CHOICES).map(e => ({
+        label: e.name.slice(0, 100),
+        value: e.id,
+        ...(e.description ? { description: e.description.slice(0, 100) } : {}),
+      })));
+    const channel = await this.discordClient.channels.fetch(msg.channelId);
+    if (channel?.isSendable()) {
+      await channel.send({
+        content: 'Who is this message for? Start a message with `!name` to pick an entity directly.',
+        components: [new ActionRowBuilder<StringSelectMenuBuilder>().addComponents(menu)],
+      });
+    }
+  }
+
+  /**
+   * Entity picker on a held DM. Custom ID: dm-pick:<DM message ID>
+   */
+  private async handleSelect(interaction: StringSelectMenuInteraction): Promise<void> {
+    const [prefix, messageId] = interaction.customId.split(':');
+    if (prefix !== PICK_PREFIX || !messageId) return;
+
+    await interaction.deferUpdate();
+    const entity = this.registry.getEntity(interaction.values[0]);
+    if (!entity || !entity.active || !entity.dm_intake || !(await this.accepts(entity, interaction.user.id))) {
+      await interaction.editReply({ content: 'That entity is not taking DMs from you any more.', components: [] });
+      return;
+    }
+
+    this.registry.setDmTarget(interaction.user.id, entity.id);
+    const held = this.held.get(messageId);
+    this.held.delete(messageId);
+    const delivered = !!held && held.expires > Date.now() && this.deliver(entity, held.msg);
+    await interaction.editReply({
+      content: delivered
+        ? `Sent to **${entity.name}**. Your next DMs go there too — start one with \`!name\` to switch.`
+        : `Your DMs now go to **${entity.name}**. Send your message again.`,
+      components: [],
+    });
+  }
+
+  /** Queue a DM for an entity. Returns whether it was queued. */
+  private deliver(entity: Entity, msg: NormalizedMessage): boolean {
+    const hasMedia = msg.attachments.length > 0 || msg.embeds.length > 0 || msg.stickers.length > 0;
+    const extras: MessageExtras | null = hasMedia || msg.replyToMessageId
+      ? {
+        attachments: msg.attachments,
+        embeds: msg.embeds,
+        stickers: msg.stickers,
+        reply_to: msg.replyToMessageId ? { message_id: msg.replyToMessageId, author_id: msg.replyToAuthorId } : null,
+      }
+      : null;
+
+    const queued = this.bus.push(entity.id, {
+      kind: 'message',
+      messageId: msg.messageId,
+      channelId: msg.channelId,
+      channelName: `dm-${msg.authorName}`,
+      serverId: '',
+      authorId: msg.authorId,
+      authorName: msg.authorName,
+      content: msg.content,
+      timestamp: msg.timestamp,
+      addressed: true, // a DM is always meant for its entity
+      triggered: false,
+      emoji: null,
+      threadId: null,
+      parentId: null,
+      dm: true,
+      interactionId: null,
+      extras,
+    }, this.registry.getQueueRecipients(entity.id));
+
+    logger.debug(`Routed DM ${msg.messageId} from ${msg.authorId} to ${entity.name} (${queued ? 'queued' : 'dropped'})`);
+    return queued;
+  }
+
+  private async entitiesAccepting(userId: string): Promise<Entity[]> {
+    const result: Entity[] = [];
+    for (const entity of this.registry.getDmEntities()) {
+      if (await this.accepts(entity, userId)) result.push(entity);
+    }
+    return result;
+  }
+
+  /** Allow-listed users, or (empty allow-list) anyone who shares a server with the entity. */
+  private async accepts(entity: Entity, userId: string): Promise<boolean> {
+    const allowlist: string[] = JSON.parse(entity.dm_allowlist || '[]');
+    if (allowlist.length > 0) return allowlist.includes(userId);
+    for (const es of this.registry.getEntityServers(entity.id)) {
+      const guild = this.discordClient.guilds.cache.get(es.server_id);
+      if (!guild) continue;
+      try {
+        await guild.members.fetch(userId);
+        return true;
+      } catch {
+        // Not a member of this server, try the next
+      }
+    }
+    return false;
+  }
+
+  /** "!name rest" → the entity (longest matching name, case-insensitive) and the rest of the message. */
+  private matchPrefix(content: string, candidates: Entity[]): { entity: Entity; rest: string } | null {
+    if (!content.startsWith('!')) return null;
+    const lower = content.slice(1).toLowerCase();
+    const entity = [...candidates]
+      .sort((a, b) => b.name.length - a.name.length)
+      .find(e => {
+        const name = e.name.toLowerCase();
+        return lower.startsWith(name) && (lower.length === name.length || /\s/.test(lower[name.length]));
+      });
+    return entity ? { entity, rest: content.slice(1 + entity.name.length).trim() } : null;
+  }
+
+  private pruneHeld(): void {
+    const now = Date.now();
+    for (const [id, held] of this.held) {
+      if (held.expires <= now) this.held.delete(id);
+    }
+  }
+
+  private async reply(channelId: string, content: string): Promise<void> {
+    const channel = await this.discordClient.channels.fetch(channelId);
+    if (channel?.isSendable()) await channel.send(content);
+  }
+}
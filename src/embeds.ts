@@ -0,0 +1,82 @@
+/**
+ * Embeds entities post with send_message: Discord's length limits, checked up front so a too-long field
+ * comes back as a clear error naming the field instead of Discord's "Invalid Form Body".
+ */
+
+// Discord embed limits (https://discord.com/developers/docs/resources/message#embed-object-embed-limits)
+export const MAX_EMBEDS = 10;
+const MAX_TITLE = 256;
+const MAX_DESCRIPTION = 4096;
+const MAX_FIELDS = 25;
+const MAX_FIELD_NAME = 256;
+const MAX_FIELD_VALUE = 1024;
+const MAX_FOOTER = 2048;
+const MAX_TOTAL = 6000; // title + description + field names/values + footer, summed over every embed in the message
+
+/** An embed as an entity describes it (snake_case, colour as hex). */
+export interface EmbedInput {
+  title?: string;
+  description?: string;
+  url?: string;
+  color?: string;
+  fields?: Array<{ name: string; value: string; inline?: boolean }>;
+  image_url?: string;
+  thumbnail_url?: string;
+  footer?: string;
+  timestamp?: string;
+}
+
+const HEX_COLOR = /^#?[0-9a-f]{6}$/i;
+
+/** "#RRGGBB" (or "RRGGBB") → the integer Discord wants, null if it isn't one. */
+export function parseHexColor(color: string | null | undefined): number | null {
+  return color && HEX_COLOR.test(color) ? parseInt(color.replace('#', ''), 16) : null;
+}
+
+/** The first limit the embeds break, as a message for the entity — null when they're all fine. */
+export function embedLimitError(embeds: EmbedInput[]): string | null {
+  if (embeds.length > MAX_EMBEDS) return `At most ${MAX_EMBEDS} embeds per message (got ${embeds.length}).`;
+
+  const tooLong = (what: string, text: string, max: number) =>
+    `${what} is ${text.length} characters — Discord allows ${max}.`;
+
+  let total = 0;
+  for (const [i, embed] of embeds.entries()) {
+    const at = `embeds[${i}]`;
+    const fields = embed.fields ?? [];
+    if (!embed.title && !embed.description && fields.length === 0 && !embed.image_url && !embed.thumbnail_url) {
+      return `${at} is empty — give it at least a title, description, field or image.`;
+    }
+    if (embed.title && embed.title.length > MAX_TITLE) return tooLong(`${at}.title`, embed.title, MAX_TITLE);
+    if (embed.description && embed.description.length > MAX_DESCRIPTION) return tooLong(`${at}.description`, embed.description, MAX_DESCRIPTION);
+    if (embed.footer && embed.footer.length > MAX_FOOTER) return tooLong(`${at}.footer`, embed.footer, MAX_FOOTER);
+    if (fields.length > MAX_FIELDS) return `${at} has ${fields.length} fields — Discord allows ${MAX_FIELDS}.`;
+    for (const [j, field] of fields.entries()) {
+      if (!field.name.trim() || !field.value.trim()) return `${at}.fields[${j}] needs both a name and a value.`;
+      if (field.name.length > MAX_FIELD_NAME) return tooLong(`${at}.fields[${j}].name`, field.name, MAX_FIELD_NAME);
+      if (field.value.length > MAX_FIELD_VALUE) return tooLong(`${at}.fields[${j}].value`, field.value, MAX_FIELD_VALUE);
+      total += field.name.length + field.value.length;
+    }
+    if (embed.color && !HEX_COLOR.test(embed.color)) return `${at}.color must be a hex colour like "#5865F2".`;
+    if (embed.timestamp && Number.isNaN(Date.parse(embed.timestamp))) return `${at}.timestamp must be an ISO 8601 date.`;
+    total += (embed.title?.length ?? 0) + (embed.description?.length ?? 0) + (embed.footer?.length ?? 0);
+  }
+  if (total > MAX_TOTAL) return `The embeds add up to ${total} characters of text — Discord allows ${MAX_TOTAL} per message.`;
+  return null;
+}
+
+/** The Discord embed payload. Embeds without a colour get `defaultColor` (the entity's accent colour). */
+export function toDiscordEmbed(embed: EmbedInput, defaultColor: number | null): Record<string, unknown> {
+  const color = parseHexColor(embed.color) ?? defaultColor;
+  return {
+    ...(embed.title ? { title: embed.title } : {}),
+    ...(embed.description ? { description: embed.description } : {}),
+    ...(embed.url ? { url: embed.url } : {}),
+    ...(color !== null ? { color } : {}),
+    ...(embed.fields?.length ? { fields: embed.fields.map(f => ({ name: f.name, value: f.value, inline: f.inline ?? false })) } : {}),
+    ...(embed.image_url ? { image: { url: embed.image_url } } : {}),
+    ...(embed.thumbnail_url ? { thumbnail: { url: embed.thumbnail_url } } : {}),
+    ...(embed.footer ? { footer: { text: embed.footer } } : {}),
+    ...(embed.timestamp ? { timestamp: new Date(embed.timestamp).toISOString() } : {}),
+  };
+}
@@ -0,0 +1,62 @@
+import { channelLineage, channelRules, discordChannelLookup, evaluateChannel } from './channel-permissions.js';
+import type { EntityContext } from './types.js';
+
+export interface EntityAccess {
+  allowedServerIds: Set<string>;
+  canAccessChannel(channelId: string): boolean;
+  isToolAllowedOnServer(serverId: string, tool: string): boolean;
+  serversAllowing(tool: string): Set<string>;
+  serverForChannel(channelId: string): string | null;
+}
+
+/**
+ * Compute what an entity may touch from its server configurations (admin ceiling + blocked channels).
+ * Shared by MCP tools, resources and prompts so all enforce identical channel and tool checks.
+ */
+export function createEntityAccess(ctx: Pick<EntityContext, 'entityServers' | 'discordClient' | 'toolScope'>): EntityAccess {
+  const { entityServers, discordClient, toolScope } = ctx;
+
+  // Per-server channel rules (admin ceiling + owner blocks), evaluated against the channel cache
+  const channelRulesByServer = new Map(entityServers.map(es => [es.server_id, channelRules(es)]));
+  const lookup = discordChannelLookup(discordClient);
+
+  const allowedServerIds = new Set(entityServers.map(es => es.server_id));
+
+  // Per-server tool whitelists set by the server admin (empty = all tools)
+  const serverTools = new Map<string, string[]>();
+  for (const es of entityServers) {
+    serverTools.set(es.server_id, JSON.parse(es.tools || '[]'));
+  }
+
+  function canAccessChannel(channelId: string): boolean {
+    const serverId = serverForChannel(channelId);
+    const rules = serverId ? channelRulesByServer.get(serverId) : undefined;
+    if (!rules) return false;
+    return evaluateChannel(rules, channelLineage(channelId, lookup), lookup(channelId)?.guildId ?? null) === 'allowed';
+  }
+
+  function isToolAllowedOnServer(serverId: string, tool: string): boolean {
+    // A scoped credential (e.g. a restricted API key) narrows every server's whitelist
+    if (toolScope && !toolScope.includes(tool)) return false;
+    const tools = serverTools.get(serverId);
+    if (!tools) return false;
+    return tools.length === 0 || tools.includes(tool);
+  }
+
+  /** Servers on which the admin whitelist allows this tool. */
+  function serversAllowing(tool: string): Set<string> {
+    return new Set(entityServers.filter(es => isToolAllowedOnServer(es.server_id, tool)).map(es => es.server_id));
+  }
+
+  /** Resolve the server a channel belongs to (cache first, then the explicit whitelists). */
+  function serverForChannel(channelId: string): string | null {
+    const guildId = lookup(channelId)?.guildId;
+    if (guildId) return guildId;
+    for (const rules of channelRulesByServer.values()) {
+      if (rules.ceiling.has(channelId)) return rules.serverId;
+    }
+    return null;
+  }
+
+  return { allowedServerIds, canAccessChannel, isToolAllowedOnServer, serversAllowing, serverForChannel };
+}
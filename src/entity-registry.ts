@@ -1,10 +1,16 @@
 import Database from 'better-sqlite3';
 import crypto from 'node:crypto';
 import { v4 as uuidv4 } from 'uuid';
-import { generateApiKey, generateSalt, hashApiKey, deriveEncryptionKey } from './crypto.js';
-import { keyStore } from './key-store.js';
+import { generateApiKey, generateSalt, hashApiKey, verifyApiKey, apiKeyPrefix, deriveQueuePrivateKey, queuePublicKey } from './crypto.js';
+import { channelRules, effectiveChannels, evaluateChannel } from './channel-permissions.js';
 import { logger } from './logger.js';
-import type { Entity, EntityServer, ServerRequest, ServerSettings, ServerTemplate, BugReport, BugReportMessage, OAuthAuthCode, OAuthAccessToken, OAuthRefreshToken, OAuthClient } from './types.js';
+import { DEFAULT_RATE_LIMITS, type RateLimits } from './rate-limiter.js';
+import type { Entity, EntityApiKey, EntityServer, ChannelSubscription, ServerRequest, ServerSettings, ServerTemplate, EntityPrompt, BugReport, BugReportMessage, OAuthAuthCode, OAuthAccessToken, OAuthRefreshToken, OAuthClient, OAuthSigningKey, ConnectedApp, AuditLogEntry, AuditLogFilter, PendingAction } from './types.js';
+
+/** Whether an API key is past its expiry. */
+export function isExpired(key: EntityApiKey): boolean {
+  return !!key.expires_at && new Date(key.expires_at).getTime() <= Date.now();
+}
 
 export class EntityRegistry {
   private db: Database.Database;
@@ -66,6 +72,17 @@ export class EntityRegistry {
       this.db.exec("ALTER TABLE entity_servers ADD COLUMN blocked_channels TEXT DEFAULT '[]'");
       logger.info('Migration: added blocked_channels column to entity_servers');
     }
+    if (!esCols.some(c => c.name === 'hear_entities')) {
+      this.db.exec("ALTER TABLE entity_servers ADD COLUMN hear_entities INTEGER DEFAULT 0");
+      this.db.exec("ALTER TABLE entity_servers ADD COLUMN max_reply_depth INTEGER DEFAULT 3");
+      this.db.exec("ALTER TABLE entity_servers ADD COLUMN reply_cooldown_seconds INTEGER DEFAULT 30");
+      this.db.exec("ALTER TABLE entity_servers ADD COLUMN hop_budget INTEGER DEFAULT 20");
+      logger.info('Migration: added loop guard columns to entity_servers');
+    }
+    if (!esCols.some(c => c.name === 'muted_until')) {
+      this.db.exec("ALTER TABLE entity_servers ADD COLUMN muted_until TEXT DEFAULT NULL");
+      logger.info('Migration: added muted_until column to entity_servers');
+    }
 
     const eCols = this.db.prepare("PRAGMA table_info(entities)").all() as Array<{ name: string }>;
     if (!eCols.some(c => c.name === 'owner_id')) {
@@ -100,6 +117,54 @@ export class EntityRegistry {
       this.db.exec("ALTER TABLE entities ADD COLUMN notify_on_trigger INTEGER DEFAULT 0");
       logger.info('Migration: added notify_on_trigger column to entities');
     }
+    if (!eCols.some(c => c.name === 'dm_intake')) {
+      this.db.exec("ALTER TABLE entities ADD COLUMN dm_intake INTEGER DEFAULT 0");
+      logger.info('Migration: added dm_intake column to entities');
+    }
+    if (!eCols.some(c => c.name === 'dm_allowlist')) {
+      this.db.exec("ALTER TABLE entities ADD COLUMN dm_allowlist TEXT DEFAULT '[]'");
+      logger.info('Migration: added dm_allowlist column to entities');
+    }
+
+    // Entity API keys (several named keys per entity, each with its own salt, expiry and scope)
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS entity_api_keys (
+        id           TEXT PRIMARY KEY,
+        entity_id    TEXT NOT NULL REFERENCES entities(id),
+        label        TEXT NOT NULL,
+        key_prefix   TEXT UNIQUE,
+        key_hash     TEXT NOT NULL,
+        key_salt     TEXT NOT NULL,
+        tools        TEXT DEFAULT '[]',
+        expires_at   TEXT,
+        last_used_at TEXT,
+        created_at   TEXT DEFAULT (datetime('now')),
+        revoked      INTEGER DEFAULT 0
+      );
+      CREATE INDEX IF NOT EXISTS idx_entity_api_keys_entity
+        ON entity_api_keys(entity_id);
+    `);
+
+    // Migration: move each entity's single api_key_hash into entity_api_keys (as a prefix-less legacy key)
+    const legacyKeys = this.db.prepare("SELECT id, api_key_hash, key_salt FROM entities WHERE api_key_hash != ''").all() as Array<{ id: string; api_key_hash: string; key_salt: string }>;
+    if (legacyKeys.length > 0) {
+      const insert = this.db.prepare(`
+        INSERT INTO entity_api_keys (id, entity_id, label, key_prefix, key_hash, key_salt)
+        VALUES (?, ?, 'Original key', NULL, ?, ?)
+      `);
+      this.db.transaction(() => {
+        for (const row of legacyKeys) insert.run(uuidv4(), row.id, row.api_key_hash, row.key_salt);
+        this.db.exec("UPDATE entities SET api_key_hash = '', key_salt = ''");
+      })();
+      logger.info(`Migration: moved ${legacyKeys.length} entity API key(s) into entity_api_keys`);
+    }
+
+    // Migration: X25519 queue public keys. Existing keys get theirs the next time they connect (see setApiKeyPublicKey)
+    const akCols = this.db.prepare("PRAGMA table_info(entity_api_keys)").all() as Array<{ name: string }>;
+    if (!akCols.some(c => c.name === 'public_key')) {
+      this.db.exec("ALTER TABLE entity_api_keys ADD COLUMN public_key TEXT DEFAULT NULL");
+      logger.info('Migration: added public_key column to entity_api_keys');
+    }
 
     // Server settings table (per-server admin config)
     this.db.exec(`
@@ -136,6 +201,71 @@ export class EntityRegistry {
       this.db.exec("ALTER TABLE server_settings ADD COLUMN announce_message TEXT DEFAULT NULL");
       logger.info('Migration: added announce_message column to server_settings');
     }
+    if (!ssCols.some(c => c.name === 'rate_limits')) {
+      this.db.exec("ALTER TABLE server_settings ADD COLUMN rate_limits TEXT DEFAULT '{}'");
+      logger.info('Migration: added rate_limits column to server_settings');
+    }
+    if (!ssCols.some(c => c.name === 'audit_channel')) {
+      this.db.exec("ALTER TABLE server_settings ADD COLUMN audit_channel TEXT DEFAULT NULL");
+      logger.info('Migration: added audit_channel column to server_settings');
+    }
+
+    if (!ssCols.some(c => c.name === 'approval_tools')) {
+      this.db.exec("ALTER TABLE server_settings ADD COLUMN approval_tools TEXT DEFAULT '[]'");
+      logger.info('Migration: added approval_tools column to server_settings');
+    }
+
+    // Tool calls waiting for a human decision
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS pending_actions (
+        id              TEXT PRIMARY KEY,
+        entity_id       TEXT NOT NULL,
+        server_id       TEXT NOT NULL,
+        tool            TEXT NOT NULL,
+        args            TEXT NOT NULL DEFAULT '{}',
+        status          TEXT NOT NULL DEFAULT 'pending',
+        result          TEXT,
+        decided_by      TEXT,
+        decided_by_name TEXT,
+        created_at      TEXT DEFAULT (datetime('now')),
+        decided_at      TEXT,
+        expires_at      TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_pending_actions_status ON pending_actions(status);
+    `);
+
+    // Audit log of mutating MCP tool calls (IDs only, never content)
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS audit_log (
+        id          INTEGER PRIMARY KEY AUTOINCREMENT,
+        server_id   TEXT,
+        entity_id   TEXT NOT NULL,
+        tool        TEXT NOT NULL,
+        channel_id  TEXT,
+        target_ids  TEXT DEFAULT '{}',
+        result      TEXT NOT NULL,
+        error       TEXT,
+        created_at  TEXT DEFAULT (datetime('now'))
+      );
+      CREATE INDEX IF NOT EXISTS idx_audit_log_server ON audit_log(server_id, id);
+    `);
+
+    // Which entity a user's DMs to the bot go to (last entity that DMed them, or their pick)
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS dm_targets (
+        user_id    TEXT PRIMARY KEY,
+        entity_id  TEXT NOT NULL,
+        updated_at TEXT DEFAULT (datetime('now'))
+      );
+    `);
+
+    // Operator-wide settings (key → JSON value)
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS app_settings (
+        key   TEXT PRIMARY KEY,
+        value TEXT NOT NULL
+      );
+    `);
 
     // Server templates table (custom role templates per server)
     this.db.exec(`
@@ -151,6 +281,19 @@ export class EntityRegistry {
         ON server_templates(server_id);
     `);
 
+    // Entity prompt templates (owner-defined MCP prompts)
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS entity_prompts (
+        id          TEXT PRIMARY KEY,
+        entity_id   TEXT NOT NULL REFERENCES entities(id),
+        name        TEXT NOT NULL,
+        description TEXT,
+        template    TEXT NOT NULL,
+        created_at  TEXT DEFAULT (datetime('now')),
+        UNIQUE (entity_id, name)
+      );
+    `);
+
     // Banned servers table (operator can ban servers so bot auto-leaves on rejoin)
     this.db.exec(`
       CREATE TABLE IF NOT EXISTS banned_servers (
@@ -214,6 +357,35 @@ export class EntityRegistry {
       );
     `);
 
+    const rtCols = this.db.prepare("PRAGMA table_info(oauth_refresh_tokens)").all() as Array<{ name: string }>;
+    if (!rtCols.some(c => c.name === 'scope')) {
+      this.db.exec("ALTER TABLE oauth_refresh_tokens ADD COLUMN scope TEXT NOT NULL DEFAULT 'mcp'");
+      logger.info('Migration: added scope column to oauth_refresh_tokens');
+    }
+    if (!rtCols.some(c => c.name === 'grant_id')) {
+      // Grants issued before queue keys get a keypair on their next refresh
+      this.db.exec("ALTER TABLE oauth_refresh_tokens ADD COLUMN grant_id TEXT DEFAULT NULL");
+      this.db.exec("ALTER TABLE oauth_refresh_tokens ADD COLUMN public_key TEXT DEFAULT NULL");
+      logger.info('Migration: added grant_id and public_key columns to oauth_refresh_tokens');
+    }
+
+    const atCols = this.db.prepare("PRAGMA table_info(oauth_access_tokens)").all() as Array<{ name: string }>;
+    if (!atCols.some(c => c.name === 'last_used_at')) {
+      this.db.exec("ALTER TABLE oauth_access_tokens ADD COLUMN last_used_at TEXT DEFAULT NULL");
+      logger.info('Migration: added last_used_at column to oauth_access_tokens');
+    }
+
+    // ES256 keys that sign OAuth access tokens — retired keys stay until their last token expires
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS oauth_signing_keys (
+        kid               TEXT PRIMARY KEY,
+        private_key       TEXT NOT NULL,
+        public_key        TEXT NOT NULL,
+        created_at        TEXT DEFAULT (datetime('now')),
+        retired_at        TEXT DEFAULT NULL
+      );
+    `);
+
     // Bug reports table
     this.db.exec(`
       CREATE TABLE IF NOT EXISTS bug_reports (
@@ -257,18 +429,14 @@ export class EntityRegistry {
    */
   async createEntity(name: string, avatarUrl?: string): Promise<{ entity: Entity; apiKey: string }> {
     const id = uuidv4();
-    const apiKey = generateApiKey();
-    const salt = generateSalt();
-    const hash = await hashApiKey(apiKey);
 
+    // api_key_hash / key_salt are legacy columns — keys live in entity_api_keys
     this.db.prepare(`
       INSERT INTO entities (id, name, avatar_url, api_key_hash, key_salt)
-      VALUES (?, ?, ?, ?, ?)
-    `).run(id, name, avatarUrl ?? null, hash, salt);
+      VALUES (?, ?, ?, '', '')
+    `).run(id, name, avatarUrl ?? null);
 
-    // Cache encryption key in volatile store (available immediately for message encryption)
-    const encKey = deriveEncryptionKey(apiKey, salt);
-    keyStore.set(id, encKey);
+    const { apiKey } = await this.createApiKey(id, 'Default key');
 
     const entity = this.getEntity(id)!;
     logger.info(`Entity created: ${name} (${id})`);
@@ -295,7 +463,6 @@ export class EntityRegistry {
   deactivateEntity(id: string): boolean {
     const result = this.db.prepare('UPDATE entities SET active = 0 WHERE id = ?').run(id);
     if (result.changes > 0) {
-      keyStore.delete(id);
       logger.info(`Entity deactivated: ${id}`);
       return true;
     }
@@ -303,26 +470,121 @@ export class EntityRegistry {
   }
 
   /**
-   * Regenerate an entity's API key. Returns the new raw key.
+   * Regenerate an entity's API key: revokes every existing key and issues a single new one.
+   * Returns the new raw key. Use createApiKey/revokeApiKey to rotate keys one client at a time.
    */
   async regenerateKey(id: string): Promise<string | null> {
     const entity = this.getEntity(id);
     if (!entity) return null;
 
-    const apiKey = generateApiKey();
+    this.db.prepare('UPDATE entity_api_keys SET revoked = 1 WHERE entity_id = ?').run(id);
+    const { apiKey } = await this.createApiKey(id, 'Default key');
+
+    logger.info(`API key regenerated for entity: ${id}`);
+    return apiKey;
+  }
+
+  // --- API keys ---
+
+  /**
+   * Create a named API key for an entity. Returns the key record and the raw key (shown once).
+   */
+  async createApiKey(
+    entityId: string, label: string, expiresAt: string | null = null, tools: string[] = []
+  ): Promise<{ key: EntityApiKey; apiKey: string }> {
+    const id = uuidv4();
+    const { apiKey, prefix } = generateApiKey();
     const salt = generateSalt();
     const hash = await hashApiKey(apiKey);
+    // Only the public half is stored — queued messages are sealed to it from now on
+    const publicKey = queuePublicKey(deriveQueuePrivateKey(apiKey, salt)).toString('base64');
 
     this.db.prepare(`
-      UPDATE entities SET api_key_hash = ?, key_salt = ? WHERE id = ?
-    `).run(hash, salt, id);
+      INSERT INTO entity_api_keys (id, entity_id, label, key_prefix, key_hash, key_salt, public_key, tools, expires_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(id, entityId, label, prefix, hash, salt, publicKey, JSON.stringify(tools), expiresAt);
 
-    // Update encryption key in volatile store
-    const encKey = deriveEncryptionKey(apiKey, salt);
-    keyStore.set(id, encKey);
+    logger.info(`API key created for entity ${entityId}: ${label} (${id})`);
+    return { key: this.getApiKey(id)!, apiKey };
+  }
 
-    logger.info(`API key regenerated for entity: ${id}`);
-    return apiKey;
+  getApiKey(keyId: string): EntityApiKey | null {
+    return this.db.prepare('SELECT * FROM entity_api_keys WHERE id = ?').get(keyId) as EntityApiKey | null;
+  }
+
+  /**
+   * Active (non-revoked) API keys for an entity, including expired ones.
+   */
+  getApiKeys(entityId: string): EntityApiKey[] {
+    return this.db.prepare(
+      'SELECT * FROM entity_api_keys WHERE entity_id = ? AND revoked = 0 ORDER BY created_at'
+    ).all(entityId) as EntityApiKey[];
+  }
+
+  /**
+   * Find the API key record a raw key belongs to. Prefixed keys are looked up directly;
+   * legacy (prefix-less) keys are bcrypt-compared against the entity's legacy keys.
+   * Returns null for unknown, revoked or expired keys.
+   */
+  async verifyEntityApiKey(entityId: string, apiKey: string): Promise<EntityApiKey | null> {
+    const prefix = apiKeyPrefix(apiKey);
+    const candidates = prefix
+      ? [this.db.prepare('SELECT * FROM entity_api_keys WHERE key_prefix = ?').get(prefix) as EntityApiKey | undefined]
+      : this.db.prepare('SELECT * FROM entity_api_keys WHERE entity_id = ? AND key_prefix IS NULL').all(entityId) as EntityApiKey[];
+
+    for (const key of candidates) {
+      if (!key || key.entity_id !== entityId || key.revoked || isExpired(key)) continue;
+      if (await verifyApiKey(apiKey, key.key_hash)) return key;
+    }
+    return null;
+  }
+
+  /** Record that a key was used (at most once a minute, to keep writes off the request path). */
+  touchApiKey(keyId: string): void {
+    this.db.prepare(`
+      UPDATE entity_api_keys SET last_used_at = datetime('now')
+      WHERE id = ? AND (last_used_at IS NULL OR last_used_at < datetime('now', '-1 minute'))
+    `).run(keyId);
+  }
+
+  /** Record the queue public key of a key created before queue keys existed (derived when it connects). */
+  setApiKeyPublicKey(keyId: string, publicKey: string): void {
+    const result = this.db.prepare('UPDATE entity_api_keys SET public_key = ? WHERE id = ? AND public_key IS NULL').run(publicKey, keyId);
+    if (result.changes > 0) logger.info(`Migration: recorded queue public key for API key ${keyId}`);
+  }
+
+  /** Whether the entity has live API keys with no queue public key yet (migrated keys that haven't connected since). */
+  hasUnkeyedApiKeys(entityId: string): boolean {
+    return !!this.db.prepare(`
+      SELECT 1 FROM entity_api_keys
+        WHERE entity_id = ? AND revoked = 0 AND public_key IS NULL AND (expires_at IS NULL OR expires_at > ?)
+        LIMIT 1
+    `).get(entityId, new Date().toISOString());
+  }
+
+  /**
+   * Everyone queued messages for an entity are sealed to: live API keys and live OAuth grants
+   * that have a queue public key (recipient ID → raw X25519 public key).
+   */
+  getQueueRecipients(entityId: string): Map<string, Buffer> {
+    const now = new Date().toISOString();
+    const rows = this.db.prepare(`
+      SELECT id AS recipient_id, public_key FROM entity_api_keys
+        WHERE entity_id = ? AND revoked = 0 AND public_key IS NOT NULL AND (expires_at IS NULL OR expires_at > ?)
+      UNION
+      SELECT grant_id AS recipient_id, public_key FROM oauth_refresh_tokens
+        WHERE entity_id = ? AND revoked = 0 AND grant_id IS NOT NULL AND public_key IS NOT NULL AND expires_at > ?
+    `).all(entityId, now, entityId, now) as Array<{ recipient_id: string; public_key: string }>;
+    return new Map(rows.map(row => [row.recipient_id, Buffer.from(row.public_key, 'base64')]));
+  }
+
+  revokeApiKey(keyId: string): boolean {
+    const key = this.getApiKey(keyId);
+    if (!key) return false;
+    const result = this.db.prepare('UPDATE entity_api_keys SET revoked = 1 WHERE id = ? AND revoked = 0').run(keyId);
+    if (result.changes === 0) return false;
+    logger.info(`API key revoked for entity ${key.entity_id}: ${key.label} (${keyId})`);
+    return true;
   }
 
   /**
@@ -394,21 +656,20 @@ export class EntityRegistry {
 
   /**
    * HOT PATH — called on every incoming message.
-   * Find all active entities subscribed to a given server+channel.
+   * Find all active entities that may see a channel on a server. `lineage` is the channel followed by what it
+   * inherits from (thread parent, category) — see channelLineage.
    */
-  getEntitiesForChannel(serverId: string, channelId: string): Array<Entity & { channels: string; tools: string; blocked_channels: string; watch_channels: string }> {
+  getEntitiesForChannel(serverId: string, lineage: string[]): Array<Entity & ChannelSubscription> {
     const rows = this.db.prepare(`
-      SELECT e.*, es.channels, es.tools, es.blocked_channels, es.watch_channels
+      SELECT e.*, es.server_id, es.channels, es.dedicated_channels, es.tools, es.blocked_channels, es.watch_channels,
+        es.hear_entities, es.max_reply_depth, es.reply_cooldown_seconds, es.hop_budget
       FROM entities e
       JOIN entity_servers es ON e.id = es.entity_id
       WHERE e.active = 1 AND es.server_id = ?
-    `).all(serverId) as Array<Entity & { channels: string; tools: string; blocked_channels: string; watch_channels: string }>;
+    `).all(serverId) as Array<Entity & ChannelSubscription>;
 
-    // Filter: entity sees this channel if channels array is empty (all) or includes channelId
-    return rows.filter(row => {
-      const channels: string[] = JSON.parse(row.channels);
-      return channels.length === 0 || channels.includes(channelId);
-    });
+    // Same evaluator as the MCP tools: blocked channels drop out, then the admin ceiling applies
+    return rows.filter(row => evaluateChannel(channelRules(row), lineage, serverId) === 'allowed');
   }
 
   // --- Dashboard methods ---
@@ -451,12 +712,14 @@ export class EntityRegistry {
     triggers?: string[];
     notifyOnMention?: boolean;
     notifyOnTrigger?: boolean;
+    dmIntake?: boolean;
+    dmAllowlist?: string[];
   }): boolean {
     const entity = this.getEntity(entityId);
     if (!entity) return false;
 
     this.db.prepare(
-      'UPDATE entities SET name = ?, avatar_url = ?, description = ?, accent_color = ?, platform = ?, triggers = ?, notify_on_mention = ?, notify_on_trigger = ? WHERE id = ?'
+      'UPDATE entities SET name = ?, avatar_url = ?, description = ?, accent_color = ?, platform = ?, triggers = ?, notify_on_mention = ?, notify_on_trigger = ?, dm_intake = ?, dm_allowlist = ? WHERE id = ?'
     ).run(
       fields.name ?? entity.name,
       fields.avatarUrl !== undefined ? fields.avatarUrl : entity.avatar_url,
@@ -466,6 +729,8 @@ export class EntityRegistry {
       fields.triggers !== undefined ? JSON.stringify(fields.triggers) : entity.triggers,
       fields.notifyOnMention !== undefined ? (fields.notifyOnMention ? 1 : 0) : entity.notify_on_mention,
       fields.notifyOnTrigger !== undefined ? (fields.notifyOnTrigger ? 1 : 0) : entity.notify_on_trigger,
+      fields.dmIntake !== undefined ? (fields.dmIntake ? 1 : 0) : entity.dm_intake,
+      fields.dmAllowlist !== undefined ? JSON.stringify(fields.dmAllowlist) : entity.dm_allowlist,
       entityId,
     );
     return true;
@@ -474,13 +739,14 @@ export class EntityRegistry {
   /**
    * Get all entities on a specific server (with owner info).
    */
-  getEntitiesForServer(serverId: string): Array<Entity & { channels: string; tools: string; watch_channels: string; blocked_channels: string; role_id: string | null; template_id: string | null; dedicated_channels: string }> {
+  getEntitiesForServer(serverId: string): Array<Entity & { server_id: string; channels: string; tools: string; watch_channels: string; blocked_channels: string; role_id: string | null; template_id: string | null; dedicated_channels: string; muted_until: string | null }> {
     return this.db.prepare(`
-      SELECT e.*, es.channels, es.tools, es.watch_channels, es.blocked_channels, es.role_id, es.template_id, es.dedicated_channels
+      SELECT e.*, es.server_id, es.channels, es.tools, es.watch_channels, es.blocked_channels, es.role_id, es.template_id, es.dedicated_channels,
+        es.muted_until
       FROM entities e
       JOIN entity_servers es ON e.id = es.entity_id
       WHERE es.server_id = ? AND e.active = 1
-    `).all(serverId) as Array<Entity & { channels: string; tools: string; watch_channels: string; blocked_channels: string; role_id: string | null; template_id: string | null; dedicated_channels: string }>;
+    `).all(serverId) as Array<Entity & { server_id: string; channels: string; tools: string; watch_channels: string; blocked_channels: string; role_id: string | null; template_id: string | null; dedicated_channels: string; muted_until: string | null }>;
   }
 
   /**
@@ -562,7 +828,7 @@ export class EntityRegistry {
 
   /**
    * Propagate template changes to all bound entities on a server.
-   * Recomputes each entity's channels = template.channels + entity.dedicated_channels.
+   * Recomputes each entity's channels = template.channels + entity.dedicated_channels (an all-channels template stays all).
    */
   propagateTemplate(templateId: string, templateChannels: string[], templateTools: string[]): number {
     const bound = this.db.prepare(
@@ -571,8 +837,7 @@ export class EntityRegistry {
 
     let count = 0;
     for (const es of bound) {
-      const dedicated: string[] = JSON.parse(es.dedicated_channels || '[]');
-      const merged = [...new Set([...templateChannels, ...dedicated])];
+      const merged = effectiveChannels(templateChannels, JSON.parse(es.dedicated_channels || '[]'));
       this.db.prepare(`
         UPDATE entity_servers SET channels = ?, tools = ?
         WHERE entity_id = ? AND server_id = ?
@@ -587,20 +852,51 @@ export class EntityRegistry {
   }
 
   /**
-   * Update entity-server owner config (watch_channels, blocked_channels).
+   * Mute (until a time) or unmute an entity on a server. Returns false if the entity isn't on it.
+   */
+  setEntityMute(entityId: string, serverId: string, until: Date | null): boolean {
+    const result = this.db.prepare(
+      'UPDATE entity_servers SET muted_until = ? WHERE entity_id = ? AND server_id = ?'
+    ).run(until ? until.toISOString() : null, entityId, serverId);
+    return result.changes > 0;
+  }
+
+  /**
+   * When an entity's mute on a server ends (ISO string), or null if it isn't muted there.
    */
-  updateEntityServerOwnerConfig(entityId: string, serverId: string, watchChannels?: string[], blockedChannels?: string[]): boolean {
+  getEntityMute(entityId: string, serverId: string): string | null {
+    const row = this.db.prepare(
+      'SELECT muted_until FROM entity_servers WHERE entity_id = ? AND server_id = ?'
+    ).get(entityId, serverId) as { muted_until: string | null } | undefined;
+    if (!row?.muted_until || row.muted_until <= new Date().toISOString()) return null;
+    return row.muted_until;
+  }
+
+  /**
+   * Update entity-server owner config (watch_channels, blocked_channels, entity hearing + loop guards).
+   */
+  updateEntityServerOwnerConfig(entityId: string, serverId: string, watchChannels?: string[], blockedChannels?: string[], loop?: {
+    hearEntities?: boolean;
+    maxReplyDepth?: number;
+    replyCooldownSeconds?: number;
+    hopBudget?: number;
+  }): boolean {
     const existing = this.db.prepare(
       'SELECT * FROM entity_servers WHERE entity_id = ? AND server_id = ?'
     ).get(entityId, serverId) as EntityServer | undefined;
     if (!existing) return false;
 
     this.db.prepare(`
-      UPDATE entity_servers SET watch_channels = ?, blocked_channels = ?
+      UPDATE entity_servers SET watch_channels = ?, blocked_channels = ?,
+        hear_entities = ?, max_reply_depth = ?, reply_cooldown_seconds = ?, hop_budget = ?
       WHERE entity_id = ? AND server_id = ?
     `).run(
       watchChannels !== undefined ? JSON.stringify(watchChannels) : existing.watch_channels,
       blockedChannels !== undefined ? JSON.stringify(blockedChannels) : existing.blocked_channels,
+      loop?.hearEntities !== undefined ? (loop.hearEntities ? 1 : 0) : existing.hear_entities,
+      loop?.maxReplyDepth ?? existing.max_reply_depth,
+      loop?.replyCooldownSeconds ?? existing.reply_cooldown_seconds,
+      loop?.hopBudget ?? existing.hop_budget,
       entityId, serverId
     );
     return true;
@@ -613,30 +909,202 @@ export class EntityRegistry {
    */
   getServerSettings(serverId: string): ServerSettings {
     const row = this.db.prepare('SELECT * FROM server_settings WHERE server_id = ?').get(serverId) as ServerSettings | undefined;
-    return row || { server_id: serverId, announce_channel: null, announce_message: null, default_template: null };
+    return row || { server_id: serverId, announce_channel: null, announce_message: null, default_template: null, rate_limits: '{}', audit_channel: null, approval_tools: '[]' };
   }
 
   /**
    * Update server-level settings (upsert).
    */
-  updateServerSettings(serverId: string, settings: { announce_channel?: string | null; announce_message?: string | null; default_template?: string | null }): ServerSettings {
+  updateServerSettings(serverId: string, settings: { announce_channel?: string | null; announce_message?: string | null; default_template?: string | null; rate_limits?: RateLimits; audit_channel?: string | null; approval_tools?: string[] }): ServerSettings {
     const existing = this.getServerSettings(serverId);
     this.db.prepare(`
-      INSERT INTO server_settings (server_id, announce_channel, announce_message, default_template)
-      VALUES (?, ?, ?, ?)
+      INSERT INTO server_settings (server_id, announce_channel, announce_message, default_template, rate_limits, audit_channel, approval_tools)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
       ON CONFLICT(server_id) DO UPDATE SET
         announce_channel = excluded.announce_channel,
         announce_message = excluded.announce_message,
-        default_template = excluded.default_template
+        default_template = excluded.default_template,
+        rate_limits = excluded.rate_limits,
+        audit_channel = excluded.audit_channel,
+        approval_tools = excluded.approval_tools
     `).run(
       serverId,
       settings.announce_channel !== undefined ? settings.announce_channel : existing.announce_channel,
       settings.announce_message !== undefined ? settings.announce_message : existing.announce_message,
       settings.default_template !== undefined ? settings.default_template : existing.default_template,
+      settings.rate_limits !== undefined ? JSON.stringify(settings.rate_limits) : existing.rate_limits,
+      settings.audit_channel !== undefined ? settings.audit_channel : existing.audit_channel,
+      settings.approval_tools !== undefined ? JSON.stringify(settings.approval_tools) : existing.approval_tools,
     );
     return this.getServerSettings(serverId);
   }
 
+  /**
+   * Per-entity rate limits a server admin set for this server. Categories without a limit are absent.
+   */
+  getServerRateLimits(serverId: string): RateLimits {
+    return JSON.parse(this.getServerSettings(serverId).rate_limits || '{}');
+  }
+
+  // --- Audit Log ---
+
+  addAuditEntry(entry: Omit<AuditLogEntry, 'id' | 'entity_name' | 'created_at'>): void {
+    this.db.prepare(`
+      INSERT INTO audit_log (server_id, entity_id, tool, channel_id, target_ids, result, error)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `).run(entry.server_id, entry.entity_id, entry.tool, entry.channel_id, entry.target_ids, entry.result, entry.error);
+  }
+
+  /**
+   * Audit entries for a server, newest first. Page with `before_id` (the last ID of the previous page).
+   */
+  getAuditLog(serverId: string, filter: AuditLogFilter = {}): AuditLogEntry[] {
+    const where = ['a.server_id = ?'];
+    const params: Array<string | number> = [serverId];
+    if (filter.entity_id) { where.push('a.entity_id = ?'); params.push(filter.entity_id); }
+    if (filter.tool) { where.push('a.tool = ?'); params.push(filter.tool); }
+    if (filter.channel_id) { where.push('a.channel_id = ?'); params.push(filter.channel_id); }
+    if (filter.result) { where.push('a.result = ?'); params.push(filter.result); }
+    if (filter.since) { where.push('a.created_at >= ?'); params.push(filter.since); }
+    if (filter.until) { where.push('a.created_at < ?'); params.push(filter.until); }
+    if (filter.before_id) { where.push('a.id < ?'); params.push(filter.before_id); }
+    params.push(Math.min(Math.max(filter.limit ?? 50, 1), 200));
+    return this.db.prepare(`
+      SELECT a.*, COALESCE(e.name, a.entity_id) AS entity_name
+      FROM audit_log a LEFT JOIN entities e ON e.id = a.entity_id
+      WHERE ${where.join(' AND ')}
+      ORDER BY a.id DESC
+      LIMIT ?
+    `).all(...params) as AuditLogEntry[];
+  }
+
+  // --- Pending Actions ---
+
+  createPendingAction(entityId: string, serverId: string, tool: string, args: Record<string, unknown>, ttlSeconds: number): PendingAction {
+    const id = uuidv4();
+    this.db.prepare(`
+      INSERT INTO pending_actions (id, entity_id, server_id, tool, args, expires_at)
+      VALUES (?, ?, ?, ?, ?, datetime('now', ?))
+    `).run(id, entityId, serverId, tool, JSON.stringify(args), `+${ttlSeconds} seconds`);
+    return this.getPendingAction(id)!;
+  }
+
+  getPendingAction(id: string): PendingAction | null {
+    return (this.db.prepare(`
+      SELECT p.*, COALESCE(e.name, p.entity_id) AS entity_name
+      FROM pending_actions p LEFT JOIN entities e ON e.id = p.entity_id
+      WHERE p.id = ?
+    `).get(id) as PendingAction | undefined) ?? null;
+  }
+
+  /**
+   * Actions on the given servers or by the given entities, newest first.
+   */
+  listPendingActions(filter: { serverIds?: string[]; entityIds?: string[]; status?: string; limit?: number }): PendingAction[] {
+    const scopes: string[] = [];
+    const params: Array<string | number> = [];
+    if (filter.serverIds) {
+      scopes.push(`p.server_id IN (${filter.serverIds.map(() => '?').join(',') || 'NULL'})`);
+      params.push(...filter.serverIds);
+    }
+    if (filter.entityIds) {
+      scopes.push(`p.entity_id IN (${filter.entityIds.map(() => '?').join(',') || 'NULL'})`);
+      params.push(...filter.entityIds);
+    }
+    const where = scopes.length > 0 ? [`(${scopes.join(' OR ')})`] : [];
+    if (filter.status) {
+      where.push('p.status = ?');
+      params.push(filter.status);
+    }
+    params.push(filter.limit ?? 100);
+    return this.db.prepare(`
+      SELECT p.*, COALESCE(e.name, p.entity_id) AS entity_name
+      FROM pending_actions p LEFT JOIN entities e ON e.id = p.entity_id
+      ${where.length > 0 ? `WHERE ${where.join(' AND ')}` : ''}
+      ORDER BY p.created_at DESC, p.rowid DESC
+      LIMIT ?
+    `).all(...params) as PendingAction[];
+  }
+
+  /**
+   * Move a pending action to approved/denied. Returns false if it was already decided or has expired,
+   * so two approvers clicking at once can't both run it.
+   */
+  decidePendingAction(id: string, status: 'approved' | 'denied', decidedBy: string, decidedByName: string): boolean {
+    const result = this.db.prepare(`
+      UPDATE pending_actions SET status = ?, decided_by = ?, decided_by_name = ?, decided_at = datetime('now')
+      WHERE id = ? AND status = 'pending' AND expires_at > datetime('now')
+    `).run(status, decidedBy, decidedByName, id);
+    return result.changes > 0;
+  }
+
+  finishPendingAction(id: string, status: 'executed' | 'failed', result: string): void {
+    this.db.prepare('UPDATE pending_actions SET status = ?, result = ? WHERE id = ?').run(status, result, id);
+  }
+
+  /**
+   * Expire pending actions past their deadline — or all of them (e.g. at startup, when their executors are gone).
+   * Returns the expired IDs.
+   */
+  expirePendingActions(reason: string, all = false): string[] {
+    const rows = this.db.prepare(
+      `SELECT id FROM pending_actions WHERE status = 'pending'${all ? '' : " AND expires_at <= datetime('now')"}`
+    ).all() as Array<{ id: string }>;
+    const stmt = this.db.prepare("UPDATE pending_actions SET status = 'expired', result = ? WHERE id = ? AND status = 'pending'");
+    this.db.transaction(() => {
+      for (const { id } of rows) stmt.run(reason, id);
+    })();
+    return rows.map(r => r.id);
+  }
+
+  // --- Direct Messages ---
+
+  /**
+   * Active entities that take DMs (dm_intake on). Whether a given user may DM one is up to DmRouter.
+   */
+  getDmEntities(): Entity[] {
+    return this.db.prepare(
+      'SELECT * FROM entities WHERE active = 1 AND dm_intake = 1 ORDER BY name'
+    ).all() as Entity[];
+  }
+
+  /**
+   * The entity a user's DMs currently go to, or null.
+   */
+  getDmTarget(userId: string): string | null {
+    const row = this.db.prepare('SELECT entity_id FROM dm_targets WHERE user_id = ?').get(userId) as { entity_id: string } | undefined;
+    return row?.entity_id ?? null;
+  }
+
+  /**
+   * Point a user's DMs at an entity (it DMed them, or they picked it).
+   */
+  setDmTarget(userId: string, entityId: string): void {
+    this.db.prepare(`
+      INSERT INTO dm_targets (user_id, entity_id, updated_at) VALUES (?, ?, datetime('now'))
+      ON CONFLICT(user_id) DO UPDATE SET entity_id = excluded.entity_id, updated_at = excluded.updated_at
+    `).run(userId, entityId);
+  }
+
+  // --- Operator Settings ---
+
+  /**
+   * Entity-wide rate limits: the operator's overrides merged over the defaults. null means unlimited.
+   */
+  getOperatorRateLimits(): RateLimits {
+    const row = this.db.prepare("SELECT value FROM app_settings WHERE key = 'rate_limits'").get() as { value: string } | undefined;
+    return { ...DEFAULT_RATE_LIMITS, ...(row ? JSON.parse(row.value) : {}) };
+  }
+
+  setOperatorRateLimits(limits: RateLimits): RateLimits {
+    this.db.prepare(`
+      INSERT INTO app_settings (key, value) VALUES ('rate_limits', ?)
+      ON CONFLICT(key) DO UPDATE SET value = excluded.value
+    `).run(JSON.stringify({ ...this.getOperatorRateLimits(), ...limits }));
+    logger.info('Operator rate limits updated');
+    return this.getOperatorRateLimits();
+  }
+
   // --- Server Templates ---
 
   getServerTemplates(serverId: string): ServerTemplate[] {
@@ -677,6 +1145,46 @@ export class EntityRegistry {
     return result.changes > 0;
   }
 
+  // --- Entity Prompts ---
+
+  getEntityPrompts(entityId: string): EntityPrompt[] {
+    return this.db.prepare(
+      'SELECT * FROM entity_prompts WHERE entity_id = ? ORDER BY name'
+    ).all(entityId) as EntityPrompt[];
+  }
+
+  getEntityPrompt(promptId: string): EntityPrompt | null {
+    return this.db.prepare('SELECT * FROM entity_prompts WHERE id = ?').get(promptId) as EntityPrompt | null;
+  }
+
+  createEntityPrompt(entityId: string, name: string, description: string | null, template: string): EntityPrompt {
+    const id = uuidv4();
+    this.db.prepare(`
+      INSERT INTO entity_prompts (id, entity_id, name, description, template)
+      VALUES (?, ?, ?, ?, ?)
+    `).run(id, entityId, name, description, template);
+    return this.getEntityPrompt(id)!;
+  }
+
+  updateEntityPrompt(promptId: string, fields: { name?: string; description?: string | null; template?: string }): EntityPrompt | null {
+    const existing = this.getEntityPrompt(promptId);
+    if (!existing) return null;
+    this.db.prepare(`
+      UPDATE entity_prompts SET name = ?, description = ?, template = ? WHERE id = ?
+    `).run(
+      fields.name ?? existing.name,
+      fields.description !== undefined ? fields.description : existing.description,
+      fields.template ?? existing.template,
+      promptId
+    );
+    return this.getEntityPrompt(promptId)!;
+  }
+
+  deleteEntityPrompt(promptId: string): boolean {
+    const result = this.db.prepare('DELETE FROM entity_prompts WHERE id = ?').run(promptId);
+    return result.changes > 0;
+  }
+
   /**
    * Hard delete an entity and all its server associations.
    */
@@ -686,7 +1194,9 @@ export class EntityRegistry {
     this.db.prepare('DELETE FROM oauth_auth_codes WHERE entity_id = ?').run(entityId);
     this.db.prepare('DELETE FROM entity_servers WHERE entity_id = ?').run(entityId);
     this.db.prepare('DELETE FROM server_requests WHERE entity_id = ?').run(entityId);
-    keyStore.delete(entityId);
+    this.db.prepare('DELETE FROM entity_prompts WHERE entity_id = ?').run(entityId);
+    this.db.prepare('DELETE FROM entity_api_keys WHERE entity_id = ?').run(entityId);
+    this.db.prepare('DELETE FROM dm_targets WHERE entity_id = ?').run(entityId);
     const result = this.db.prepare('DELETE FROM entities WHERE id = ?').run(entityId);
     return result.changes > 0;
   }
@@ -730,13 +1240,92 @@ export class EntityRegistry {
     this.db.prepare('UPDATE oauth_access_tokens SET revoked = 1 WHERE jti = ?').run(jti);
   }
 
-  createRefreshToken(entityId: string, discordUserId: string, clientId: string, accessTokenJti: string): OAuthRefreshToken {
+  getAccessToken(jti: string): OAuthAccessToken | null {
+    return this.db.prepare('SELECT * FROM oauth_access_tokens WHERE jti = ?').get(jti) as OAuthAccessToken | null;
+  }
+
+  /** Record that an access token was used (at most once a minute). */
+  touchAccessToken(jti: string): void {
+    this.db.prepare(`
+      UPDATE oauth_access_tokens SET last_used_at = datetime('now')
+      WHERE jti = ? AND (last_used_at IS NULL OR last_used_at < datetime('now', '-1 minute'))
+    `).run(jti);
+  }
+
+  getRefreshToken(token: string): OAuthRefreshToken | null {
+    return this.db.prepare('SELECT * FROM oauth_refresh_tokens WHERE token = ?').get(token) as OAuthRefreshToken | null;
+  }
+
+  /**
+   * Revoke an access token together with the refresh token issued alongside it (RFC 7009 grant revocation).
+   */
+  revokeAccessTokenGrant(jti: string): void {
+    this.db.transaction(() => {
+      this.revokeAccessToken(jti);
+      this.db.prepare('UPDATE oauth_refresh_tokens SET revoked = 1 WHERE access_token_jti = ?').run(jti);
+    })();
+  }
+
+  /**
+   * Revoke a refresh token and the access token issued alongside it.
+   */
+  revokeRefreshTokenGrant(token: string): void {
+    const row = this.getRefreshToken(token);
+    if (!row) return;
+    this.revokeAccessTokenGrant(row.access_token_jti);
+  }
+
+  /**
+   * OAuth clients holding unrevoked, unexpired access or refresh tokens for an entity.
+   */
+  getConnectedApps(entityId: string): ConnectedApp[] {
+    const now = new Date().toISOString();
+    return this.db.prepare(`
+      SELECT t.client_id, c.client_name,
+        SUM(t.kind = 'access') AS active_access_tokens,
+        SUM(t.kind = 'refresh') AS active_refresh_tokens,
+        MAX(t.issued_at) AS authorized_at,
+        t.scope,  -- SQLite takes bare columns from the MAX() row: the latest grant's scope
+        (SELECT MAX(a.last_used_at) FROM oauth_access_tokens a
+         WHERE a.entity_id = ? AND a.client_id = t.client_id) AS last_used_at
+      FROM (
+        SELECT client_id, 'access' AS kind, issued_at, scope FROM oauth_access_tokens
+          WHERE entity_id = ? AND revoked = 0 AND expires_at > ?
+        UNION ALL
+        SELECT client_id, 'refresh' AS kind, created_at AS issued_at, scope FROM oauth_refresh_tokens
+          WHERE entity_id = ? AND revoked = 0 AND expires_at > ?
+      ) t
+      LEFT JOIN oauth_clients c ON c.client_id = t.client_id
+      GROUP BY t.client_id
+      ORDER BY authorized_at DESC
+    `).all(entityId, entityId, now, entityId, now) as ConnectedApp[];
+  }
+
+  /**
+   * Revoke every access and refresh token a client holds for an entity. Returns how many were revoked.
+   */
+  revokeClientTokens(entityId: string, clientId: string): number {
+    return this.db.transaction(() => {
+      const access = this.db.prepare(
+        'UPDATE oauth_access_tokens SET revoked = 1 WHERE entity_id = ? AND client_id = ? AND revoked = 0'
+      ).run(entityId, clientId);
+      const refresh = this.db.prepare(
+        'UPDATE oauth_refresh_tokens SET revoked = 1 WHERE entity_id = ? AND client_id = ? AND revoked = 0'
+      ).run(entityId, clientId);
+      return access.changes + refresh.changes;
+    })();
+  }
+
+  createRefreshToken(
+    entityId: string, discordUserId: string, clientId: string, accessTokenJti: string, scope: string = 'mcp',
+    queueGrant: { id: string; publicKey: string } | null = null,
+  ): OAuthRefreshToken {
     const token = crypto.randomBytes(32).toString('hex');
     const expiresAt = new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toISOString(); // 30 days
     this.db.prepare(`
-      INSERT INTO oauth_refresh_tokens (token, entity_id, discord_user_id, client_id, access_token_jti, expires_at)
-      VALUES (?, ?, ?, ?, ?, ?)
-    `).run(token, entityId, discordUserId, clientId, accessTokenJti, expiresAt);
+      INSERT INTO oauth_refresh_tokens (token, entity_id, discord_user_id, client_id, access_token_jti, scope, grant_id, public_key, expires_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(token, entityId, discordUserId, clientId, accessTokenJti, scope, queueGrant?.id ?? null, queueGrant?.publicKey ?? null, expiresAt);
     return this.db.prepare('SELECT * FROM oauth_refresh_tokens WHERE token = ?').get(token) as OAuthRefreshToken;
   }
 
@@ -767,6 +1356,30 @@ export class EntityRegistry {
     return row;
   }
 
+  // --- OAuth signing keys ---
+
+  getActiveSigningKey(): OAuthSigningKey | null {
+    return (this.db.prepare(
+      'SELECT * FROM oauth_signing_keys WHERE retired_at IS NULL ORDER BY created_at DESC LIMIT 1'
+    ).get() as OAuthSigningKey) || null;
+  }
+
+  /** The active key plus keys retired within the last graceSeconds (their tokens may still be live). */
+  getVerificationKeys(graceSeconds: number): OAuthSigningKey[] {
+    return this.db.prepare(
+      "SELECT * FROM oauth_signing_keys WHERE retired_at IS NULL OR retired_at > datetime('now', ?) ORDER BY created_at DESC"
+    ).all(`-${graceSeconds} seconds`) as OAuthSigningKey[];
+  }
+
+  /** Retire the active key, store a new one, and drop keys retired more than graceSeconds ago. */
+  rotateSigningKey(kid: string, privateKey: string, publicKey: string, graceSeconds: number): void {
+    this.db.transaction(() => {
+      this.db.prepare("UPDATE oauth_signing_keys SET retired_at = datetime('now') WHERE retired_at IS NULL").run();
+      this.db.prepare('INSERT INTO oauth_signing_keys (kid, private_key, public_key) VALUES (?, ?, ?)').run(kid, privateKey, publicKey);
+      this.db.prepare("DELETE FROM oauth_signing_keys WHERE retired_at IS NOT NULL AND retired_at <= datetime('now', ?)").run(`-${graceSeconds} seconds`);
+    })();
+  }
+
   // --- Server Bans ---
 
   banServer(serverId: string, serverName?: string): void {
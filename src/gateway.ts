@@ -1,7 +1,10 @@
-import { Client, Events, GatewayIntentBits } from 'discord.js';
+import { Client, Events, GatewayIntentBits, Partials, type Message, type PartialMessage, type MessageReaction, type PartialMessageReaction, type User, type PartialUser } from 'discord.js';
 import { EventEmitter } from 'node:events';
+import { COMPONENT_PREFIX } from './component-interactions.js';
 import { logger } from './logger.js';
-import type { NormalizedMessage } from './types.js';
+import type { MessageEventKind, NormalizedMessage } from './types.js';
+
+const EMBED_DESCRIPTION_MAX = 500;
 
 export class Gateway extends EventEmitter {
   private client: Client;
@@ -16,7 +19,11 @@ export class Gateway extends EventEmitter {
         GatewayIntentBits.GuildMessages,
         GatewayIntentBits.MessageContent,
         GatewayIntentBits.GuildMembers,
+        GatewayIntentBits.GuildMessageReactions,
+        GatewayIntentBits.DirectMessages,
       ],
+      // Edits, deletions and reactions can target messages sent before the bot cached them
+      partials: [Partials.Message, Partials.Channel, Partials.Reaction],
     });
 
     this.client.on(Events.ClientReady, (c) => {
@@ -27,9 +34,6 @@ export class Gateway extends EventEmitter {
     });
 
     this.client.on(Events.MessageCreate, (message) => {
-      // Skip DMs for Phase 1
-      if (!message.guild) return;
-
       // Deduplication
       if (this.processedMessages.has(message.id)) return;
       this.processedMessages.add(message.id);
@@ -38,23 +42,56 @@ export class Gateway extends EventEmitter {
         if (first) this.processedMessages.delete(first);
       }
 
-      const normalized: NormalizedMessage = {
-        messageId: message.id,
-        channelId: message.channelId,
-        serverId: message.guild.id,
-        authorId: message.author.id,
-        authorName: message.member?.displayName || message.author.displayName || message.author.username,
-        authorIsBot: message.author.bot,
-        webhookId: message.webhookId,
-        content: message.content,
-        timestamp: message.createdAt,
-        mentionedRoleIds: message.mentions.roles.map(r => r.id),
-        replyToMessageId: message.reference?.messageId ?? null,
-      };
+      // DMs to the bot go to the DM router (new messages only — edits, deletions and reactions in DMs are ignored)
+      if (!message.guild) {
+        if (!message.author.bot) this.emit('dm', this.normalize(message, 'message', message.createdAt));
+        return;
+      }
+
+      this.emit('message', this.normalize(message, 'message', message.createdAt));
+    });
 
+    this.client.on(Events.MessageUpdate, (oldMessage, newMessage) => {
+      if (!newMessage.guild) return;
+      // Embed unfurls and pin changes also fire updates — only content edits matter
+      if (!oldMessage.partial && oldMessage.content === newMessage.content) return;
+
+      this.emit('message', this.normalize(newMessage, 'edit', newMessage.editedAt ?? new Date()));
+    });
+
+    this.client.on(Events.MessageDelete, (message) => {
+      if (!message.guildId) return;
+
+      // Never carry the deleted content (or its files) forward
+      const normalized = this.normalize(message, 'delete', new Date());
+      normalized.content = '';
+      normalized.attachments = [];
+      normalized.embeds = [];
+      normalized.stickers = [];
       this.emit('message', normalized);
     });
 
+    this.client.on(Events.MessageReactionAdd, (reaction, user) => {
+      this.handleReaction(reaction, user, 'reaction_add');
+    });
+
+    this.client.on(Events.MessageReactionRemove, (reaction, user) => {
+      this.handleReaction(reaction, user, 'reaction_remove');
+    });
+
+    this.client.on(Events.InteractionCreate, (interaction) => {
+      // Buttons and select menus entities posted with send_interactive_message
+      if ((interaction.isButton() || interaction.isStringSelectMenu()) && interaction.customId.startsWith(`${COMPONENT_PREFIX}:`)) {
+        this.emit('component', interaction);
+      }
+      // Approve/Deny buttons on approval DMs
+      else if (interaction.isButton()) this.emit('button', interaction);
+      // Entity picker on DMs to the bot
+      else if (interaction.isStringSelectMenu()) this.emit('select', interaction);
+      // Slash commands (/ask, /entities, /whois, /mute, /unmute) and their entity autocomplete
+      else if (interaction.isChatInputCommand() || interaction.isAutocomplete()) this.emit('command', interaction);
+    });
+
     this.client.on(Events.GuildCreate, (guild) => {
       logger.info(`Joined server: ${guild.name} (${guild.id})`);
       this.emit('guildCreate', guild);
@@ -73,6 +110,91 @@ export class Gateway extends EventEmitter {
     });
   }
 
+  /**
+   * Reduce a discord.js message (possibly partial) to the shape the Router consumes.
+   */
+  private normalize(message: Message | PartialMessage, kind: MessageEventKind, timestamp: Date): NormalizedMessage {
+    return {
+      ...this.threadInfo(message.channelId),
+      kind,
+      messageId: message.id,
+      channelId: message.channelId,
+      serverId: message.guildId ?? '', // '' for DMs
+      authorId: message.author?.id ?? '',
+      authorName: message.member?.displayName || message.author?.displayName || message.author?.username || 'Unknown',
+      authorIsBot: message.author?.bot ?? false,
+      webhookId: message.webhookId ?? null,
+      content: message.content ?? '',
+      timestamp,
+      mentionedRoleIds: message.mentions?.roles.map(r => r.id) ?? [],
+      replyToMessageId: message.reference?.messageId ?? null,
+      replyToAuthorId: message.mentions?.repliedUser?.id ?? null,
+      emoji: null,
+      attachments: message.attachments?.map(a => ({
+        filename: a.name,
+        size: a.size,
+        content_type: a.contentType,
+        url: a.url,
+      })) ?? [],
+      embeds: message.embeds?.map(e => ({
+        title: e.title,
+        description: e.description && e.description.length > EMBED_DESCRIPTION_MAX
+          ? e.description.slice(0, EMBED_DESCRIPTION_MAX) + '...'
+          : e.description,
+        url: e.url,
+        image_url: e.image?.url ?? e.thumbnail?.url ?? null,
+      })) ?? [],
+      stickers: message.stickers?.map(s => s.name) ?? [],
+    };
+  }
+
+  /** Threads and forum posts inherit their parent channel's permissions — record both IDs. */
+  private threadInfo(channelId: string): { threadId: string | null; parentId: string | null } {
+    const channel = this.client.channels.cache.get(channelId);
+    if (channel?.isThread() && channel.parentId) return { threadId: channelId, parentId: channel.parentId };
+    return { threadId: null, parentId: null };
+  }
+
+  private async handleReaction(
+    reaction: MessageReaction | PartialMessageReaction,
+    user: User | PartialUser,
+    kind: 'reaction_add' | 'reaction_remove',
+  ): Promise<void> {
+    const message = reaction.message;
+    if (!message.guildId) return;
+
+    try {
+      const reactor = user.partial ? await user.fetch() : user;
+      const guild = this.client.guilds.cache.get(message.guildId);
+      const member = guild?.members.cache.get(reactor.id);
+
+      const normalized: NormalizedMessage = {
+        ...this.threadInfo(message.channelId),
+        kind,
+        messageId: message.id,
+        channelId: message.channelId,
+        serverId: message.guildId,
+        authorId: reactor.id,
+        authorName: member?.displayName || reactor.displayName || reactor.username,
+        authorIsBot: reactor.bot,
+        webhookId: null,
+        content: '',
+        timestamp: new Date(),
+        mentionedRoleIds: [],
+        replyToMessageId: null,
+        replyToAuthorId: null,
+        emoji: reaction.emoji.toString(),
+        attachments: [],
+        embeds: [],
+        stickers: [],
+      };
+
+      this.emit('message', normalized);
+    } catch (err) {
+      logger.warn(`Failed to resolve ${kind} on message ${message.id}: ${err}`);
+    }
+  }
+
   async login(token: string): Promise<void> {
     await this.client.login(token);
   }
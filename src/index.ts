@@ -1,25 +1,48 @@
 import 'dotenv/config';
+import path from 'path';
+import type { ButtonInteraction } from 'discord.js';
 import { EntityRegistry } from './entity-registry.js';
 import { MessageBus } from './message-bus.js';
+import { QueueStore } from './queue-store.js';
 import { Gateway } from './gateway.js';
 import { Router } from './router.js';
+import { DmRouter } from './dm-router.js';
+import { ComponentInteractions } from './component-interactions.js';
 import { WebhookManager } from './webhook-manager.js';
+import { ApprovalManager } from './approvals.js';
+import { SlashCommands } from './slash-commands.js';
 import { createMcpHttpServer } from './mcp-server.js';
+import { assertJwtSecretsConfigured } from './jwt-keys.js';
 import { logger } from './logger.js';
 
 const DISCORD_BOT_TOKEN = process.env.DISCORD_BOT_TOKEN;
 const MCP_PORT = parseInt(process.env.MCP_PORT || '3000', 10);
 const DB_PATH = process.env.DB_PATH || './arachne.db';
+const QUEUE_PERSIST = process.env.QUEUE_PERSIST === 'on'; // Keep encrypted pending messages on disk across restarts
+const QUEUE_DB_PATH = process.env.QUEUE_DB_PATH || path.join(path.dirname(DB_PATH), 'queue.db');
+const QUEUE_MAX_MB = parseInt(process.env.QUEUE_MAX_MB || '64', 10);
 
 if (!DISCORD_BOT_TOKEN) {
   logger.error('DISCORD_BOT_TOKEN is required');
   process.exit(1);
 }
 
+try {
+  assertJwtSecretsConfigured();
+} catch (err) {
+  logger.error(err instanceof Error ? err.message : String(err));
+  process.exit(1);
+}
+
 async function main() {
   // Initialize components
   const registry = new EntityRegistry(DB_PATH);
-  const bus = new MessageBus();
+  const bus = new MessageBus(
+    undefined,
+    QUEUE_PERSIST ? new QueueStore(QUEUE_DB_PATH, QUEUE_MAX_MB * 1024 * 1024) : null,
+    // Migrated API keys get their public key on first connection; hold their entity's messages until then
+    entityId => registry.hasUnkeyedApiKeys(entityId),
+  );
   const gateway = new Gateway();
 
   // Start message bus eviction timer
@@ -44,6 +67,23 @@ async function main() {
   // Initialize router (gateway → entity queues)
   const _router = new Router(gateway, registry, bus, gateway.discordClient, webhookManager);
 
+  // DMs to the bot → the entity the user is talking to (opt-in per entity)
+  const _dmRouter = new DmRouter(gateway, registry, bus, gateway.discordClient);
+
+  // Clicks on entity buttons and select menus (send_interactive_message) → the entity that posted them
+  const _componentInteractions = new ComponentInteractions(gateway, registry, bus, gateway.discordClient);
+
+  // Hold tool calls that server admins require approval for; decisions come from DM buttons or the Loom
+  const approvals = new ApprovalManager(registry, gateway.discordClient);
+  approvals.start();
+  gateway.on('button', (interaction: ButtonInteraction) => {
+    approvals.handleButton(interaction).catch(err => logger.warn(`Approval button failed: ${err}`));
+  });
+
+  // Guild slash commands: /ask (answered via respond_to_interaction), /entities, /whois, /mute, /unmute
+  const slashCommands = new SlashCommands(gateway, registry, bus, gateway.discordClient);
+  await slashCommands.start();
+
   // Auto-leave banned servers on rejoin
   gateway.on('guildCreate', async (guild: { id: string; name: string; leave: () => Promise<void> }) => {
     if (registry.isServerBanned(guild.id)) {
@@ -58,6 +98,8 @@ async function main() {
     bus,
     webhookManager,
     discordClient: gateway.discordClient,
+    approvals,
+    slashCommands,
   });
 
   const server = app.listen(MCP_PORT, '0.0.0.0', () => {
@@ -71,6 +113,8 @@ async function main() {
 
     server.close();
     bus.stop();
+    approvals.stop();
+    slashCommands.stop();
     await gateway.destroy();
     registry.close();
 
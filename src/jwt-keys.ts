@@ -0,0 +1,166 @@
+import crypto from 'node:crypto';
+import jwt from 'jsonwebtoken';
+import { logger } from './logger.js';
+import type { EntityRegistry } from './entity-registry.js';
+import type { JWTPayload, OAuthJWTPayload, OAuthSigningKey } from './types.js';
+
+/**
+ * JWT signing keys. The two token families never share a key:
+ *   - Loom sessions: HS256 with LOOM_JWT_SECRET (or JWT_SECRET), verified only by this server.
+ *   - OAuth access tokens: ES256 with keys kept in SQLite, public halves published as a JWKS.
+ * Every token carries a `kid` so keys can rotate while tokens signed by the old key stay valid.
+ */
+
+const DEV_SECRET = 'dev-secret-change-me';
+const LOOM_SESSION_TTL = '24h';
+export const ACCESS_TOKEN_TTL_SECONDS = 3600;
+const SIGNING_KEY_MAX_AGE_DAYS = parseInt(process.env.OAUTH_KEY_ROTATION_DAYS || '90', 10);
+
+interface LoomSecret {
+  kid: string;
+  secret: string;
+}
+
+/** Why the Loom session secrets are unusable, or null when they are fine. */
+function loomSecretProblem(): string | null {
+  const secrets = [process.env.LOOM_JWT_SECRET, process.env.JWT_SECRET, ...previousLoomSecrets()].filter(Boolean) as string[];
+  if (!process.env.LOOM_JWT_SECRET && !process.env.JWT_SECRET) return 'LOOM_JWT_SECRET (or JWT_SECRET) is not set';
+  if (secrets.includes(DEV_SECRET)) return `a JWT secret is set to the placeholder "${DEV_SECRET}"`;
+  return null;
+}
+
+function previousLoomSecrets(): string[] {
+  return (process.env.LOOM_JWT_PREVIOUS_SECRETS || '').split(',').map(s => s.trim()).filter(Boolean);
+}
+
+function loomKid(secret: string): string {
+  return `loom-${crypto.createHash('sha256').update(secret).digest('hex').slice(0, 8)}`;
+}
+
+/**
+ * Refuse to start without a real session secret. NODE_ENV=development falls back to a placeholder.
+ */
+export function assertJwtSecretsConfigured(): void {
+  const problem = loomSecretProblem();
+  if (!problem) return;
+  if (process.env.NODE_ENV === 'development') {
+    logger.warn(`${problem} — using an insecure development secret`);
+    return;
+  }
+  throw new Error(`${problem}. Generate one with: openssl rand -hex 32 (set NODE_ENV=development to run without it locally)`);
+}
+
+/** The signing secret first, then secrets still accepted for sessions issued before a rotation. */
+function loomSecrets(): LoomSecret[] {
+  const current = process.env.LOOM_JWT_SECRET || process.env.JWT_SECRET || DEV_SECRET;
+  const secrets = [current, ...previousLoomSecrets()];
+  // Sessions issued before LOOM_JWT_SECRET existed were signed with JWT_SECRET
+  if (process.env.LOOM_JWT_SECRET && process.env.JWT_SECRET) secrets.push(process.env.JWT_SECRET);
+  return [...new Set(secrets)].map(secret => ({ kid: loomKid(secret), secret }));
+}
+
+/**
+ * Sign a Loom dashboard session.
+ */
+export function signLoomToken(payload: Omit<JWTPayload, 'iat' | 'exp'>): string {
+  const [{ kid, secret }] = loomSecrets();
+  return jwt.sign(payload, secret, { algorithm: 'HS256', expiresIn: LOOM_SESSION_TTL, keyid: kid });
+}
+
+/**
+ * Verify a Loom dashboard session. Throws if the token is invalid, expired, or signed by an unknown key.
+ */
+export function verifyLoomToken(token: string): JWTPayload {
+  const kid = jwt.decode(token, { complete: true })?.header.kid;
+  // Sessions issued before kids were added carry none — try every accepted secret
+  const candidates = loomSecrets().filter(s => !kid || s.kid === kid);
+  let lastError: unknown = new Error('Unknown signing key');
+  for (const { secret } of candidates) {
+    try {
+      return jwt.verify(token, secret, { algorithms: ['HS256'] }) as JWTPayload;
+    } catch (err) {
+      lastError = err;
+    }
+  }
+  throw lastError;
+}
+
+// --- OAuth access tokens (ES256) ---
+
+const keyObjects = new Map<string, crypto.KeyObject>(); // "kid:private" / "kid:public" → parsed key
+
+function keyObject(key: OAuthSigningKey, type: 'private' | 'public'): crypto.KeyObject {
+  const cacheKey = `${key.kid}:${type}`;
+  let parsed = keyObjects.get(cacheKey);
+  if (!parsed) {
+    parsed = type === 'private' ? crypto.createPrivateKey(key.private_key) : crypto.createPublicKey(key.public_key);
+    keyObjects.set(cacheKey, parsed);
+  }
+  return parsed;
+}
+
+function isTooOld(key: OAuthSigningKey): boolean {
+  const createdAt = new Date(key.created_at.replace(' ', 'T') + 'Z').getTime();
+  return Date.now() - createdAt > SIGNING_KEY_MAX_AGE_DAYS * 86_400_000;
+}
+
+/**
+ * Generate a new ES256 signing key and retire the current one. Tokens it signed keep verifying until they expire.
+ * Returns the new key ID.
+ */
+export function rotateOAuthSigningKey(registry: EntityRegistry): string {
+  const { privateKey, publicKey } = crypto.generateKeyPairSync('ec', {
+    namedCurve: 'P-256',
+    privateKeyEncoding: { type: 'pkcs8', format: 'pem' },
+    publicKeyEncoding: { type: 'spki', format: 'pem' },
+  });
+  const kid = crypto.randomBytes(8).toString('hex');
+  registry.rotateSigningKey(kid, privateKey, publicKey, ACCESS_TOKEN_TTL_SECONDS);
+  logger.info(`OAuth signing key rotated: kid=${kid}`);
+  return kid;
+}
+
+/** The active signing key — created on first use and rotated once it is older than OAUTH_KEY_ROTATION_DAYS. */
+function activeSigningKey(registry: EntityRegistry): OAuthSigningKey {
+  const key = registry.getActiveSigningKey();
+  if (key && !isTooOld(key)) return key;
+  rotateOAuthSigningKey(registry);
+  return registry.getActiveSigningKey()!;
+}
+
+/**
+ * Sign an OAuth access token with the active ES256 key.
+ */
+export function signAccessToken(registry: EntityRegistry, payload: OAuthJWTPayload): string {
+  const key = activeSigningKey(registry);
+  return jwt.sign(payload, keyObject(key, 'private'), { algorithm: 'ES256', keyid: key.kid });
+}
+
+/**
+ * Verify an OAuth access token against the active key or a recently retired one (looked up by `kid`).
+ * Throws if the token is invalid, expired (unless ignoreExpiration), or signed by an unknown key.
+ */
+export function verifyAccessToken(registry: EntityRegistry, token: string, options: { ignoreExpiration?: boolean } = {}): OAuthJWTPayload {
+  const kid = jwt.decode(token, { complete: true })?.header.kid;
+  const key = kid ? registry.getVerificationKeys(ACCESS_TOKEN_TTL_SECONDS).find(k => k.kid === kid) : undefined;
+  if (!key) throw new Error('Unknown signing key');
+  return jwt.verify(token, keyObject(key, 'public'), {
+    algorithms: ['ES256'],
+    ignoreExpiration: options.ignoreExpiration,
+  }) as OAuthJWTPayload;
+}
+
+/**
+ * Public keys that verify live access tokens, as a JWK Set (RFC 7517).
+ */
+export function accessTokenJwks(registry: EntityRegistry): { keys: Array<Record<string, unknown>> } {
+  activeSigningKey(registry);
+  return {
+    keys: registry.getVerificationKeys(ACCESS_TOKEN_TTL_SECONDS).map(key => ({
+      ...keyObject(key, 'public').export({ format: 'jwk' }),
+      kid: key.kid,
+      use: 'sig',
+      alg: 'ES256',
+    })),
+  };
+}
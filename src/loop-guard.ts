@@ -0,0 +1,100 @@
+import { logger } from './logger.js';
+
+const HOP_WINDOW_MS = 60 * 60 * 1000; // Hop budget is counted per rolling hour
+
+export interface LoopLimits {
+  maxReplyDepth: number;        // consecutive entity posts allowed before a human must speak
+  replyCooldownSeconds: number; // minimum gap before answering another entity in the same channel
+  hopBudget: number;            // entity-to-entity hops allowed per channel per hour
+}
+
+interface ChannelState {
+  depth: number;                    // consecutive entity posts since the last human message
+  lastEntityId: string | null;      // entity that posted most recently (null = a human)
+  hops: number[];                   // timestamps of entity posts that followed another entity post
+}
+
+/**
+ * Volatile per-channel conversation state for entity-to-entity loop protection.
+ * Router records who spoke; send_message consults it before an entity replies.
+ * NEVER persisted — a restart simply resets every chain.
+ */
+class LoopGuard {
+  private channels: Map<string, ChannelState> = new Map();
+  private lastSends: Map<string, number> = new Map(); // entityId:channelId → timestamp
+
+  /** A human spoke — the AI-only chain in this channel is broken. */
+  recordHuman(channelId: string): void {
+    const state = this.channels.get(channelId);
+    if (!state) return;
+    state.depth = 0;
+    state.lastEntityId = null;
+    this.prune(channelId, state);
+  }
+
+  /** An entity's webhook post was observed in this channel. */
+  recordEntity(channelId: string, entityId: string): void {
+    const state = this.channels.get(channelId) ?? { depth: 0, lastEntityId: null, hops: [] };
+    if (state.depth > 0) state.hops.push(Date.now());
+    state.depth++;
+    state.lastEntityId = entityId;
+    this.channels.set(channelId, state);
+    this.prune(channelId, state);
+  }
+
+  /** An entity sent a message through MCP (used for the cooldown, before the gateway echo arrives). */
+  recordSend(channelId: string, entityId: string): void {
+    const now = Date.now();
+    this.lastSends.set(`${entityId}:${channelId}`, now);
+    if (this.lastSends.size > 500) {
+      for (const [key, ts] of this.lastSends) {
+        if (now - ts > HOP_WINDOW_MS) this.lastSends.delete(key);
+      }
+    }
+  }
+
+  /** Consecutive entity posts in this channel since the last human message. */
+  depth(channelId: string): number {
+    return this.channels.get(channelId)?.depth ?? 0;
+  }
+
+  /**
+   * Check whether an entity may post into an AI-only chain.
+   * Returns a human-readable reason when blocked, null when allowed.
+   * Chains started by a human (depth 0) are never blocked.
+   */
+  check(channelId: string, entityId: string, limits: LoopLimits): string | null {
+    const state = this.channels.get(channelId);
+    if (!state || state.depth === 0) return null;
+
+    if (state.depth >= limits.maxReplyDepth) {
+      return `Loop guard: ${state.depth} entity messages in a row in this channel (max ${limits.maxReplyDepth}). Wait for a human to speak.`;
+    }
+
+    if (state.lastEntityId !== entityId) {
+      const lastSend = this.lastSends.get(`${entityId}:${channelId}`);
+      const waitMs = lastSend ? lastSend + limits.replyCooldownSeconds * 1000 - Date.now() : 0;
+      if (waitMs > 0) {
+        return `Loop guard: cooldown active. Retry after ${Math.ceil(waitMs / 1000)} seconds.`;
+      }
+    }
+
+    this.prune(channelId, state);
+    if (state.hops.length >= limits.hopBudget) {
+      return `Loop guard: hourly entity-to-entity budget for this channel is spent (${limits.hopBudget}). Wait for a human to speak.`;
+    }
+
+    return null;
+  }
+
+  private prune(channelId: string, state: ChannelState): void {
+    const cutoff = Date.now() - HOP_WINDOW_MS;
+    state.hops = state.hops.filter(ts => ts > cutoff);
+    if (state.depth === 0 && state.hops.length === 0) {
+      this.channels.delete(channelId);
+      logger.debug(`Loop guard state cleared for channel ${channelId}`);
+    }
+  }
+}
+
+export const loopGuard = new LoopGuard();
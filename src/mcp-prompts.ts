@@ -0,0 +1,180 @@
+import { z, type ZodRawShape } from 'zod';
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { ErrorCode, McpError, type GetPromptResult } from '@modelcontextprotocol/sdk/types.js';
+import { createEntityAccess } from './entity-access.js';
+import type { EntityContext } from './types.js';
+
+const HISTORY_LIMIT = 50;
+
+/** Names reserved for the built-in prompts (owner templates may not reuse them). */
+export const BUILT_IN_PROMPTS = ['catch_up', 'reply_to_mentions', 'introduce_yourself'];
+
+/** Placeholders owner templates may use, written as {{name}}. */
+export const PROMPT_PLACEHOLDERS = ['entity_name', 'server_name', 'server_id', 'channel_name', 'channel_id'];
+
+const PLACEHOLDER_PATTERN = /\{\{\s*(\w+)\s*\}\}/g;
+
+/** Placeholders used in a template that are not in PROMPT_PLACEHOLDERS. */
+export function unknownPlaceholders(template: string): string[] {
+  const unknown = new Set<string>();
+  for (const match of template.matchAll(PLACEHOLDER_PATTERN)) {
+    if (!PROMPT_PLACEHOLDERS.includes(match[1])) unknown.add(match[1]);
+  }
+  return [...unknown];
+}
+
+function renderTemplate(template: string, values: Record<string, string>): string {
+  return template.replace(PLACEHOLDER_PATTERN, (whole, name: string) => values[name] ?? whole);
+}
+
+function userPrompt(description: string, text: string): GetPromptResult {
+  return { description, messages: [{ role: 'user', content: { type: 'text', text } }] };
+}
+
+/**
+ * Register MCP prompts on an McpServer, scoped to an entity context:
+ * built-in companion workflows plus the owner's templates from the registry.
+ * Prompts that pre-fill data apply the same channel and tool whitelist checks as the tools they mirror.
+ */
+export function registerPrompts(server: McpServer, ctx: EntityContext): void {
+  const { entity, entityServers, registry, bus, discordClient } = ctx;
+  const { canAccessChannel, serversAllowing, serverForChannel, isToolAllowedOnServer } = createEntityAccess(ctx);
+
+  function assertChannel(channelId: string, tool?: string): { channelName: string; serverId: string; serverName: string } {
+    const serverId = serverForChannel(channelId);
+    if (!canAccessChannel(channelId) || !serverId || (tool && !isToolAllowedOnServer(serverId, tool))) {
+      throw new McpError(ErrorCode.InvalidParams, 'You do not have access to this channel.');
+    }
+    const channel = discordClient.channels.cache.get(channelId);
+    const channelName = channel && 'name' in channel && channel.name ? channel.name : channelId;
+    return { channelName, serverId, serverName: discordClient.guilds.cache.get(serverId)?.name ?? serverId };
+  }
+
+  function assertServer(serverId: string): string {
+    if (!entityServers.some(es => es.server_id === serverId)) {
+      throw new McpError(ErrorCode.InvalidParams, 'You do not have access to this server.');
+    }
+    return discordClient.guilds.cache.get(serverId)?.name ?? serverId;
+  }
+
+  // --- catch_up ---
+  if (entityServers.length === 0 || serversAllowing('get_channel_history').size > 0) {
+    server.registerPrompt(
+      'catch_up',
+      {
+        title: 'Catch up on a channel',
+        description: 'Summarize recent conversation in a channel, pre-filled with its live history.',
+        argsSchema: { channel_id: z.string().describe('The channel to catch up on') },
+      },
+      async ({ channel_id }) => {
+        const { channelName, serverName } = assertChannel(channel_id, 'get_channel_history');
+        const channel = await discordClient.channels.fetch(channel_id);
+        if (!channel || !('messages' in channel)) {
+          throw new McpError(ErrorCode.InvalidParams, 'Channel not found or not a text channel.');
+        }
+
+        const messages = await (channel as any).messages.fetch({ limit: HISTORY_LIMIT });
+        const transcript = messages
+          .sort((a: any, b: any) => a.createdTimestamp - b.createdTimestamp)
+          .map((msg: any) => `[${msg.createdAt.toISOString()}] ${msg.member?.displayName || msg.author.displayName || msg.author.username}: ${msg.content}`)
+          .join('\n');
+
+        return userPrompt(
+          `Catch up on #${channelName}`,
+          `You are ${entity.name}. Here are the last ${HISTORY_LIMIT} messages in #${channelName} (${serverName}, channel ID ${channel_id}):\n\n`
+            + `${transcript || '(no messages)'}\n\n`
+            + 'Summarize what has been happening, and point out anything that is waiting on a response from you.',
+        );
+      },
+    );
+  }
+
+  // --- reply_to_mentions ---
+  if (entityServers.length === 0 || serversAllowing('read_messages').size > 0) {
+    server.registerPrompt(
+      'reply_to_mentions',
+      {
+        title: 'Reply to my mentions',
+        description: 'Respond to queued messages addressed to you (role mentions and trigger words).',
+        argsSchema: { channel_id: z.string().optional().describe('Only include mentions from this channel') },
+      },
+      async ({ channel_id }) => {
+        if (channel_id) assertChannel(channel_id, 'read_messages');
+        const readableServers = serversAllowing('read_messages');
+        const mentions = bus.read(entity.id, channel_id, 50, ctx.encryptionKey, true, false, ['message'])
+          .filter(m => m.dm || readableServers.has(m.server_id));
+
+        if (mentions.length === 0) {
+          return userPrompt('Reply to my mentions', `You are ${entity.name}. No queued messages are addressed to you right now.`);
+        }
+
+        const list = mentions
+          .map(m => m.dm
+            ? `- [${m.timestamp}] DM (user ${m.author_id}, message ${m.id}) ${m.author_name}: ${m.content}`
+            : `- [${m.timestamp}] #${m.channel_name} (channel ${m.channel_id}, message ${m.id}) ${m.author_name}: ${m.content}`)
+          .join('\n');
+        return userPrompt(
+          'Reply to my mentions',
+          `You are ${entity.name}. These messages were addressed to you:\n\n${list}\n\n`
+            + 'Reply to each one that still needs an answer using send_message in its channel, or send_dm to the user for a DM. Skip any that were already answered.',
+        );
+      },
+    );
+  }
+
+  // --- introduce_yourself ---
+  if (entityServers.length === 0 || serversAllowing('introduce').size > 0) {
+    server.registerPrompt(
+      'introduce_yourself',
+      {
+        title: 'Introduce yourself in a new server',
+        description: 'Pick a fitting channel on a server and introduce this entity.',
+        argsSchema: { server_id: z.string().describe('The server to introduce yourself in') },
+      },
+      async ({ server_id }) => {
+        const serverName = assertServer(server_id);
+        const guild = discordClient.guilds.cache.get(server_id);
+        const channels = guild
+          ? [...guild.channels.cache.values()]
+            .filter(c => c.isTextBased() && !c.isDMBased() && canAccessChannel(c.id))
+            .map(c => `- #${c.name} (${c.id})`)
+            .join('\n')
+          : '';
+
+        return userPrompt(
+          `Introduce yourself in ${serverName}`,
+          `You are ${entity.name}${entity.description ? ` — ${entity.description}` : ''}. You have just joined ${serverName}.\n\n`
+            + `Channels you can post in:\n${channels || '(none visible yet — call list_channels)'}\n\n`
+            + 'Choose the channel that best fits an introduction (a welcome or introductions channel if there is one, otherwise general chat) '
+            + 'and use the introduce tool there. Then add a short, friendly message in your own voice with send_message.',
+        );
+      },
+    );
+  }
+
+  // --- Owner-defined templates ---
+  for (const prompt of registry.getEntityPrompts(entity.id)) {
+    if (BUILT_IN_PROMPTS.includes(prompt.name)) continue;
+
+    const usesChannel = /\{\{\s*channel_(name|id)\s*\}\}/.test(prompt.template);
+    const usesServer = /\{\{\s*server_(name|id)\s*\}\}/.test(prompt.template);
+    const argsSchema: ZodRawShape = {};
+    if (usesChannel) argsSchema.channel_id = z.string().describe('Channel to fill {{channel_name}} / {{channel_id}} (also sets the server)');
+    if (usesServer && !usesChannel) argsSchema.server_id = z.string().describe('Server to fill {{server_name}} / {{server_id}}');
+
+    server.registerPrompt(
+      prompt.name,
+      { description: prompt.description || `Custom prompt for ${entity.name}`, argsSchema },
+      async (args: Record<string, string | undefined>) => {
+        const values: Record<string, string> = { entity_name: entity.name };
+        if (args.channel_id) {
+          const { channelName, serverId, serverName } = assertChannel(args.channel_id);
+          Object.assign(values, { channel_id: args.channel_id, channel_name: channelName, server_id: serverId, server_name: serverName });
+        } else if (args.server_id) {
+          Object.assign(values, { server_id: args.server_id, server_name: assertServer(args.server_id) });
+        }
+        return userPrompt(prompt.description || prompt.name, renderTemplate(prompt.template, values));
+      },
+    );
+  }
+}
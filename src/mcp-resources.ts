@@ -0,0 +1,233 @@
+import { ResourceTemplate, type McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import {
+  ErrorCode,
+  McpError,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+  type ReadResourceResult,
+  type Resource,
+} from '@modelcontextprotocol/sdk/types.js';
+import type { Variables } from '@modelcontextprotocol/sdk/shared/uriTemplate.js';
+import { createEntityAccess } from './entity-access.js';
+import { logger } from './logger.js';
+import type { EntityContext } from './types.js';
+
+const HISTORY_LIMIT = 50;
+
+/** Channel URIs that can be subscribed to: arachne://channels/{id}/queue and /history. */
+const CHANNEL_URI = /^arachne:\/\/channels\/([^/]+)\/(queue|history)$/;
+
+function json(uri: URL, value: unknown): ReadResourceResult {
+  return { contents: [{ uri: uri.href, mimeType: 'application/json', text: JSON.stringify(value, null, 2) }] };
+}
+
+function variable(variables: Variables, name: string): string {
+  const value = variables[name];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+/**
+ * Register read-only MCP resources on an McpServer, scoped to an entity context.
+ * Each resource mirrors a tool and is gated by the same channel and tool whitelist checks.
+ * Queue and history resources support resources/subscribe; updates are pushed when the
+ * entity's queue receives an event for that channel (stateful sessions only).
+ */
+export function registerResources(server: McpServer, ctx: EntityContext): void {
+  const { entity, entityServers, bus, discordClient } = ctx;
+  const { canAccessChannel, serversAllowing, serverForChannel, isToolAllowedOnServer } = createEntityAccess(ctx);
+
+  function assertChannelReadable(channelId: string, tool: string): void {
+    const serverId = serverForChannel(channelId);
+    if (!canAccessChannel(channelId) || !serverId || !isToolAllowedOnServer(serverId, tool)) {
+      throw new McpError(ErrorCode.InvalidParams, 'You do not have access to this channel.');
+    }
+  }
+
+  /** Text channels (and forums) the entity can access on servers where the tool is allowed. */
+  function listChannelResources(tool: string, suffix: 'queue' | 'history'): Resource[] {
+    const servers = serversAllowing(tool);
+    const resources: Resource[] = [];
+    for (const es of entityServers) {
+      if (!servers.has(es.server_id)) continue;
+      const guild = discordClient.guilds.cache.get(es.server_id);
+      if (!guild) continue;
+      for (const [id, channel] of guild.channels.cache) {
+        if (!channel.isTextBased() || channel.isDMBased()) continue;
+        if (!canAccessChannel(id)) continue;
+        resources.push({
+          uri: `arachne://channels/${id}/${suffix}`,
+          name: `#${channel.name} ${suffix} (${guild.name})`,
+          mimeType: 'application/json',
+        });
+      }
+    }
+    return resources;
+  }
+
+  // --- arachne://entity/self ---
+  if (serversAllowing('get_entity_info').size > 0 || entityServers.length === 0) {
+    server.registerResource(
+      'entity-self',
+      'arachne://entity/self',
+      {
+        title: 'This entity',
+        description: 'Identity, description, platform, partner, servers, and channel/tool whitelists — the same data as get_entity_info.',
+        mimeType: 'application/json',
+      },
+      async (uri) => json(uri, {
+        id: entity.id,
+        name: entity.name,
+        description: entity.description || null,
+        platform: entity.platform || null,
+        partner: entity.owner_name || null,
+        avatar_url: entity.avatar_url,
+        servers: entityServers.map(es => ({
+          server_id: es.server_id,
+          channels: JSON.parse(es.channels),
+          blocked_channels: JSON.parse(es.blocked_channels || '[]'),
+          tools: JSON.parse(es.tools),
+        })),
+      }),
+    );
+  }
+
+  // --- arachne://servers/{server_id}/channels ---
+  server.registerResource(
+    'server-channels',
+    new ResourceTemplate('arachne://servers/{server_id}/channels', {
+      list: async () => ({
+        resources: entityServers
+          .filter(es => serversAllowing('list_channels').has(es.server_id))
+          .map(es => ({
+            uri: `arachne://servers/${es.server_id}/channels`,
+            name: `Channels in ${discordClient.guilds.cache.get(es.server_id)?.name ?? es.server_id}`,
+            mimeType: 'application/json',
+          })),
+      }),
+    }),
+    {
+      title: 'Server channels',
+      description: 'Channels this entity can access on a server — the same data as list_channels.',
+      mimeType: 'application/json',
+    },
+    async (uri, variables) => {
+      const serverId = variable(variables, 'server_id');
+      const es = entityServers.find(s => s.server_id === serverId);
+      if (!es || !isToolAllowedOnServer(serverId, 'list_channels')) {
+        throw new McpError(ErrorCode.InvalidParams, 'You do not have access to this server.');
+      }
+      const guild = discordClient.guilds.cache.get(serverId);
+      if (!guild) throw new McpError(ErrorCode.InvalidParams, 'Server not found or bot is not in it.');
+
+      const channels: Array<{ id: string; name: string; type: string; category?: string; category_id?: string }> = [];
+      for (const [id, channel] of guild.channels.cache) {
+        if (!channel.isTextBased() && channel.type !== 15) continue; // 15 = GuildForum
+        if (channel.isDMBased()) continue;
+        if (!canAccessChannel(id)) continue;
+        channels.push({
+          id,
+          name: channel.name,
+          type: channel.type.toString(),
+          category: channel.parent?.name || undefined,
+          category_id: channel.parent?.id || undefined,
+        });
+      }
+      return json(uri, { server_id: serverId, server_name: guild.name, channels });
+    },
+  );
+
+  // --- arachne://channels/{channel_id}/queue ---
+  server.registerResource(
+    'channel-queue',
+    new ResourceTemplate('arachne://channels/{channel_id}/queue', {
+      list: async () => ({ resources: listChannelResources('read_messages', 'queue') }),
+    }),
+    {
+      title: 'Channel queue',
+      description: 'Queued events for a channel (held 15 minutes) — the same data as read_messages. Does not advance the unread cursor. Subscribe to be told when new events arrive.',
+      mimeType: 'application/json',
+    },
+    async (uri, variables) => {
+      const channelId = variable(variables, 'channel_id');
+      assertChannelReadable(channelId, 'read_messages');
+      return json(uri, bus.read(entity.id, channelId, 50, ctx.encryptionKey));
+    },
+  );
+
+  // --- arachne://channels/{channel_id}/history ---
+  server.registerResource(
+    'channel-history',
+    new ResourceTemplate('arachne://channels/{channel_id}/history', {
+      list: async () => ({ resources: listChannelResources('get_channel_history', 'history') }),
+    }),
+    {
+      title: 'Channel history',
+      description: `The last ${HISTORY_LIMIT} messages in a channel, live from Discord — the same data as get_channel_history.`,
+      mimeType: 'application/json',
+    },
+    async (uri, variables) => {
+      const channelId = variable(variables, 'channel_id');
+      assertChannelReadable(channelId, 'get_channel_history');
+
+      const channel = await discordClient.channels.fetch(channelId);
+      if (!channel || !('messages' in channel)) {
+        throw new McpError(ErrorCode.InvalidParams, 'Channel not found or not a text channel.');
+      }
+
+      const messages = await (channel as any).messages.fetch({ limit: HISTORY_LIMIT });
+      const formatted = messages
+        .sort((a: any, b: any) => a.createdTimestamp - b.createdTimestamp)
+        .map((msg: any) => ({
+          id: msg.id,
+          author_id: msg.author.id,
+          author_name: msg.member?.displayName || msg.author.displayName || msg.author.username,
+          content: msg.content,
+          timestamp: msg.createdAt.toISOString(),
+          is_bot: msg.author.bot,
+          webhook_id: msg.webhookId || null,
+        }));
+      return json(uri, formatted);
+    },
+  );
+
+  // --- Subscriptions ---
+  const subscriptions = new Set<string>();
+  let unsubscribeBus: (() => void) | null = null;
+
+  server.server.registerCapabilities({ resources: { subscribe: true } });
+
+  server.server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    const match = CHANNEL_URI.exec(request.params.uri);
+    if (!match) {
+      throw new McpError(ErrorCode.InvalidParams, 'Only arachne://channels/{id}/queue and /history can be subscribed to.');
+    }
+    assertChannelReadable(match[1], match[2] === 'queue' ? 'read_messages' : 'get_channel_history');
+    subscriptions.add(request.params.uri);
+
+    unsubscribeBus ??= bus.subscribe(entity.id, (message) => {
+      const uris = [`arachne://channels/${message.channelId}/queue`, `arachne://channels/${message.channelId}/history`];
+      // Thread activity also shows up in the parent channel's queue
+      if (message.parentId) uris.push(`arachne://channels/${message.parentId}/queue`);
+      for (const uri of uris) {
+        if (!subscriptions.has(uri)) continue;
+        server.server.sendResourceUpdated({ uri })
+          .catch(err => logger.warn(`Resource update notification failed for ${uri}: ${err}`));
+      }
+    });
+    return {};
+  });
+
+  server.server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    subscriptions.delete(request.params.uri);
+    if (subscriptions.size === 0 && unsubscribeBus) {
+      unsubscribeBus();
+      unsubscribeBus = null;
+    }
+    return {};
+  });
+
+  server.server.onclose = () => {
+    unsubscribeBus?.();
+    unsubscribeBus = null;
+  };
+}
@@ -1,12 +1,16 @@
 import express from 'express';
 import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
 import type { Request, Response, NextFunction } from 'express';
-import jwt from 'jsonwebtoken';
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
-import { verifyApiKey, deriveEncryptionKey } from './crypto.js';
-import { keyStore } from './key-store.js';
+import { isInitializeRequest, type ServerCapabilities } from '@modelcontextprotocol/sdk/types.js';
+import { deriveQueuePrivateKey, queuePublicKey } from './crypto.js';
+import { verifyAccessToken } from './jwt-keys.js';
 import { registerTools } from './mcp-tools.js';
+import { registerResources } from './mcp-resources.js';
+import { registerPrompts } from './mcp-prompts.js';
+import { McpSessionStore, configFingerprint, credentialToolScope, sameCredential, type McpSession, type SessionAuth } from './mcp-sessions.js';
 import { logger } from './logger.js';
 import { createAuthRouter } from './api/auth.js';
 import { createEntitiesRouter } from './api/entities.js';
@@ -14,14 +18,17 @@ import { createServersRouter } from './api/servers.js';
 import { createOperatorRouter } from './api/operator.js';
 import { createOAuthRouter } from './api/oauth.js';
 import { createBugReportsRouter } from './api/bug-reports.js';
+import { createApprovalsRouter } from './api/approvals.js';
 import type { EntityRegistry } from './entity-registry.js';
 import type { MessageBus } from './message-bus.js';
 import type { WebhookManager } from './webhook-manager.js';
+import type { ApprovalManager } from './approvals.js';
+import type { SlashCommands } from './slash-commands.js';
 import type { Client } from 'discord.js';
-import type { EntityContext, OAuthJWTPayload } from './types.js';
+import type { Entity, EntityContext, QueueKey } from './types.js';
 
-const JWT_SECRET = process.env.JWT_SECRET || 'dev-secret-change-me';
 const BASE_URL = process.env.BASE_URL || 'https://arachne-discord.fly.dev';
+const SESSIONS_ENABLED = process.env.MCP_SESSIONS !== 'off'; // Stateful Streamable HTTP sessions (set "off" for stateless only)
 
 const CORS_HEADERS: Record<string, string> = {
   'Access-Control-Allow-Origin': '*',
@@ -41,13 +48,18 @@ interface McpServerDeps {
   bus: MessageBus;
   webhookManager: WebhookManager;
   discordClient: Client;
+  approvals: ApprovalManager;
+  slashCommands: SlashCommands;
 }
 
 export function createMcpHttpServer(deps: McpServerDeps): express.Express {
-  const { registry, bus, webhookManager, discordClient } = deps;
+  const { registry, bus, webhookManager, discordClient, approvals, slashCommands } = deps;
   const app = express();
   app.use(express.json());
 
+  const sessions = new McpSessionStore(registry);
+  sessions.start();
+
   // CORS for all routes
   app.use((_req: Request, res: Response, next: NextFunction) => {
     applyCors(res);
@@ -71,6 +83,7 @@ export function createMcpHttpServer(deps: McpServerDeps): express.Express {
       status: 'ok',
       uptime: process.uptime(),
       queues: bus.stats(),
+      mcp_sessions: sessions.count(),
     });
   });
 
@@ -83,23 +96,13 @@ export function createMcpHttpServer(deps: McpServerDeps): express.Express {
   app.use('/api/servers', createServersRouter(registry, discordClient));
   app.use('/api/operator', createOperatorRouter(registry, discordClient));
   app.use('/api/bug-reports', createBugReportsRouter(registry));
+  app.use('/api/approvals', createApprovalsRouter(registry, approvals, discordClient));
 
-  // DELETE for MCP session close
-  app.delete('/mcp/:entity_id', (_req: Request, res: Response) => {
-    res.status(200).json({ message: 'Session closed' });
-  });
-
-  // GET for MCP (not supported in stateless mode)
-  app.get('/mcp/:entity_id', (_req: Request, res: Response) => {
-    res.status(405).json({
-      jsonrpc: '2.0',
-      error: { code: -32000, message: 'Method not allowed. Use POST for MCP requests.' },
-      id: null,
-    });
-  });
-
-  // Main MCP endpoint — per-entity routing (dual auth: API key or OAuth token)
-  app.post('/mcp/:entity_id', async (req: Request, res: Response) => {
+  /**
+   * Authenticate an MCP request for an entity (dual auth: OAuth JWT or API key), along with the
+   * credential's queue private key when it has one. Writes the 401/404 response itself and returns null on failure.
+   */
+  async function authenticate(req: Request, res: Response): Promise<{ entity: Entity; auth: SessionAuth; queueKey?: QueueKey } | null> {
     const entityId = req.params.entity_id as string;
 
     // Extract Bearer token
@@ -107,66 +110,242 @@ export function createMcpHttpServer(deps: McpServerDeps): express.Express {
     if (!authHeader || !authHeader.startsWith('Bearer ')) {
       res.setHeader('WWW-Authenticate', `Bearer resource_metadata="${BASE_URL}/.well-known/oauth-protected-resource"`);
       res.status(401).json({ error: 'Missing or invalid Authorization header' });
-      return;
+      return null;
     }
     const token = authHeader.slice(7);
 
     // Look up entity
-    const entity = registry.getEntity(entityId as string);
+    const entity = registry.getEntity(entityId);
     if (!entity || !entity.active) {
       res.status(404).json({ error: 'Entity not found' });
-      return;
+      return null;
     }
 
     // Try OAuth JWT first, then fall back to API key
-    let authorized = false;
+    let auth: SessionAuth | null = null;
+    let queueKey: QueueKey | undefined;
 
     try {
-      const payload = jwt.verify(token, JWT_SECRET) as OAuthJWTPayload;
+      const payload = verifyAccessToken(registry, token);
       if (payload.entity_id === entityId && !registry.isAccessTokenRevoked(payload.jti)) {
-        authorized = true;
+        auth = { kind: 'oauth', jti: payload.jti, exp: payload.exp, scope: payload.scope, grantId: payload.grant_id ?? null };
+        // Grants carry their queue private key in the token (tokens issued before queue keys have none)
+        if (payload.grant_id && payload.queue_key) {
+          queueKey = { keyId: payload.grant_id, key: Buffer.from(payload.queue_key, 'base64url') };
+        }
+        registry.touchAccessToken(payload.jti);
         logger.info(`MCP via OAuth: entity=${entityId} user=${payload.sub}`);
       }
     } catch {
-      // Not a valid JWT — try API key
-      const valid = await verifyApiKey(token, entity.api_key_hash);
-      if (valid) {
-        authorized = true;
-
-        // Derive encryption key from raw API key + stored salt, cache in volatile KeyStore
-        const encKey = deriveEncryptionKey(token, entity.key_salt);
-        keyStore.set(entityId, encKey);
+      // Not a valid JWT — try API key (looked up by its prefix)
+      const key = await registry.verifyEntityApiKey(entityId, token);
+      if (key) {
+        auth = { kind: 'api_key', keyId: key.id };
+        registry.touchApiKey(key.id);
 
-        // Retroactively encrypt any messages queued during cold-start window
-        bus.encryptPending(entityId, encKey);
+        // Derive the key's queue private key from the raw API key + its stored salt (held for this request only)
+        queueKey = { keyId: key.id, key: deriveQueuePrivateKey(token, key.key_salt) };
+        if (!key.public_key) {
+          registry.setApiKeyPublicKey(key.id, queuePublicKey(queueKey.key).toString('base64'));
+          bus.releaseHeld(entityId, registry.getQueueRecipients(entityId));
+        }
       }
     }
 
-    if (!authorized) {
+    // Seal what this credential can read for the entity's other keys and grants that were added since
+    if (auth && queueKey) bus.shareWithRecipients(entityId, queueKey, registry.getQueueRecipients(entityId));
+
+    if (!auth) {
       res.setHeader('WWW-Authenticate', `Bearer resource_metadata="${BASE_URL}/.well-known/oauth-protected-resource", error="invalid_token"`);
       res.status(401).json({ error: 'Invalid token or API key' });
-      return;
+      return null;
     }
 
-    // Get entity's server configurations
-    const entityServers = registry.getEntityServers(entityId as string);
+    return { entity, auth, queueKey };
+  }
 
-    // Build entity context for tools (include encryption key if available)
+  /** Build an McpServer with this entity's tools, resources and prompts registered, scoped to the credential. */
+  function buildServer(entity: Entity, auth: SessionAuth, queueKey?: QueueKey, capabilities?: ServerCapabilities): McpServer {
+    // Build entity context for tools (the queue key opens messages sealed to this credential)
     const ctx: EntityContext = {
       entity,
-      entityServers,
+      entityServers: registry.getEntityServers(entity.id),
       registry,
       bus,
       webhookManager,
       discordClient,
-      encryptionKey: keyStore.get(entityId),
+      approvals,
+      slashCommands,
+      encryptionKey: queueKey,
+      toolScope: credentialToolScope(registry, auth),
     };
 
-    // Create stateless McpServer + transport per request
-    const server = new McpServer({ name: 'arachne', version: '0.1.0' });
+    const server = new McpServer({ name: 'arachne', version: '0.1.0' }, capabilities ? { capabilities } : undefined);
     registerTools(server, ctx);
+    registerResources(server, ctx);
+    registerPrompts(server, ctx);
+    return server;
+  }
+
+  /**
+   * Resolve the stateful session named by the Mcp-Session-Id header.
+   * Only the credential that opened the session may use it (a refreshed OAuth token of the same grant counts);
+   * the session then tracks that token's expiry. Writes a 404 (client must re-initialize) when the session is
+   * unknown, belongs to another entity or credential, or has been invalidated.
+   */
+  async function resolveSession(req: Request, res: Response, entityId: string, auth: SessionAuth): Promise<McpSession | null> {
+    const sessionId = req.headers['mcp-session-id'] as string;
+    const session = sessions.get(sessionId);
+    if (!session || session.entityId !== entityId || !sameCredential(session.auth, auth)) {
+      res.status(404).json({
+        jsonrpc: '2.0',
+        error: { code: -32001, message: 'Session not found. Re-initialize without Mcp-Session-Id.' },
+        id: null,
+      });
+      return null;
+    }
+
+    session.auth = auth;
+    const reason = sessions.invalidReason(session);
+    if (reason) {
+      await sessions.close(session.id, reason);
+      res.status(404).json({
+        jsonrpc: '2.0',
+        error: { code: -32001, message: `Session expired (${reason}). Re-initialize without Mcp-Session-Id.` },
+        id: null,
+      });
+      return null;
+    }
+
+    session.lastSeen = Date.now();
+    return session;
+  }
+
+  /**
+   * Open a stateful session for an initialize request. The SDK assigns the session ID;
+   * addressed messages landing in the entity's queue are pushed as logging notifications
+   * over the session's GET stream.
+   */
+  async function openSession(req: Request, res: Response, entity: Entity, auth: SessionAuth, queueKey?: QueueKey): Promise<void> {
+    const server = buildServer(entity, auth, queueKey, { logging: {} });
+    const fingerprint = configFingerprint(registry, entity.id);
+    const toolScope = credentialToolScope(registry, auth);
+
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => uuidv4(),
+      onsessioninitialized: (sessionId) => {
+        const unsubscribe = bus.subscribe(entity.id, (message) => {
+          if (message.kind !== 'message' && message.kind !== 'component_interaction') return;
+          if (!message.addressed && !message.triggered) return;
+          // Metadata only — content stays in the (encrypted) queue until read_messages
+          server.server.sendLoggingMessage({
+            level: 'notice',
+            logger: 'arachne',
+            data: {
+              event: 'message_queued',
+              message_id: message.messageId,
+              channel_id: message.channelId,
+              channel_name: message.channelName,
+              server_id: message.serverId,
+              author_name: message.authorName,
+              addressed: message.addressed,
+              triggered: message.triggered,
+              ...(message.dm ? { dm: true } : {}),
+              ...(message.kind === 'component_interaction' ? { kind: message.kind } : {}),
+            },
+          }, sessionId).catch(err => logger.warn(`MCP notification failed for session ${sessionId}: ${err}`));
+        });
+        sessions.add({
+          id: sessionId,
+          entityId: entity.id,
+          auth,
+          configFingerprint: fingerprint,
+          toolScope,
+          server,
+          transport,
+          lastSeen: Date.now(),
+          unsubscribe,
+        });
+      },
+      onsessionclosed: (sessionId) => sessions.close(sessionId, 'client DELETE'),
+    });
+    transport.onclose = () => {
+      if (transport.sessionId) void sessions.close(transport.sessionId, 'transport closed');
+    };
+
+    await server.connect(transport);
+    await transport.handleRequest(req, res, req.body);
+  }
+
+  // DELETE for MCP session close
+  app.delete('/mcp/:entity_id', async (req: Request, res: Response) => {
+    if (!req.headers['mcp-session-id']) {
+      // Stateless clients have nothing to tear down
+      res.status(200).json({ message: 'Session closed' });
+      return;
+    }
+
+    const authed = await authenticate(req, res);
+    if (!authed) return;
+    const session = await resolveSession(req, res, authed.entity.id, authed.auth);
+    if (!session) return;
 
     try {
+      await session.transport.handleRequest(req, res);
+    } catch (err) {
+      logger.error(`MCP session teardown error for entity ${authed.entity.id}: ${err}`);
+      await sessions.close(session.id, 'teardown error');
+      if (!res.headersSent) res.status(200).json({ message: 'Session closed' });
+    }
+  });
+
+  // GET for MCP — opens the server-to-client SSE stream of a stateful session
+  app.get('/mcp/:entity_id', async (req: Request, res: Response) => {
+    if (!req.headers['mcp-session-id']) {
+      res.status(405).json({
+        jsonrpc: '2.0',
+        error: { code: -32000, message: 'Method not allowed without Mcp-Session-Id. Initialize a session or use POST.' },
+        id: null,
+      });
+      return;
+    }
+
+    const authed = await authenticate(req, res);
+    if (!authed) return;
+    const session = await resolveSession(req, res, authed.entity.id, authed.auth);
+    if (!session) return;
+
+    try {
+      await session.transport.handleRequest(req, res);
+    } catch (err) {
+      logger.error(`MCP stream error for entity ${authed.entity.id}: ${err}`);
+      if (!res.headersSent) res.status(500).end();
+    }
+  });
+
+  // Main MCP endpoint — per-entity routing (dual auth: API key or OAuth token)
+  app.post('/mcp/:entity_id', async (req: Request, res: Response) => {
+    const authed = await authenticate(req, res);
+    if (!authed) return;
+    const { entity, auth, queueKey } = authed;
+
+    try {
+      // Existing stateful session
+      if (req.headers['mcp-session-id']) {
+        const session = await resolveSession(req, res, entity.id, auth);
+        if (!session) return;
+        await session.transport.handleRequest(req, res, req.body);
+        return;
+      }
+
+      // New stateful session
+      if (SESSIONS_ENABLED && isInitializeRequest(req.body)) {
+        await openSession(req, res, entity, auth, queueKey);
+        return;
+      }
+
+      // Create stateless McpServer + transport per request
+      const server = buildServer(entity, auth, queueKey);
       const transport = new StreamableHTTPServerTransport({
         sessionIdGenerator: undefined, // Stateless — no sessions
       });
@@ -180,7 +359,7 @@ export function createMcpHttpServer(deps: McpServerDeps): express.Express {
         server.close();
       });
     } catch (err) {
-      logger.error(`MCP request error for entity ${entityId}: ${err}`);
+      logger.error(`MCP request error for entity ${entity.id}: ${err}`);
       if (!res.headersSent) {
         res.status(500).json({
           jsonrpc: '2.0',
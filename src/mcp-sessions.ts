@@ -0,0 +1,134 @@
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { logger } from './logger.js';
+import { isExpired, type EntityRegistry } from './entity-registry.js';
+import { toolsForScope } from './oauth-scopes.js';
+
+const SESSION_IDLE_MS = 30 * 60 * 1000; // Close sessions with no requests for 30 minutes
+const SWEEP_INTERVAL_MS = 60 * 1000;    // 1 minute
+
+/** The credential that last authenticated a session. */
+export type SessionAuth =
+  | { kind: 'oauth'; jti: string; exp: number; scope: string; grantId: string | null } // exp in seconds (JWT), granted OAuth scopes; grant stays the same across refreshes
+  | { kind: 'api_key'; keyId: string };         // entity_api_keys row the key was verified against
+
+export interface McpSession {
+  id: string;
+  entityId: string;
+  auth: SessionAuth;
+  configFingerprint: string;    // entity_servers + prompt templates snapshot the server was built from
+  toolScope: string[] | undefined; // credential tool scope the server was built with
+  server: McpServer;
+  transport: StreamableHTTPServerTransport;
+  lastSeen: number;
+  unsubscribe: () => void;      // detaches the session's MessageBus listener
+}
+
+/**
+ * Fingerprint an entity's server configuration and prompt templates. Tools and prompts are
+ * registered once per session, so a session whose whitelist or templates changed must be closed and re-initialized.
+ */
+export function configFingerprint(registry: EntityRegistry, entityId: string): string {
+  return JSON.stringify([registry.getEntityServers(entityId), registry.getEntityPrompts(entityId)]);
+}
+
+/**
+ * Whether a request presents the credential a session was opened with: the same API key, or an access token
+ * from the same OAuth grant (refreshed tokens keep the grant). Tokens issued before grant IDs must match exactly.
+ * Anything else must open its own session — the session's server holds the opener's tool scope and queue key.
+ */
+export function sameCredential(session: SessionAuth, presented: SessionAuth): boolean {
+  if (session.kind === 'api_key') return presented.kind === 'api_key' && presented.keyId === session.keyId;
+  if (presented.kind !== 'oauth') return false;
+  return session.grantId ? presented.grantId === session.grantId : presented.jti === session.jti;
+}
+
+/**
+ * Tools a credential is restricted to, or undefined when it is not restricted.
+ */
+export function credentialToolScope(registry: EntityRegistry, auth: SessionAuth): string[] | undefined {
+  if (auth.kind === 'oauth') return toolsForScope(auth.scope);
+  const tools: string[] = JSON.parse(registry.getApiKey(auth.keyId)?.tools || '[]');
+  return tools.length > 0 ? tools : undefined;
+}
+
+/**
+ * Volatile registry of stateful Streamable HTTP sessions.
+ * Each session is bound to one entity and is closed as soon as its credential is revoked,
+ * expires, or the API key is revoked. Process restart = all sessions gone.
+ */
+export class McpSessionStore {
+  private sessions: Map<string, McpSession> = new Map();
+  private sweepTimer: NodeJS.Timeout | null = null;
+
+  constructor(private registry: EntityRegistry) {}
+
+  start(): void {
+    this.sweepTimer = setInterval(() => this.sweep(), SWEEP_INTERVAL_MS);
+    this.sweepTimer.unref();
+  }
+
+  add(session: McpSession): void {
+    this.sessions.set(session.id, session);
+    logger.info(`MCP session opened: entity=${session.entityId} session=${session.id}`);
+  }
+
+  get(id: string): McpSession | undefined {
+    return this.sessions.get(id);
+  }
+
+  /**
+   * Why a session may no longer be used, or null if it is still valid.
+   */
+  invalidReason(session: McpSession): string | null {
+    const entity = this.registry.getEntity(session.entityId);
+    if (!entity || !entity.active) return 'entity deactivated';
+
+    if (session.auth.kind === 'oauth') {
+      if (session.auth.exp * 1000 <= Date.now()) return 'access token expired';
+      if (this.registry.isAccessTokenRevoked(session.auth.jti)) return 'access token revoked';
+    } else {
+      const key = this.registry.getApiKey(session.auth.keyId);
+      if (!key || key.revoked) return 'API key revoked';
+      if (isExpired(key)) return 'API key expired';
+    }
+
+    // Tools were registered for the credential's scope; a credential with another scope needs a new session
+    if (JSON.stringify(credentialToolScope(this.registry, session.auth)) !== JSON.stringify(session.toolScope)) {
+      return 'credential scope changed';
+    }
+
+    if (Date.now() - session.lastSeen > SESSION_IDLE_MS) return 'idle timeout';
+    if (configFingerprint(this.registry, session.entityId) !== session.configFingerprint) return 'entity configuration changed';
+    return null;
+  }
+
+  /**
+   * Close a session: detach its bus listener, end any open SSE stream, and forget it.
+   * Safe to call more than once (transport close callbacks land here too).
+   */
+  async close(id: string, reason: string): Promise<void> {
+    const session = this.sessions.get(id);
+    if (!session) return;
+    this.sessions.delete(id);
+    session.unsubscribe();
+    logger.info(`MCP session closed (${reason}): entity=${session.entityId} session=${id}`);
+    try {
+      await session.transport.close();
+      await session.server.close();
+    } catch (err) {
+      logger.warn(`Error closing MCP session ${id}: ${err}`);
+    }
+  }
+
+  count(): number {
+    return this.sessions.size;
+  }
+
+  private sweep(): void {
+    for (const session of [...this.sessions.values()]) {
+      const reason = this.invalidReason(session);
+      if (reason) void this.close(session.id, reason);
+    }
+  }
+}
@@ -1,7 +1,23 @@
-import { z } from 'zod';
-import { ChannelType, type TextChannel } from 'discord.js';
-import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z, type ZodRawShape } from 'zod';
+import {
+  ActionRowBuilder,
+  ButtonBuilder,
+  ButtonStyle,
+  ChannelType,
+  StringSelectMenuBuilder,
+  type Message,
+  type TextChannel,
+} from 'discord.js';
+import type { McpServer, ToolCallback } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { createEntityAccess } from './entity-access.js';
+import { loopGuard } from './loop-guard.js';
+import { rateLimiter } from './rate-limiter.js';
+import { AUDITED_TOOLS, recordToolCall } from './audit-log.js';
+import { MAX_ENTITY_CUSTOM_ID, componentCustomId } from './component-interactions.js';
+import { MAX_EMBEDS, embedLimitError, parseHexColor, toDiscordEmbed } from './embeds.js';
 import type { EntityContext } from './types.js';
+import type { ReplyReference } from './webhook-manager.js';
 
 /**
  * Translate Discord API errors into human-readable messages.
@@ -16,50 +32,157 @@ function friendlyError(err: unknown): string {
   return msg;
 }
 
+const REPLY_EXCERPT_MAX = 100;
+
+// Discord component limits
+const MAX_COMPONENT_ROWS = 5;
+const BUTTONS_PER_ROW = 5;
+
+const BUTTON_STYLES = {
+  primary: ButtonStyle.Primary,
+  secondary: ButtonStyle.Secondary,
+  success: ButtonStyle.Success,
+  danger: ButtonStyle.Danger,
+  link: ButtonStyle.Link,
+} as const;
+
+/**
+ * Quoted header standing in for a native reply (webhooks can't set message_reference).
+ * Humans are mentioned so they get pinged like a normal reply; entities are named.
+ */
+function replyHeader(target: Message): string {
+  const text = target.content.replace(/\s+/g, ' ').trim()
+    || (target.attachments.size > 0 ? '[attachment]' : target.embeds.length > 0 ? '[embed]' : '[message]');
+  const excerpt = text.length > REPLY_EXCERPT_MAX ? text.slice(0, REPLY_EXCERPT_MAX) + '…' : text;
+  const name = target.member?.displayName || target.author.displayName || target.author.username;
+  const who = target.webhookId ? `**${name}**` : `<@${target.author.id}>`;
+  return `> ${who} ${excerpt}\n-# ↪ [Jump to message](${target.url})\n`;
+}
+
 /**
  * Register Phase 1 MCP tools on an McpServer, scoped to an entity context.
  */
 export function registerTools(server: McpServer, ctx: EntityContext): void {
   const { entity, entityServers, bus, webhookManager, discordClient } = ctx;
 
-  // Compute per-server access: servers with [] = all channels, others = specific channels only
-  const allAccessServerIds = new Set<string>();
-  const allowedChannels = new Set<string>();
-  for (const es of entityServers) {
-    const channels: string[] = JSON.parse(es.channels);
-    if (channels.length === 0) {
-      allAccessServerIds.add(es.server_id);
-    } else {
-      channels.forEach(ch => allowedChannels.add(ch));
-    }
-  }
-
-  const allowedServerIds = new Set(entityServers.map(es => es.server_id));
+  const { allowedServerIds, canAccessChannel, isToolAllowedOnServer, serversAllowing, serverForChannel } = createEntityAccess(ctx);
+
+  /**
+   * Register a tool behind the admin tool whitelist and the rate limiter.
+   * Tools no server allows (or outside the credential's tool scope) are left out of tools/list entirely; calls targeting a
+   * server (server_id), channel (channel_id) or /ask (interaction_id) are rejected if that server's whitelist excludes the tool.
+   * Calls over the entity's (operator) or server's (admin) limit for the tool's category get a retry-after error.
+   * Mutating calls on a server where an admin used /mute are refused until the mute ends.
+   * Tools the server requires approval for are held as a pending action instead of running.
+   * Mutating calls that run are written to the audit log.
+   */
+  function registerTool<Args extends ZodRawShape>(name: string, description: string, paramsSchema: Args, cb: ToolCallback<Args>): void {
+    if (ctx.toolScope && !ctx.toolScope.includes(name)) return;
+    if (entityServers.length > 0 && serversAllowing(name).size === 0) return;
+
+    // The guard only reads server_id/channel_id/interaction_id, so it takes the args as any shape; the SDK has already parsed them against paramsSchema
+    const guarded: ToolCallback<ZodRawShape> = async (args, extra) => {
+      const serverId = typeof args.server_id === 'string'
+        ? args.server_id
+        : typeof args.channel_id === 'string' ? serverForChannel(args.channel_id)
+        : typeof args.interaction_id === 'string' ? ctx.slashCommands.serverForInteraction(entity.id, args.interaction_id)
+        : null;
+      if (serverId && allowedServerIds.has(serverId) && !isToolAllowedOnServer(serverId, name)) {
+        return { content: [{ type: 'text' as const, text: `Error: The ${name} tool is not enabled for you on this server.` }] };
+      }
+      const limitedServerId = serverId && allowedServerIds.has(serverId) ? serverId : null;
+      const mutedUntil = limitedServerId && AUDITED_TOOLS.has(name) ? ctx.registry.getEntityMute(entity.id, limitedServerId) : null;
+      if (mutedUntil) {
+        return { content: [{ type: 'text' as const, text: `Error: A server admin muted you on this server until ${mutedUntil}.` }] };
+      }
+      const hit = rateLimiter.take(
+        entity.id,
+        limitedServerId,
+        name,
+        ctx.registry.getOperatorRateLimits(),
+        limitedServerId ? ctx.registry.getServerRateLimits(limitedServerId) : {},
+      );
+      if (hit) {
+        const by = hit.scope === 'server' ? 'this server\'s' : 'your';
+        return {
+          content: [{ type: 'text' as const, text: `Error: Rate limit reached for ${hit.category} tools (${by} limit: ${hit.limit.burst} at once, ${hit.limit.per_minute}/min). Retry after ${hit.retryAfterSeconds} seconds.` }],
+          structuredContent: { error: 'rate_limited', category: hit.category, scope: hit.scope, retry_after_seconds: hit.retryAfterSeconds },
+          isError: true,
+        };
+      }
+      const run = async () => {
+        const result = await cb(args, extra);
+        recordToolCall(ctx.registry, discordClient, entity, name, limitedServerId, args, result);
+        return result;
+      };
+      if (limitedServerId && ctx.approvals.requiresApproval(limitedServerId, name)) {
+        const action = ctx.approvals.request(entity, limitedServerId, name, args, run);
+        return {
+          content: [{ type: 'text' as const, text: JSON.stringify({
+            status: 'pending_approval',
+            action_id: action.id,
+            expires_at: action.expires_at,
+            note: `This server requires a human to approve ${name}. It has not run yet. Use check_pending_action to see whether it was approved and executed.`,
+          }) }],
+        };
+      }
+      return run();
+    };
 
-  function canAccessChannel(channelId: string): boolean {
-    // If this specific channel is whitelisted, allow
-    if (allowedChannels.has(channelId)) return true;
-    // Otherwise check if the channel's server has all-access
-    const channel = discordClient.channels.cache.get(channelId);
-    if (!channel || !('guildId' in channel) || !channel.guildId) return false;
-    return allAccessServerIds.has(channel.guildId);
+    server.tool<ZodRawShape>(name, description, paramsSchema, guarded);
   }
 
   // --- read_messages ---
-  server.tool(
+  registerTool(
     'read_messages',
-    'Read recent messages from the queue for subscribed channels. Messages are held for 15 minutes after they arrive. Use addressed_only to filter for messages directed at you (trigger words or @mentions). Use unread_only to get only messages you haven\'t seen yet.',
+    'Read recent messages from the queue for subscribed channels. Messages are held for 15 minutes after they arrive. Each entry has a kind: "message" (new post), "edit" (content changed — replaces the earlier version), "delete" (the message is gone — do not reply to it), "reaction_add" or "reaction_remove" (emoji field set, author is the reacting user), "component_interaction" (someone clicked a button or picked from a select menu you sent with send_interactive_message — custom_id and values set, author is that user). Messages may also carry attachments (filename, size, content_type, url), embeds (title, description, url, image_url), stickers (names) and reply_to (the message being replied to), and thread_id/parent_id when posted in a thread or forum post — content can be empty when a post is only an image or file. DMs to you carry dm: true (channel_id is the DM channel) — answer them with send_dm to the author_id. Questions asked with the /ask slash command carry an interaction_id — answer them with respond_to_interaction. Use addressed_only to filter for messages directed at you (trigger words or @mentions). Use unread_only to get only messages you haven\'t seen yet.',
     {
-      channel_id: z.string().optional().describe('Channel ID to read from. If omitted, reads from all subscribed channels.'),
+      channel_id: z.string().optional().describe('Channel ID to read from (includes its threads and forum posts). If omitted, reads from all subscribed channels.'),
       limit: z.number().optional().default(50).describe('Maximum number of messages to return (default 50)'),
       addressed_only: z.boolean().optional().default(false).describe('If true, only return messages directed at you — either matching a trigger word or mentioning your role.'),
       unread_only: z.boolean().optional().default(false).describe('If true, only return messages received since your last read. The cursor advances after each call.'),
+      kinds: z.array(z.enum(['message', 'edit', 'delete', 'reaction_add', 'reaction_remove', 'component_interaction'])).optional().describe('Only return these event kinds. If omitted, returns all kinds.'),
+    },
+    async ({ channel_id, limit, addressed_only, unread_only, kinds }) => {
+      if (channel_id && !canAccessChannel(channel_id)) {
+        return { content: [{ type: 'text' as const, text: 'Error: You do not have access to this channel.' }] };
+      }
+      const readableServers = serversAllowing('read_messages');
+      const messages = bus.read(entity.id, channel_id, limit, ctx.encryptionKey, addressed_only, unread_only, kinds)
+        .filter(m => m.dm || readableServers.has(m.server_id));
+      return {
+        content: [{ type: 'text' as const, text: JSON.stringify(messages, null, 2) }],
+      };
+    }
+  );
+
+  // --- wait_for_messages ---
+  registerTool(
+    'wait_for_messages',
+    'Wait for new messages instead of polling read_messages. Holds the call open until a matching message arrives or the timeout expires, then returns what arrived (an empty array on timeout). Only messages arriving after the call starts are returned — call read_messages first for anything already queued. Entries have the same shape as read_messages.',
+    {
+      channel_id: z.string().optional().describe('Only wake for messages in this channel (including its threads). If omitted, any subscribed channel.'),
+      addressed_only: z.boolean().optional().default(false).describe('If true, only wake for messages directed at you — trigger words or role mentions.'),
+      author_id: z.string().optional().describe('Only wake for messages from this user ID.'),
+      kinds: z.array(z.enum(['message', 'edit', 'delete', 'reaction_add', 'reaction_remove', 'component_interaction'])).optional().describe('Only wake for these event kinds. If omitted, all kinds.'),
+      timeout_seconds: z.number().min(1).max(120).optional().default(30).describe('How long to wait before returning empty (default 30, max 120)'),
     },
-    async ({ channel_id, limit, addressed_only, unread_only }) => {
+    async ({ channel_id, addressed_only, author_id, kinds, timeout_seconds }, extra) => {
       if (channel_id && !canAccessChannel(channel_id)) {
         return { content: [{ type: 'text' as const, text: 'Error: You do not have access to this channel.' }] };
       }
-      const messages = bus.read(entity.id, channel_id, limit, ctx.encryptionKey, addressed_only, unread_only);
+      const readableServers = serversAllowing('read_messages');
+      const messages = await bus.waitFor(
+        entity.id,
+        m => (m.dm || readableServers.has(m.serverId))
+          && (!channel_id || m.channelId === channel_id || m.parentId === channel_id)
+          && (!addressed_only || m.addressed || m.triggered)
+          && (!author_id || m.authorId === author_id)
+          && (!kinds || kinds.length === 0 || kinds.includes(m.kind)),
+        timeout_seconds * 1000,
+        ctx.encryptionKey,
+        extra.signal,
+      );
       return {
         content: [{ type: 'text' as const, text: JSON.stringify(messages, null, 2) }],
       };
@@ -67,25 +190,195 @@ export function registerTools(server: McpServer, ctx: EntityContext): void {
   );
 
   // --- send_message ---
-  server.tool(
+  registerTool(
     'send_message',
-    'Send a message to a Discord channel as this entity (with your name and avatar). To mention users use <@USER_ID>, roles use <@&ROLE_ID>, channels use <#CHANNEL_ID>.',
+    `Send a message to a Discord channel as this entity (with your name and avatar). To mention users use <@USER_ID>, roles use <@&ROLE_ID>, channels use <#CHANNEL_ID>. Set reply_to_message_id to reply to a specific message — it is shown as a quoted reply header with a jump link. Add embeds (up to ${MAX_EMBEDS}) for formatted summaries, character sheets and reports; content can then be empty. Embeds without a color use your accent colour. Content over 2000 characters is split into several messages at paragraph, line or sentence breaks (code blocks are closed and reopened) — every message ID is returned in message_ids. Set overflow to "attachment" to send the first part with the full text attached as message.md instead.`,
     {
       channel_id: z.string().describe('The channel ID to send the message to'),
-      content: z.string().describe('The message content to send. Use <@USER_ID> to mention users, <@&ROLE_ID> for roles, <#CHANNEL_ID> for channels.'),
+      content: z.string().optional().default('').describe('The message content to send. Use <@USER_ID> to mention users, <@&ROLE_ID> for roles, <#CHANNEL_ID> for channels. May be empty when embeds are given.'),
+      thread_id: z.string().optional().describe('Thread or forum post inside channel_id to post into (from create_thread, create_forum_post, or a queued message\'s thread_id)'),
+      reply_to_message_id: z.string().optional().describe('Message to reply to, in the same channel (or thread, when thread_id is set)'),
+      embeds: z.array(z.object({
+        title: z.string().optional().describe('Up to 256 characters'),
+        description: z.string().optional().describe('Markdown, up to 4096 characters'),
+        url: z.string().url().optional().describe('Link for the title'),
+        color: z.string().optional().describe('Hex colour like "#5865F2" (default: your accent colour)'),
+        fields: z.array(z.object({
+          name: z.string().describe('Up to 256 characters'),
+          value: z.string().describe('Markdown, up to 1024 characters'),
+          inline: z.boolean().optional().describe('Show side by side with neighbouring inline fields'),
+        })).optional().describe('Up to 25 fields'),
+        image_url: z.string().url().optional().describe('Large image below the embed'),
+        thumbnail_url: z.string().url().optional().describe('Small image in the top right'),
+        footer: z.string().optional().describe('Footer text, up to 2048 characters'),
+        timestamp: z.string().optional().describe('ISO 8601 date shown in the footer'),
+      })).optional().describe(`Embeds to attach (up to ${MAX_EMBEDS}; all their text together at most 6000 characters)`),
+      overflow: z.enum(['split', 'attachment']).optional().default('split').describe('Content over 2000 characters: "split" into several messages (default, at most 10), or "attachment" — first part plus the full text as a .md file'),
     },
-    async ({ channel_id, content }) => {
+    async ({ channel_id, content, thread_id, reply_to_message_id, embeds = [], overflow }) => {
       if (!canAccessChannel(channel_id)) {
         return { content: [{ type: 'text' as const, text: 'Error: You do not have access to this channel.' }] };
       }
+      if (!content && embeds.length === 0) {
+        return { content: [{ type: 'text' as const, text: 'Error: Give content, embeds, or both.' }] };
+      }
+      const embedError = embedLimitError(embeds);
+      if (embedError) {
+        return { content: [{ type: 'text' as const, text: `Error: ${embedError}` }] };
+      }
+
+      // Loop guards apply once this entity can hear other entities on the channel's server
+      const es = entityServers.find(s => s.server_id === serverForChannel(channel_id));
+      const conversationId = thread_id ?? channel_id;
+      if (es?.hear_entities) {
+        const blocked = loopGuard.check(conversationId, entity.id, {
+          maxReplyDepth: es.max_reply_depth,
+          replyCooldownSeconds: es.reply_cooldown_seconds,
+          hopBudget: es.hop_budget,
+        });
+        if (blocked) {
+          return { content: [{ type: 'text' as const, text: `Error: ${blocked}` }] };
+        }
+      }
+
       try {
+        let text = content;
+        let replyTo: ReplyReference | undefined;
+        if (reply_to_message_id) {
+          // The reply target is looked up where the post goes, so the thread must belong to channel_id first
+          const channel = await discordClient.channels.fetch(thread_id ?? channel_id);
+          if (thread_id && (!channel || !channel.isThread() || channel.parentId !== channel_id)) {
+            return { content: [{ type: 'text' as const, text: `Error: Thread ${thread_id} not found in channel ${channel_id}.` }] };
+          }
+          if (!channel || !('messages' in channel)) {
+            return { content: [{ type: 'text' as const, text: 'Error: Channel not found or not a text channel.' }] };
+          }
+          const target: Message = await channel.messages.fetch(reply_to_message_id);
+          text = replyHeader(target) + content;
+          replyTo = { messageId: target.id, authorId: target.author.id };
+        }
+
         const result = await webhookManager.sendAsEntity(
+          channel_id,
+          text,
+          entity.name,
+          entity.avatar_url,
+          entity.id,
+          thread_id,
+          replyTo,
+          embeds.map(e => toDiscordEmbed(e, parseHexColor(entity.accent_color))),
+          overflow
+        );
+        loopGuard.recordSend(conversationId, entity.id);
+        return {
+          content: [{ type: 'text' as const, text: JSON.stringify({ success: true, message_id: result.messageId, message_ids: result.messageIds }) }],
+        };
+      } catch (err) {
+        return {
+          content: [{ type: 'text' as const, text: `Error: ${friendlyError(err)}` }],
+        };
+      }
+    }
+  );
+
+  // --- send_interactive_message ---
+  registerTool(
+    'send_interactive_message',
+    `Send a message with buttons and/or select menus as this entity — for polls, choose-your-path games and confirmation prompts. When someone clicks a button or picks from a menu you get a "component_interaction" event in read_messages: author is the user, message id is this message, custom_id is the id you gave the button or menu, values are the chosen option values (select menus), and content is the button label or the values. Clicks are acknowledged silently — reply with send_message if you want to answer. Up to ${MAX_COMPONENT_ROWS} rows: buttons take a row per ${BUTTONS_PER_ROW}, each select menu takes a row of its own. Link buttons open a URL and send no event.`,
+    {
+      channel_id: z.string().describe('The channel ID to send the message to'),
+      content: z.string().max(2000).describe('The message text shown above the components'),
+      thread_id: z.string().optional().describe('Thread or forum post inside channel_id to post into'),
+      buttons: z.array(z.object({
+        id: z.string().min(1).max(MAX_ENTITY_CUSTOM_ID).optional().describe('Your ID for the button, returned as custom_id when clicked (required unless style is link)'),
+        label: z.string().min(1).max(80).describe('Button text'),
+        style: z.enum(['primary', 'secondary', 'success', 'danger', 'link']).optional().default('primary').describe('Button colour; "link" opens url instead of sending an event'),
+        url: z.string().url().optional().describe('URL for link buttons'),
+        emoji: z.string().optional().describe('Unicode emoji shown before the label'),
+      })).max(MAX_COMPONENT_ROWS * BUTTONS_PER_ROW).optional().describe('Buttons, laid out left to right in rows of 5'),
+      select_menus: z.array(z.object({
+        id: z.string().min(1).max(MAX_ENTITY_CUSTOM_ID).describe('Your ID for the menu, returned as custom_id when used'),
+        placeholder: z.string().max(150).optional().describe('Text shown before anything is picked'),
+        options: z.array(z.object({
+          label: z.string().min(1).max(100),
+          value: z.string().min(1).max(100).describe('Returned in values when picked'),
+          description: z.string().max(100).optional(),
+          emoji: z.string().optional(),
+        })).min(1).max(25),
+        min_values: z.number().int().min(0).max(25).optional().default(1).describe('Fewest options that must be picked (default 1)'),
+        max_values: z.number().int().min(1).max(25).optional().default(1).describe('Most options that can be picked (default 1)'),
+      })).max(MAX_COMPONENT_ROWS).optional().describe('Select menus, one per row'),
+    },
+    async ({ channel_id, content, thread_id, buttons = [], select_menus = [] }) => {
+      if (!canAccessChannel(channel_id)) {
+        return { content: [{ type: 'text' as const, text: 'Error: You do not have access to this channel.' }] };
+      }
+      if (buttons.length === 0 && select_menus.length === 0) {
+        return { content: [{ type: 'text' as const, text: 'Error: Give at least one button or select menu — use send_message for plain text.' }] };
+      }
+      if (Math.ceil(buttons.length / BUTTONS_PER_ROW) + select_menus.length > MAX_COMPONENT_ROWS) {
+        return { content: [{ type: 'text' as const, text: `Error: Too many components — buttons take a row per ${BUTTONS_PER_ROW} and each select menu a row, ${MAX_COMPONENT_ROWS} rows at most.` }] };
+      }
+      for (const button of buttons) {
+        if (button.style === 'link' ? !button.url : !button.id) {
+          return { content: [{ type: 'text' as const, text: `Error: Button "${button.label}" needs ${button.style === 'link' ? 'a url' : 'an id'}.` }] };
+        }
+      }
+      for (const menu of select_menus) {
+        if (menu.min_values > menu.max_values || menu.max_values > menu.options.length) {
+          return { content: [{ type: 'text' as const, text: `Error: Select menu "${menu.id}" needs min_values ≤ max_values ≤ the number of options.` }] };
+        }
+      }
+      const ids = [...buttons.flatMap(b => b.style === 'link' ? [] : [b.id!]), ...select_menus.map(m => m.id)];
+      if (new Set(ids).size !== ids.length) {
+        return { content: [{ type: 'text' as const, text: 'Error: Button and select menu ids must be unique within a message.' }] };
+      }
+
+      // Loop guards apply once this entity can hear other entities on the channel's server
+      const es = entityServers.find(s => s.server_id === serverForChannel(channel_id));
+      const conversationId = thread_id ?? channel_id;
+      if (es?.hear_entities) {
+        const blocked = loopGuard.check(conversationId, entity.id, {
+          maxReplyDepth: es.max_reply_depth,
+          replyCooldownSeconds: es.reply_cooldown_seconds,
+          hopBudget: es.hop_budget,
+        });
+        if (blocked) {
+          return { content: [{ type: 'text' as const, text: `Error: ${blocked}` }] };
+        }
+      }
+
+      const rows: Array<ActionRowBuilder<ButtonBuilder> | ActionRowBuilder<StringSelectMenuBuilder>> = [];
+      for (let i = 0; i < buttons.length; i += BUTTONS_PER_ROW) {
+        rows.push(new ActionRowBuilder<ButtonBuilder>().addComponents(buttons.slice(i, i + BUTTONS_PER_ROW).map(b => {
+          const button = new ButtonBuilder().setLabel(b.label).setStyle(BUTTON_STYLES[b.style]);
+          if (b.style === 'link') button.setURL(b.url!);
+          else button.setCustomId(componentCustomId(entity.id, b.id!));
+          if (b.emoji) button.setEmoji(b.emoji);
+          return button;
+        })));
+      }
+      for (const m of select_menus) {
+        const menu = new StringSelectMenuBuilder()
+          .setCustomId(componentCustomId(entity.id, m.id))
+          .setMinValues(m.min_values)
+          .setMaxValues(m.max_values)
+          .addOptions(m.options);
+        if (m.placeholder) menu.setPlaceholder(m.placeholder);
+        rows.push(new ActionRowBuilder<StringSelectMenuBuilder>().addComponents(menu));
+      }
+
+      try {
+        const result = await webhookManager.sendComponentsAsEntity(
           channel_id,
           content,
+          rows.map(row => row.toJSON()),
           entity.name,
           entity.avatar_url,
-          entity.id
+          entity.id,
+          thread_id
         );
+        loopGuard.recordSend(conversationId, entity.id);
         return {
           content: [{ type: 'text' as const, text: JSON.stringify({ success: true, message_id: result.messageId }) }],
         };
@@ -98,7 +391,7 @@ export function registerTools(server: McpServer, ctx: EntityContext): void {
   );
 
   // --- add_reaction ---
-  server.tool(
+  registerTool(
     'add_reaction',
     'Add a reaction emoji to a message.',
     {
@@ -129,7 +422,7 @@ export function registerTools(server: McpServer, ctx: EntityContext): void {
   );
 
   // --- remove_reaction ---
-  server.tool(
+  registerTool(
     'remove_reaction',
     'Remove the bot\'s reaction from a message.',
     {
@@ -160,7 +453,7 @@ export function registerTools(server: McpServer, ctx: EntityContext): void {
   );
 
   // --- list_channels ---
-  server.tool(
+  registerTool(
     'list_channels',
     'List Discord channels this entity can access.',
     {},
@@ -168,18 +461,16 @@ export function registerTools(server: McpServer, ctx: EntityContext): void {
       try {
         const result: Array<{ id: string; name: string; type: string; server_id: string; server_name: string; category?: string; category_id?: string }> = [];
 
+        const listableServers = serversAllowing('list_channels');
         for (const es of entityServers) {
+          if (!listableServers.has(es.server_id)) continue;
           const guild = discordClient.guilds.cache.get(es.server_id);
           if (!guild) continue;
 
-          const channels = guild.channels.cache;
-          const allowedInServer: string[] = JSON.parse(es.channels);
-          const allChannels = allowedInServer.length === 0;
-
-          for (const [id, channel] of channels) {
+          for (const [id, channel] of guild.channels.cache) {
             if (!channel.isTextBased() && channel.type !== 15) continue; // 15 = GuildForum
             if (channel.isDMBased()) continue;
-            if (!allChannels && !allowedInServer.includes(id)) continue;
+            if (!canAccessChannel(id)) continue;
 
             result.push({
               id,
@@ -205,7 +496,7 @@ export function registerTools(server: McpServer, ctx: EntityContext): void {
   );
 
   // --- get_entity_info ---
-  server.tool(
+  registerTool(
     'get_entity_info',
     'Get information about this entity — identity, description, platform, partner, servers, and channels. Call this at the start of a session to understand who you are.',
     {},
@@ -213,6 +504,7 @@ export function registerTools(server: McpServer, ctx: EntityContext): void {
       const servers = entityServers.map(es => ({
         server_id: es.server_id,
         channels: JSON.parse(es.channels),
+        blocked_channels: JSON.parse(es.blocked_channels || '[]'),
         tools: JSON.parse(es.tools),
       }));
 
@@ -234,7 +526,7 @@ export function registerTools(server: McpServer, ctx: EntityContext): void {
   );
 
   // --- introduce ---
-  server.tool(
+  registerTool(
     'introduce',
     'Post a rich namecard embed in a channel introducing this entity. Shows name, description, platform, and partner. Use this when joining a new channel or when someone asks who you are.',
     {
@@ -284,7 +576,7 @@ export function registerTools(server: McpServer, ctx: EntityContext): void {
   );
 
   // --- get_channel_history ---
-  server.tool(
+  registerTool(
     'get_channel_history',
     'Fetch recent message history from a Discord channel (live from Discord API, not from queue). Use this to catch up on messages from before you connected.',
     {
@@ -328,7 +620,7 @@ export function registerTools(server: McpServer, ctx: EntityContext): void {
   );
 
   // --- leave_server ---
-  server.tool(
+  registerTool(
     'leave_server',
     'Remove this entity from a server. Deletes the entity role and stops receiving messages from that server. This action is irreversible without admin re-adding.',
     {
@@ -382,9 +674,9 @@ export function registerTools(server: McpServer, ctx: EntityContext): void {
   // --- Messaging ---
 
   // --- send_dm ---
-  server.tool(
+  registerTool(
     'send_dm',
-    'Send a direct message to a Discord user. The user must share a server with this entity. Note: the DM comes from the Arachne bot, not this entity\'s webhook persona.',
+    'Send a direct message to a Discord user. The user must share a server with this entity. Note: the DM comes from the Arachne bot, not this entity\'s webhook persona. If your owner turned on DM intake, the user\'s replies are queued for you with dm: true — answer them with send_dm to their author_id.',
     {
       user_id: z.string().describe('The Discord user ID to DM'),
       content: z.string().describe('The message content to send'),
@@ -393,7 +685,7 @@ export function registerTools(server: McpServer, ctx: EntityContext): void {
       try {
         // Verify user shares a mutual server with this entity
         let isMutual = false;
-        for (const serverId of allowedServerIds) {
+        for (const serverId of serversAllowing('send_dm')) {
           const guild = discordClient.guilds.cache.get(serverId);
           if (guild) {
             try {
@@ -412,6 +704,8 @@ export function registerTools(server: McpServer, ctx: EntityContext): void {
         const user = await discordClient.users.fetch(user_id);
         const dmContent = `**Message from ${entity.name}:**\n${content}`;
         const msg = await user.send(dmContent);
+        // Their replies come back to this entity (if it takes DMs)
+        ctx.registry.setDmTarget(user_id, entity.id);
         return {
           content: [{ type: 'text' as const, text: JSON.stringify({ success: true, message_id: msg.id }) }],
         };
@@ -423,8 +717,33 @@ export function registerTools(server: McpServer, ctx: EntityContext): void {
     }
   );
 
+  // --- respond_to_interaction ---
+  registerTool(
+    'respond_to_interaction',
+    'Answer someone who asked you a question with the /ask slash command. Queued /ask messages carry an interaction_id. The first response replaces Discord\'s "thinking…" placeholder in that channel; later ones are posted as follow-ups. The interaction expires 15 minutes after the question was asked. The answer is posted by the Arachne bot, prefixed with your name.',
+    {
+      interaction_id: z.string().describe('The interaction_id from the queued /ask message'),
+      content: z.string().describe('Your answer'),
+    },
+    async ({ interaction_id, content }) => {
+      try {
+        const outcome = await ctx.slashCommands.respond(entity, interaction_id, content);
+        if (typeof outcome === 'string') {
+          return { content: [{ type: 'text' as const, text: `Error: ${outcome}` }] };
+        }
+        return {
+          content: [{ type: 'text' as const, text: JSON.stringify({ success: true, message_id: outcome.message_id }) }],
+        };
+      } catch (err) {
+        return {
+          content: [{ type: 'text' as const, text: `Error: ${friendlyError(err)}` }],
+        };
+      }
+    }
+  );
+
   // --- send_file ---
-  server.tool(
+  registerTool(
     'send_file',
     'Send a file attachment to a Discord channel as this entity (with your name and avatar).',
     {
@@ -432,8 +751,9 @@ export function registerTools(server: McpServer, ctx: EntityContext): void {
       file_name: z.string().describe('The file name (e.g., "image.png")'),
       file_data: z.string().describe('The file content, base64-encoded'),
       content: z.string().optional().describe('Optional message text to include with the file'),
+      thread_id: z.string().optional().describe('Thread or forum post inside channel_id to post into (from create_thread, create_forum_post, or a queued message\'s thread_id)'),
     },
-    async ({ channel_id, file_name, file_data, content }) => {
+    async ({ channel_id, file_name, file_data, content, thread_id }) => {
       if (!canAccessChannel(channel_id)) {
         return { content: [{ type: 'text' as const, text: 'Error: You do not have access to this channel.' }] };
       }
@@ -446,7 +766,8 @@ export function registerTools(server: McpServer, ctx: EntityContext): void {
           entity.name,
           entity.avatar_url,
           content,
-          entity.id
+          entity.id,
+          thread_id
         );
         return {
           content: [{ type: 'text' as const, text: JSON.stringify({ success: true, message_id: result.messageId }) }],
@@ -462,7 +783,7 @@ export function registerTools(server: McpServer, ctx: EntityContext): void {
   // --- Channel & Category Management ---
 
   // --- create_channel ---
-  server.tool(
+  registerTool(
     'create_channel',
     'Create a new channel in a Discord server.',
     {
@@ -510,7 +831,7 @@ export function registerTools(server: McpServer, ctx: EntityContext): void {
   );
 
   // --- set_channel_topic ---
-  server.tool(
+  registerTool(
     'set_channel_topic',
     'Set the topic of a text channel.',
     {
@@ -539,7 +860,7 @@ export function registerTools(server: McpServer, ctx: EntityContext): void {
   );
 
   // --- rename_channel ---
-  server.tool(
+  registerTool(
     'rename_channel',
     'Rename a Discord channel.',
     {
@@ -568,7 +889,7 @@ export function registerTools(server: McpServer, ctx: EntityContext): void {
   );
 
   // --- delete_channel ---
-  server.tool(
+  registerTool(
     'delete_channel',
     'Delete a Discord channel. DANGEROUS — this action is irreversible.',
     {
@@ -597,7 +918,7 @@ export function registerTools(server: McpServer, ctx: EntityContext): void {
   );
 
   // --- create_category ---
-  server.tool(
+  registerTool(
     'create_category',
     'Create a new category in a Discord server.',
     {
@@ -631,7 +952,7 @@ export function registerTools(server: McpServer, ctx: EntityContext): void {
   );
 
   // --- move_channel ---
-  server.tool(
+  registerTool(
     'move_channel',
     'Move a channel to a different category or position.',
     {
@@ -669,7 +990,7 @@ export function registerTools(server: McpServer, ctx: EntityContext): void {
   // --- Reactions ---
 
   // --- get_reactions ---
-  server.tool(
+  registerTool(
     'get_reactions',
     'Get all reactions on a message, including which users reacted.',
     {
@@ -711,7 +1032,7 @@ export function registerTools(server: McpServer, ctx: EntityContext): void {
   // --- Polls ---
 
   // --- create_poll ---
-  server.tool(
+  registerTool(
     'create_poll',
     'Create a poll in a Discord channel. Note: polls are sent as the bot, not the entity webhook persona.',
     {
@@ -759,20 +1080,21 @@ export function registerTools(server: McpServer, ctx: EntityContext): void {
   // --- Message Management ---
 
   // --- edit_message ---
-  server.tool(
+  registerTool(
     'edit_message',
     'Edit a webhook message sent by this entity. Can only edit messages originally sent by this entity\'s webhook.',
     {
       channel_id: z.string().describe('The channel ID'),
       message_id: z.string().describe('The message ID to edit'),
       new_content: z.string().describe('The new message content'),
+      thread_id: z.string().optional().describe('Thread or forum post inside channel_id that contains the message'),
     },
-    async ({ channel_id, message_id, new_content }) => {
+    async ({ channel_id, message_id, new_content, thread_id }) => {
       if (!canAccessChannel(channel_id)) {
         return { content: [{ type: 'text' as const, text: 'Error: You do not have access to this channel.' }] };
       }
       try {
-        await webhookManager.editAsEntity(channel_id, message_id, new_content);
+        await webhookManager.editAsEntity(channel_id, message_id, new_content, thread_id);
         return {
           content: [{ type: 'text' as const, text: JSON.stringify({ success: true, message_id }) }],
         };
@@ -785,7 +1107,7 @@ export function registerTools(server: McpServer, ctx: EntityContext): void {
   );
 
   // --- delete_message ---
-  server.tool(
+  registerTool(
     'delete_message',
     'Delete a message from a Discord channel. Can delete own webhook messages or others if the bot has MANAGE_MESSAGES permission.',
     {
@@ -815,7 +1137,7 @@ export function registerTools(server: McpServer, ctx: EntityContext): void {
   );
 
   // --- pin_message ---
-  server.tool(
+  registerTool(
     'pin_message',
     'Pin a message in a Discord channel.',
     {
@@ -845,7 +1167,7 @@ export function registerTools(server: McpServer, ctx: EntityContext): void {
   );
 
   // --- unpin_message ---
-  server.tool(
+  registerTool(
     'unpin_message',
     'Unpin a message in a Discord channel.',
     {
@@ -877,7 +1199,7 @@ export function registerTools(server: McpServer, ctx: EntityContext): void {
   // --- Threads & Forums ---
 
   // --- create_thread ---
-  server.tool(
+  registerTool(
     'create_thread',
     'Create a new thread in a Discord channel, optionally from an existing message.',
     {
@@ -917,9 +1239,9 @@ export function registerTools(server: McpServer, ctx: EntityContext): void {
   );
 
   // --- create_forum_post ---
-  server.tool(
+  registerTool(
     'create_forum_post',
-    'Create a new post in a forum channel.',
+    'Create a new post in a forum channel. To keep talking in the post as yourself, call send_message with this forum\'s channel_id and the returned thread_id.',
     {
       channel_id: z.string().describe('The forum channel ID'),
       title: z.string().describe('The post title'),
@@ -956,7 +1278,7 @@ export function registerTools(server: McpServer, ctx: EntityContext): void {
   );
 
   // --- list_forum_threads ---
-  server.tool(
+  registerTool(
     'list_forum_threads',
     'List threads in a forum channel.',
     {
@@ -1014,7 +1336,7 @@ export function registerTools(server: McpServer, ctx: EntityContext): void {
   // --- Attachments ---
 
   // --- fetch_attachment ---
-  server.tool(
+  registerTool(
     'fetch_attachment',
     'Get attachment metadata (filename, size, content_type) and CDN URLs from a message. Returns URLs only — does not download or return file contents. To read the actual file, your substrate must fetch the URL separately.',
     {
@@ -1051,7 +1373,7 @@ export function registerTools(server: McpServer, ctx: EntityContext): void {
   // --- Moderation ---
 
   // --- timeout_user ---
-  server.tool(
+  registerTool(
     'timeout_user',
     'Timeout (mute) a user in a server for a specified duration.',
     {
@@ -1083,7 +1405,7 @@ export function registerTools(server: McpServer, ctx: EntityContext): void {
   );
 
   // --- assign_role ---
-  server.tool(
+  registerTool(
     'assign_role',
     'Assign a role to a user in a server.',
     {
@@ -1115,7 +1437,7 @@ export function registerTools(server: McpServer, ctx: EntityContext): void {
   );
 
   // --- remove_role ---
-  server.tool(
+  registerTool(
     'remove_role',
     'Remove a role from a user in a server.',
     {
@@ -1149,7 +1471,7 @@ export function registerTools(server: McpServer, ctx: EntityContext): void {
   // --- Awareness ---
 
   // --- search_messages ---
-  server.tool(
+  registerTool(
     'search_messages',
     'Search messages in a channel with various filters. At least one filter (keyword, author_id, before, after, has_attachment) is required.',
     {
@@ -1247,7 +1569,7 @@ export function registerTools(server: McpServer, ctx: EntityContext): void {
   );
 
   // --- list_members ---
-  server.tool(
+  registerTool(
     'list_members',
     'List members of a Discord server.',
     {
@@ -1284,7 +1606,7 @@ export function registerTools(server: McpServer, ctx: EntityContext): void {
   );
 
   // --- get_user_info ---
-  server.tool(
+  registerTool(
     'get_user_info',
     'Get detailed information about a user in a server.',
     {
@@ -1322,7 +1644,7 @@ export function registerTools(server: McpServer, ctx: EntityContext): void {
   );
 
   // --- list_roles ---
-  server.tool(
+  registerTool(
     'list_roles',
     'List all roles in a Discord server.',
     {
@@ -1355,4 +1677,31 @@ export function registerTools(server: McpServer, ctx: EntityContext): void {
       }
     }
   );
+
+  // --- check_pending_action ---
+  registerTool(
+    'check_pending_action',
+    'Check a tool call that is waiting for human approval (tools the server admin marked as "requires approval" return a pending_approval status with an action_id instead of running). Status is pending, approved (running now), executed, failed, denied or expired; once executed or failed, result holds the tool\'s output.',
+    {
+      action_id: z.string().describe('The action_id from the pending_approval response'),
+    },
+    async ({ action_id }) => {
+      const action = ctx.registry.getPendingAction(action_id);
+      if (!action || action.entity_id !== entity.id) {
+        return { content: [{ type: 'text' as const, text: 'Error: Pending action not found.' }] };
+      }
+      return {
+        content: [{ type: 'text' as const, text: JSON.stringify({
+          action_id: action.id,
+          tool: action.tool,
+          server_id: action.server_id,
+          status: action.status,
+          decided_by: action.decided_by_name,
+          decided_at: action.decided_at,
+          expires_at: action.expires_at,
+          result: action.result,
+        }, null, 2) }],
+      };
+    }
+  );
 }
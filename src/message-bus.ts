@@ -1,24 +1,54 @@
 import { logger } from './logger.js';
-import { encryptContent, decryptContent } from './crypto.js';
-import type { QueuedMessage, ReadableMessage } from './types.js';
+import { encryptContent, decryptContent, generateContentKey, generateQueuePrivateKey, queuePublicKey, sealContentKey, openContentKey } from './crypto.js';
+import type { QueueStore } from './queue-store.js';
+import type { MessageEventKind, MessageExtras, QueueKey, QueuedMessage, ReadableMessage, SealedMetadata } from './types.js';
 
 const DEFAULT_TTL_MS = 15 * 60 * 1000; // 15 minutes
 const MAX_QUEUE_SIZE = 500;
 const EVICTION_INTERVAL_MS = 60 * 1000; // 1 minute
+const WAIT_BATCH_MS = 250; // After the first match, collect messages arriving in the same burst
+const HOLDING_RECIPIENT = 'holding'; // wrappedKeys entry for messages held for credentials without a public key yet
+
+type BusListener = (message: QueuedMessage) => void;
+
+/** What the Router hands to push(): extras arrive structured and are serialized (and encrypted) on storage. */
+export type IncomingMessage = Omit<QueuedMessage, 'expiresAt' | 'wrappedKeys' | 'extras' | 'meta'> & { extras: MessageExtras | null };
+
+/** Seal a message's content key to each recipient's public key (recipient ID → blob), skipping ones already sealed. */
+function sealForRecipients(contentKey: Buffer, recipients: Map<string, Buffer>, into: Record<string, string> = {}): Record<string, string> {
+  for (const [recipientId, publicKey] of recipients) {
+    into[recipientId] ??= sealContentKey(publicKey, contentKey);
+  }
+  return into;
+}
 
 export class MessageBus {
   private queues: Map<string, QueuedMessage[]> = new Map();
   private readCursors: Map<string, number> = new Map(); // entityId (or entityId:channelId) → timestamp
+  private listeners: Map<string, Set<BusListener>> = new Map(); // entityId → live subscribers
   private ttlMs: number;
   private evictionTimer: NodeJS.Timeout | null = null;
+  private store: QueueStore | null;
+  private storedIds: WeakMap<QueuedMessage, number> = new WeakMap(); // message → row in the persistent store
+  private awaitingKey: (entityId: string) => boolean;
+  private holdingKey: Buffer = generateQueuePrivateKey(); // memory only — a restart drops whatever it still holds
+  private holdingPublicKey: Buffer = queuePublicKey(this.holdingKey);
 
-  constructor(ttlMs = DEFAULT_TTL_MS) {
+  /**
+   * `awaitingKey` says whether an entity has credentials that can't be sealed to yet (API keys migrated from
+   * before queue keys, whose public key is only derived on their first connection). Messages for such an
+   * entity are also sealed to the bus's in-memory holding key, and handed over by releaseHeld when one connects.
+   */
+  constructor(ttlMs = DEFAULT_TTL_MS, store: QueueStore | null = null, awaitingKey: (entityId: string) => boolean = () => false) {
     this.ttlMs = ttlMs;
+    this.store = store;
+    this.awaitingKey = awaitingKey;
   }
 
   start() {
+    this.restore();
     this.evictionTimer = setInterval(() => this.evictExpired(), EVICTION_INTERVAL_MS);
-    logger.info(`Message bus started (TTL: ${this.ttlMs / 1000}s)`);
+    logger.info(`Message bus started (TTL: ${this.ttlMs / 1000}s${this.store ? ', persistent' : ''})`);
   }
 
   stop() {
@@ -27,61 +57,197 @@ export class MessageBus {
       this.evictionTimer = null;
     }
     this.queues.clear();
+    this.listeners.clear();
+    this.store?.close();
+    this.store = null;
   }
 
   /**
-   * Push a message into an entity's queue.
-   * If encryptionKey is provided, content is encrypted with AES-256-GCM before storage.
+   * Reload unexpired messages from the persistent store.
+   * They stay sealed until a credential they were sealed to connects again.
    */
-  push(entityId: string, message: Omit<QueuedMessage, 'expiresAt' | 'encrypted'>, encryptionKey?: Buffer): void {
+  private restore(): void {
+    if (!this.store) return;
+    this.store.prune();
+    const stored = this.store.load();
+    for (const { id, entityId, message } of stored) {
+      let queue = this.queues.get(entityId);
+      if (!queue) {
+        queue = [];
+        this.queues.set(entityId, queue);
+      }
+      queue.push(message);
+      this.storedIds.set(message, id);
+    }
+    if (stored.length > 0) {
+      logger.info(`Restored ${stored.length} sealed messages from the persistent queue`);
+    }
+  }
+
+  /** Write a message to the persistent store, or rewrite it if it is already there. */
+  private persist(entityId: string, message: QueuedMessage): void {
+    if (!this.store) return;
+    try {
+      const id = this.storedIds.get(message);
+      if (id === undefined) {
+        this.storedIds.set(message, this.store.insert(entityId, message));
+      } else {
+        this.store.update(id, message);
+      }
+    } catch (err) {
+      // The in-memory queue is authoritative — a failed write only costs durability
+      logger.error(`Persistent queue write failed for entity ${entityId}:`, err);
+    }
+  }
+
+  private unpersist(messages: QueuedMessage[]): void {
+    if (!this.store) return;
+    const ids = messages.map(m => this.storedIds.get(m)).filter((id): id is number => id !== undefined);
+    if (ids.length > 0) this.store.delete(ids);
+  }
+
+  /**
+   * Push a message into an entity's queue, sealed before storage: content and extras are encrypted with
+   * AES-256-GCM under a fresh content key, which is sealed to each recipient's X25519 public key
+   * (the entity's API keys and OAuth grants). While some of its credentials have no public key yet, the message is
+   * also sealed to the holding key. With no recipients at all the message is dropped — never held in plaintext.
+   * Returns whether the message was queued.
+   */
+  push(entityId: string, message: IncomingMessage, recipients: Map<string, Buffer>): boolean {
+    if (this.awaitingKey(entityId)) {
+      recipients = new Map(recipients).set(HOLDING_RECIPIENT, this.holdingPublicKey);
+    }
+    if (recipients.size === 0) {
+      logger.debug(`No queue recipients for entity ${entityId} — ${message.kind} ${message.messageId} dropped`);
+      return false;
+    }
+
     let queue = this.queues.get(entityId);
     if (!queue) {
       queue = [];
       this.queues.set(entityId, queue);
     }
 
-    let content = message.content;
-    let encrypted = false;
-
-    if (encryptionKey) {
-      content = encryptContent(encryptionKey, message.content);
-      encrypted = true;
-    }
-
-    queue.push({
+    const contentKey = generateContentKey();
+    const queued: QueuedMessage = {
       ...message,
-      content,
-      encrypted,
+      content: encryptContent(contentKey, message.content),
+      extras: message.extras ? encryptContent(contentKey, JSON.stringify(message.extras)) : null,
+      meta: encryptContent(contentKey, JSON.stringify({
+        author_id: message.authorId,
+        author_name: message.authorName,
+        channel_name: message.channelName,
+        emoji: message.emoji,
+      } satisfies SealedMetadata)),
+      wrappedKeys: sealForRecipients(contentKey, recipients),
       expiresAt: new Date(Date.now() + this.ttlMs),
-    });
+    };
+    queue.push(queued);
+    this.persist(entityId, queued);
 
     // Cap queue size — drop oldest if over limit
     if (queue.length > MAX_QUEUE_SIZE) {
       const dropped = queue.length - MAX_QUEUE_SIZE;
-      queue.splice(0, dropped);
+      this.unpersist(queue.splice(0, dropped));
       logger.warn(`Queue overflow for entity ${entityId}: dropped ${dropped} oldest messages`);
     }
+
+    this.notify(entityId, queued);
+    return true;
+  }
+
+  /**
+   * Subscribe to messages as they are pushed into an entity's queue.
+   * Listeners receive the stored message (content and extras sealed). Returns an unsubscribe function.
+   */
+  subscribe(entityId: string, listener: BusListener): () => void {
+    let set = this.listeners.get(entityId);
+    if (!set) {
+      set = new Set();
+      this.listeners.set(entityId, set);
+    }
+    set.add(listener);
+
+    return () => {
+      const current = this.listeners.get(entityId);
+      if (!current) return;
+      current.delete(listener);
+      if (current.size === 0) this.listeners.delete(entityId);
+    };
+  }
+
+  /**
+   * Wait for messages matching a predicate to arrive in an entity's queue.
+   * Resolves shortly after the first match (so bursts come back together),
+   * or with an empty array when the timeout expires or the signal aborts.
+   */
+  waitFor(entityId: string, match: (message: QueuedMessage) => boolean, timeoutMs: number, decryptionKey?: QueueKey, signal?: AbortSignal): Promise<ReadableMessage[]> {
+    return new Promise(resolve => {
+      const arrived: QueuedMessage[] = [];
+      let batchTimer: NodeJS.Timeout | null = null;
+      let settled = false;
+
+      const finish = () => {
+        if (settled) return;
+        settled = true;
+        clearTimeout(timeoutTimer);
+        if (batchTimer) clearTimeout(batchTimer);
+        unsubscribe();
+        signal?.removeEventListener('abort', finish);
+        resolve(arrived.map(m => this.toReadable(m, decryptionKey)));
+      };
+
+      const unsubscribe = this.subscribe(entityId, m => {
+        if (!match(m)) return;
+        arrived.push(m);
+        batchTimer ??= setTimeout(finish, WAIT_BATCH_MS);
+      });
+      const timeoutTimer = setTimeout(finish, timeoutMs);
+
+      if (signal?.aborted) {
+        finish();
+      } else {
+        signal?.addEventListener('abort', finish, { once: true });
+      }
+    });
+  }
+
+  private notify(entityId: string, message: QueuedMessage): void {
+    const set = this.listeners.get(entityId);
+    if (!set) return;
+    for (const listener of [...set]) {
+      try {
+        listener(message);
+      } catch (err) {
+        logger.error(`Message bus listener failed for entity ${entityId}:`, err);
+      }
+    }
   }
 
   /**
    * Read messages from an entity's queue (does NOT remove them — TTL handles expiry).
-   * If decryptionKey is provided, encrypted messages are decrypted before returning.
+   * If decryptionKey is provided, messages sealed to it are decrypted before returning.
    */
-  read(entityId: string, channelId?: string, limit = 50, decryptionKey?: Buffer, addressedOnly?: boolean, unreadOnly?: boolean): ReadableMessage[] {
+  read(entityId: string, channelId?: string, limit = 50, decryptionKey?: QueueKey, addressedOnly?: boolean, unreadOnly?: boolean, kinds?: MessageEventKind[]): ReadableMessage[] {
     const queue = this.queues.get(entityId);
     if (!queue) return [];
 
     const now = Date.now();
     let messages = queue.filter(m => m.expiresAt.getTime() > now);
 
+    // A parent channel's reads include its threads and forum posts
     if (channelId) {
-      messages = messages.filter(m => m.channelId === channelId);
+      messages = messages.filter(m => m.channelId === channelId || m.parentId === channelId);
     }
 
     if (addressedOnly) {
       messages = messages.filter(m => m.triggered || m.addressed);
     }
 
+    if (kinds && kinds.length > 0) {
+      messages = messages.filter(m => kinds.includes(m.kind));
+    }
+
     // Filter by read cursor if unread_only requested
     if (unreadOnly) {
       const cursorKey = channelId ? `${entityId}:${channelId}` : entityId;
@@ -99,58 +265,112 @@ export class MessageBus {
       this.readCursors.set(cursorKey, latestTs);
     }
 
-    return sliced.map(m => {
-      let content = m.content;
-      if (m.encrypted && decryptionKey) {
-        try {
-          content = decryptContent(decryptionKey, m.content);
-        } catch {
-          content = '[encrypted — key mismatch]';
-        }
-      } else if (m.encrypted) {
-        content = '[encrypted]';
+    return sliced.map(m => this.toReadable(m, decryptionKey));
+  }
+
+  private toReadable(m: QueuedMessage, decryptionKey?: QueueKey): ReadableMessage {
+    let content = '[encrypted]';
+    let extras: MessageExtras | null = null;
+    let meta: SealedMetadata | null = null;
+    if (decryptionKey) {
+      const wrapped = m.wrappedKeys[decryptionKey.keyId];
+      try {
+        if (!wrapped) throw new Error('Message not sealed for this key');
+        const contentKey = openContentKey(decryptionKey.key, wrapped);
+        content = decryptContent(contentKey, m.content);
+        if (m.extras) extras = JSON.parse(decryptContent(contentKey, m.extras));
+        if (m.meta) meta = JSON.parse(decryptContent(contentKey, m.meta));
+      } catch {
+        content = '[encrypted — key mismatch]';
       }
+    }
 
-      return {
-        id: m.messageId,
-        channel_id: m.channelId,
-        channel_name: m.channelName,
-        server_id: m.serverId,
-        author_id: m.authorId,
-        author_name: m.authorName,
-        content,
-        timestamp: m.timestamp.toISOString(),
-        addressed: m.addressed,
-        triggered: m.triggered,
-      };
-    });
+    // Messages restored from disk have their names only in the sealed metadata
+    const who: SealedMetadata = meta ?? { author_id: m.authorId, author_name: m.authorName, channel_name: m.channelName, emoji: m.emoji };
+    return {
+      kind: m.kind,
+      id: m.messageId,
+      channel_id: m.channelId,
+      channel_name: who.channel_name,
+      server_id: m.serverId,
+      author_id: who.author_id,
+      author_name: who.author_name,
+      content,
+      timestamp: m.timestamp.toISOString(),
+      addressed: m.addressed,
+      triggered: m.triggered,
+      ...(who.emoji ? { emoji: who.emoji } : {}),
+      ...(m.threadId ? { thread_id: m.threadId } : {}),
+      ...(m.parentId ? { parent_id: m.parentId } : {}),
+      ...(m.dm ? { dm: true } : {}),
+      ...(m.interactionId ? { interaction_id: m.interactionId } : {}),
+      ...(extras?.attachments.length ? { attachments: extras.attachments } : {}),
+      ...(extras?.embeds.length ? { embeds: extras.embeds } : {}),
+      ...(extras?.stickers.length ? { stickers: extras.stickers } : {}),
+      ...(extras?.reply_to ? { reply_to: extras.reply_to } : {}),
+      ...(extras?.component ? { custom_id: extras.component.custom_id, values: extras.component.values } : {}),
+    };
+  }
+
+  /**
+   * Seal queued messages for recipients that did not exist when they arrived (a new API key, a new OAuth grant,
+   * or a legacy key that just recorded its public key). Only possible with a key that can already open them,
+   * so it runs whenever a credential connects. Returns the number of messages shared.
+   */
+  shareWithRecipients(entityId: string, reader: QueueKey, recipients: Map<string, Buffer>): number {
+    const queue = this.queues.get(entityId);
+    if (!queue) return 0;
+
+    let shared = 0;
+    for (const msg of queue) {
+      const sealed = msg.wrappedKeys[reader.keyId];
+      if (!sealed || [...recipients.keys()].every(id => id in msg.wrappedKeys)) continue;
+      try {
+        sealForRecipients(openContentKey(reader.key, sealed), recipients, msg.wrappedKeys);
+        this.persist(entityId, msg);
+        shared++;
+      } catch {
+        // Stale seal (key revoked and reissued) — leave the message as is
+      }
+    }
+
+    if (shared > 0) {
+      logger.debug(`Shared ${shared} queued messages with newly added recipients for entity ${entityId}`);
+    }
+    return shared;
   }
 
   /**
-   * Encrypt any pending unencrypted messages in an entity's queue.
-   * Called when an API key client reconnects after a cold start, re-establishing the encryption key.
+   * Seal held messages to the entity's recipients now that a credential recorded its public key, and drop the
+   * holding seal once none of its credentials is still waiting for one. Returns the number of messages released.
    */
-  encryptPending(entityId: string, key: Buffer): number {
+  releaseHeld(entityId: string, recipients: Map<string, Buffer>): number {
     const queue = this.queues.get(entityId);
     if (!queue) return 0;
 
-    let count = 0;
+    const stillAwaiting = this.awaitingKey(entityId);
+    let released = 0;
     for (const msg of queue) {
-      if (!msg.encrypted) {
-        msg.content = encryptContent(key, msg.content);
-        msg.encrypted = true;
-        count++;
+      const sealed = msg.wrappedKeys[HOLDING_RECIPIENT];
+      if (!sealed) continue;
+      try {
+        sealForRecipients(openContentKey(this.holdingKey, sealed), recipients, msg.wrappedKeys);
+        released++;
+      } catch {
+        // Held by the previous process's holding key — nobody can open it any more
       }
+      if (!stillAwaiting) delete msg.wrappedKeys[HOLDING_RECIPIENT];
+      this.persist(entityId, msg);
     }
 
-    if (count > 0) {
-      logger.info(`Retroactively encrypted ${count} pending messages for entity ${entityId}`);
+    if (released > 0) {
+      logger.info(`Released ${released} held messages for entity ${entityId} to its credentials`);
     }
-    return count;
+    return released;
   }
 
   /**
-   * Evict expired messages from all queues.
+   * Evict expired messages from all queues, and wipe them (plus anything over the size cap) from the persistent store.
    */
   private evictExpired(): void {
     const now = Date.now();
@@ -168,6 +388,14 @@ export class MessageBus {
       }
     }
 
+    if (this.store) {
+      try {
+        this.store.prune(now);
+      } catch (err) {
+        logger.error('Persistent queue prune failed:', err);
+      }
+    }
+
     if (totalEvicted > 0) {
       logger.debug(`Evicted ${totalEvicted} expired messages`);
     }
@@ -0,0 +1,77 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Client } from 'discord.js';
+import { MESSAGE_MAX, splitMessage } from './message-splitter.js';
+import { WebhookManager } from './webhook-manager.js';
+
+function assertFits(parts: string[]) {
+  for (const part of parts) assert.ok(part.length <= MESSAGE_MAX, `part of ${part.length} characters`);
+}
+
+describe('splitMessage', () => {
+  it('returns content that fits as a single part', () => {
+    assert.deepEqual(splitMessage('hello'), ['hello']);
+  });
+
+  it('cuts at a paragraph break', () => {
+    const first = 'a'.repeat(1500);
+    const second = 'b'.repeat(1500);
+    assert.deepEqual(splitMessage(`${first}\n\n${second}`).map(part => part.trim()), [first, second]);
+  });
+
+  it('closes a code block at the cut and reopens it with its language', () => {
+    const code = Array.from({ length: 300 }, (_, i) => `const line${i} = ${i};`).join('\n');
+    const parts = splitMessage('Here:\n```ts\n' + code + '\n```');
+    assert.ok(parts.length > 1);
+    assertFits(parts);
+    for (const part of parts.slice(0, -1)) assert.ok(part.endsWith('\n```'), 'part closes the block');
+    for (const part of parts.slice(1)) assert.ok(part.startsWith('```ts\n'), 'part reopens the block');
+  });
+
+  it('makes progress when the fence line is too long to repeat', () => {
+    for (const length of [1000, 1995, 1998, 2500]) {
+      const content = '```' + 'x'.repeat(length) + '\n' + 'code\n'.repeat(500) + '```';
+      const parts = splitMessage(content);
+      assertFits(parts);
+      assert.equal(parts.join('').replace(/\n/g, ''), content.replace(/\n/g, ''));
+    }
+  });
+});
+
+describe('WebhookManager.sendAsEntity', () => {
+  function fakeClient(sent: unknown[]): Client {
+    const webhook = {
+      id: 'webhook',
+      name: 'Arachne',
+      owner: { id: 'bot' },
+      send: async (options: unknown) => {
+        sent.push(options);
+        return { id: `message-${sent.length}` };
+      },
+    };
+    const channel = { isThread: () => false, fetchWebhooks: async () => [webhook] };
+    return { user: { id: 'bot' }, channels: { fetch: async () => channel } } as unknown as Client;
+  }
+
+  it('sends every part of a split post in order', async () => {
+    const sent: unknown[] = [];
+    const result = await new WebhookManager(fakeClient(sent)).sendAsEntity('channel', 'word '.repeat(1000), 'Entity');
+    assert.equal(sent.length, 3);
+    assert.deepEqual(result.messageIds, ['message-1', 'message-2', 'message-3']);
+  });
+
+  it('refuses a post that would take more than 10 messages, sending nothing', async () => {
+    const sent: unknown[] = [];
+    const manager = new WebhookManager(fakeClient(sent));
+    await assert.rejects(manager.sendAsEntity('channel', 'word '.repeat(5000), 'Entity'), /max 10/);
+    assert.equal(sent.length, 0);
+  });
+
+  it('sends an over-long post as one message with an attachment in attachment mode', async () => {
+    const sent: unknown[] = [];
+    const manager = new WebhookManager(fakeClient(sent));
+    const result = await manager.sendAsEntity('channel', 'word '.repeat(5000), 'Entity', null, undefined, undefined, undefined, undefined, 'attachment');
+    assert.equal(sent.length, 1);
+    assert.deepEqual(result.messageIds, ['message-1']);
+  });
+});
@@ -0,0 +1,171 @@
+/**
+ * Splits entity posts longer than Discord's 2000-character limit into several messages.
+ * Cuts prefer, in order: a paragraph break, a line break outside code, a line break inside a code block.
+ * A cut inside a code block closes the fence and reopens it (same language) in the next part, unless the fence
+ * line is too long to repeat.
+ * A line never splits from its list item's continuation lines. A line too long on its own is cut at a
+ * sentence end, then at a space, and only then mid-word — never inside a mention, channel link or custom emoji.
+ */
+
+export const MESSAGE_MAX = 2000;
+
+interface Line {
+  text: string;
+  sep: string;            // joins it to the previous line: '\n', or '' for the rest of a line cut in two
+  fence: Fence | null;    // the code block this line is in (null outside code; fence lines themselves count as outside)
+  afterFence: Fence | null; // the code block still open after this line
+}
+
+interface Fence {
+  opener: string; // the opening line as written, e.g. "```ts"
+  closer: string; // "```" or "~~~" (as long as the opener's)
+}
+
+const FENCE = /^ {0,3}(`{3,}|~{3,})(.*)$/;
+const LIST_ITEM = /^\s*(?:[-*+]|\d+[.)])\s/;
+const MENTION = /<(?:@[!&]?|#|a?:\w+:)\d+>/g;
+const SENTENCE_END = /[.!?…]["')\]]*\s+/g;
+
+/** Whether a line continues the list item above it (indented, not blank, not a new item). */
+function continuesListItem(lines: Line[], i: number): boolean {
+  const text = lines[i].text;
+  if (i === 0 || !/^\s+\S/.test(text) || LIST_ITEM.test(text) || lines[i].fence) return false;
+  for (let j = i - 1; j >= 0; j--) {
+    if (!lines[j].text.trim() || lines[j].fence) return false;
+    if (LIST_ITEM.test(lines[j].text)) return true;
+    if (!/^\s/.test(lines[j].text)) return false;
+  }
+  return false;
+}
+
+function parseLines(content: string): Line[] {
+  const lines: Line[] = [];
+  let open: Fence | null = null;
+  for (const text of content.split('\n')) {
+    const fence = FENCE.exec(text);
+    const inside = open;
+    if (fence && !open) {
+      open = { opener: text.trim(), closer: fence[1] };
+    } else if (fence && open && fence[1][0] === open.closer[0] && fence[1].length >= open.closer.length && !fence[2].trim()) {
+      open = null;
+    }
+    // The fence lines themselves belong to no block: a cut right before an opener or after a closer needs no repair
+    lines.push({ text, sep: '\n', fence: fence ? null : inside, afterFence: open });
+  }
+  return lines;
+}
+
+/** The fence, if reopening and closing it in every part still leaves at least half of each part for text. */
+function repairable(fence: Fence | null, max: number): Fence | null {
+  return fence && fence.opener.length + fence.closer.length + 2 <= max / 2 ? fence : null;
+}
+
+/** The cut position in `text` at or before `max`, backed off so it doesn't land inside a mention. */
+function safeCut(text: string, max: number): number {
+  for (const match of text.matchAll(MENTION)) {
+    const start = match.index!;
+    const end = start + match[0].length;
+    if (start < max && end > max && start > 0) return start;
+  }
+  return max;
+}
+
+/** Cut one line into pieces of at most `max` characters: at sentence ends, then spaces, then anywhere safe. */
+function splitLongLine(text: string, max: number): string[] {
+  const pieces: string[] = [];
+  let rest = text;
+  while (rest.length > max) {
+    const window = rest.slice(0, max + 1);
+    let cut = 0;
+    for (const match of window.matchAll(SENTENCE_END)) {
+      const end = match.index! + match[0].length;
+      if (end <= max) cut = end;
+    }
+    if (cut < max / 2) {
+      const space = window.lastIndexOf(' ');
+      if (space >= max / 2) cut = space + 1;
+    }
+    if (cut < max / 2) cut = safeCut(rest, max);
+    pieces.push(rest.slice(0, cut));
+    rest = rest.slice(cut);
+  }
+  pieces.push(rest);
+  return pieces;
+}
+
+/** Length of a part made of lines[start..end), including any fence reopened at its start and closed at its end. */
+function partLength(lines: Line[], start: number, end: number): number {
+  let length = lines[start].fence ? lines[start].fence!.opener.length + 1 : 0;
+  for (let i = start; i < end; i++) length += (i > start ? lines[i].sep.length : 0) + lines[i].text.length;
+  const open = lines[end - 1].afterFence;
+  return open ? length + 1 + open.closer.length : length;
+}
+
+function renderPart(lines: Line[], start: number, end: number): string {
+  let text = lines[start].fence ? lines[start].fence!.opener + '\n' : '';
+  for (let i = start; i < end; i++) text += (i > start ? lines[i].sep : '') + lines[i].text;
+  const open = lines[end - 1].afterFence;
+  return open ? text + '\n' + open.closer : text;
+}
+
+/** How good a place "just before line i" is to cut: 3 paragraph, 2 line outside code, 1 inside code, 0 never. */
+function cutScore(lines: Line[], i: number): number {
+  const line = lines[i];
+  if (line.sep === '') return 1; // the rest of a line that was already too long
+  if (continuesListItem(lines, i)) return 0;
+  if (line.fence) return 1;
+  if (lines[i - 1].afterFence) return 0; // the fence closing a block stays with it
+  const previous = lines[i - 1].text.trim();
+  if (!previous || !line.text.trim() || FENCE.test(line.text)) return 3;
+  return 2;
+}
+
+/**
+ * Split content into parts of at most `max` characters. Content that fits comes back as a single part.
+ */
+export function splitMessage(content: string, max = MESSAGE_MAX): string[] {
+  if (content.length <= max) return [content];
+
+  // Fence repair costs at most an opener and a closer per part; lines longer than what is left are pre-cut.
+  // A block whose fence is too long to repeat is split like plain text, so every part still makes progress.
+  const lines: Line[] = [];
+  for (const parsed of parseLines(content)) {
+    const line = { ...parsed, fence: repairable(parsed.fence, max), afterFence: repairable(parsed.afterFence, max) };
+    const room = max - (line.fence ? line.fence.opener.length + line.fence.closer.length + 2 : 0);
+    if (line.text.length <= room) {
+      lines.push(line);
+      continue;
+    }
+    splitLongLine(line.text, room).forEach((text, i) => lines.push({ ...line, text, sep: i === 0 ? line.sep : '' }));
+  }
+
+  const parts: string[] = [];
+  let start = 0;
+  while (start < lines.length) {
+    // Longest run of lines from `start` that fits
+    let end = start + 1;
+    while (end < lines.length && partLength(lines, start, end + 1) <= max) end++;
+
+    if (end < lines.length) {
+      // Back off to the best cut that still leaves the part at least half full
+      let best = end;
+      let bestScore = cutScore(lines, end);
+      for (let i = end - 1; i > start && bestScore < 3; i--) {
+        if (partLength(lines, start, i) < max / 2) break;
+        const score = cutScore(lines, i);
+        if (score > bestScore) {
+          best = i;
+          bestScore = score;
+        }
+      }
+      end = best;
+    }
+
+    const part = renderPart(lines, start, end);
+    if (part.trim()) parts.push(part);
+    start = end;
+    // A paragraph break at the cut would open the next part with blank lines
+    while (start < lines.length && !lines[start].text.trim() && !lines[start].fence) start++;
+  }
+  return parts;
+}
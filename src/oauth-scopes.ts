@@ -0,0 +1,49 @@
+/**
+ * OAuth scopes and the MCP tools each one unlocks.
+ * `mcp` is the original all-access scope; tokens granted before granular scopes keep it.
+ */
+export const FULL_ACCESS_SCOPE = 'mcp';
+
+export const OAUTH_SCOPES: Record<string, { description: string; tools: string[] }> = {
+  'messages:read': {
+    description: 'Read messages, reactions, attachments and channel history in channels it can see',
+    tools: ['read_messages', 'wait_for_messages', 'get_channel_history', 'search_messages', 'get_reactions', 'fetch_attachment', 'list_channels', 'list_forum_threads', 'get_entity_info'],
+  },
+  'messages:write': {
+    description: 'Send, edit and delete its own messages, react, pin, post polls, threads, files and DMs as this entity',
+    tools: ['send_message', 'send_interactive_message', 'send_dm', 'respond_to_interaction', 'send_file', 'edit_message', 'delete_message', 'add_reaction', 'remove_reaction', 'pin_message', 'unpin_message', 'create_poll', 'create_thread', 'create_forum_post', 'introduce', 'check_pending_action'],
+  },
+  'members:read': {
+    description: 'Look up server members, their profiles and roles',
+    tools: ['list_members', 'get_user_info', 'list_roles'],
+  },
+  'moderation': {
+    description: 'Time out members and assign or remove their roles',
+    tools: ['timeout_user', 'assign_role', 'remove_role', 'check_pending_action'],
+  },
+  'channels:manage': {
+    description: 'Create, rename, move and delete channels and categories, and leave servers',
+    tools: ['create_channel', 'set_channel_topic', 'rename_channel', 'delete_channel', 'create_category', 'move_channel', 'leave_server', 'check_pending_action'],
+  },
+};
+
+export const GRANULAR_SCOPES = Object.keys(OAUTH_SCOPES);
+
+/**
+ * Normalize a requested scope string: keep known scopes, expand `mcp` (or nothing) to every granular scope.
+ */
+export function parseScopes(scope: string | undefined | null): string[] {
+  const requested = (scope || '').split(/\s+/).filter(Boolean);
+  if (requested.length === 0 || requested.includes(FULL_ACCESS_SCOPE)) return [...GRANULAR_SCOPES];
+  return GRANULAR_SCOPES.filter(s => requested.includes(s));
+}
+
+/**
+ * Tools a granted scope string allows, or undefined when it allows every tool.
+ */
+export function toolsForScope(scope: string): string[] | undefined {
+  const granted = scope.split(/\s+/).filter(Boolean);
+  if (granted.includes(FULL_ACCESS_SCOPE)) return undefined;
+  if (GRANULAR_SCOPES.every(s => granted.includes(s))) return undefined;
+  return GRANULAR_SCOPES.filter(s => granted.includes(s)).flatMap(s => OAUTH_SCOPES[s].tools);
+}
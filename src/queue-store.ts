@@ -0,0 +1,117 @@
+import Database from 'better-sqlite3';
+import { logger } from './logger.js';
+import type { QueuedMessage } from './types.js';
+
+/** A queued message read back from disk, with the row ID it is stored under. */
+export interface StoredMessage {
+  id: number;
+  entityId: string;
+  message: QueuedMessage;
+}
+
+/**
+ * Optional on-disk backing store for the message bus, so pending messages survive a redeploy.
+ * Only sealed messages are written: content, extras and metadata (author, channel name, reaction emoji) are
+ * AES-256-GCM ciphertext, content keys are sealed to the recipients' X25519 public keys. Only the IDs and flags
+ * the bus filters on before anyone can decrypt (channel, server, thread, kind, timestamps) stay readable. Rows are deleted when they expire and the file is capped
+ * at maxBytes (oldest rows go first). secure_delete overwrites freed pages so deleted ciphertext does not linger.
+ */
+export class QueueStore {
+  private db: Database.Database;
+  private maxBytes: number;
+
+  constructor(dbPath: string, maxBytes: number) {
+    this.db = new Database(dbPath);
+    this.maxBytes = maxBytes;
+    this.db.pragma('secure_delete = ON');
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS queued_messages (
+        id          INTEGER PRIMARY KEY AUTOINCREMENT,
+        entity_id   TEXT NOT NULL,
+        expires_at  INTEGER NOT NULL,     -- epoch ms
+        size        INTEGER NOT NULL,     -- bytes of data, for the size cap
+        data        TEXT NOT NULL         -- JSON QueuedMessage (content/extras encrypted)
+      );
+      CREATE INDEX IF NOT EXISTS idx_queued_messages_expires ON queued_messages(expires_at);
+    `);
+    logger.info(`Persistent queue opened: ${dbPath} (max ${Math.round(maxBytes / 1024 / 1024)} MB)`);
+  }
+
+  /** Store a sealed message. Returns its row ID. Refuses anything not sealed to a recipient. */
+  insert(entityId: string, message: QueuedMessage): number {
+    const data = this.serialize(message);
+    const result = this.db.prepare(
+      'INSERT INTO queued_messages (entity_id, expires_at, size, data) VALUES (?, ?, ?, ?)'
+    ).run(entityId, message.expiresAt.getTime(), data.length, data);
+    return Number(result.lastInsertRowid);
+  }
+
+  /** Rewrite a stored message after it was sealed for new recipients. No-op if the row is gone. */
+  update(id: number, message: QueuedMessage): void {
+    const data = this.serialize(message);
+    this.db.prepare('UPDATE queued_messages SET size = ?, data = ? WHERE id = ?').run(data.length, data, id);
+  }
+
+  delete(ids: number[]): void {
+    const stmt = this.db.prepare('DELETE FROM queued_messages WHERE id = ?');
+    this.db.transaction(() => {
+      for (const id of ids) stmt.run(id);
+    })();
+  }
+
+  /** Unexpired messages, oldest first. */
+  load(now = Date.now()): StoredMessage[] {
+    const rows = this.db.prepare(
+      'SELECT id, entity_id, data FROM queued_messages WHERE expires_at > ? ORDER BY id'
+    ).all(now) as Array<{ id: number; entity_id: string; data: string }>;
+    return rows.map(row => ({ id: row.id, entityId: row.entity_id, message: this.deserialize(row.data) }));
+  }
+
+  /** Delete expired rows, then the oldest rows until the store is under its size cap. Returns rows deleted. */
+  prune(now = Date.now()): number {
+    let deleted = this.db.prepare('DELETE FROM queued_messages WHERE expires_at <= ?').run(now).changes;
+
+    const { total } = this.db.prepare('SELECT COALESCE(SUM(size), 0) AS total FROM queued_messages').get() as { total: number };
+    if (total > this.maxBytes) {
+      // Walk rows oldest first and cut at the point where the remainder fits
+      const rows = this.db.prepare('SELECT id, size FROM queued_messages ORDER BY id').all() as Array<{ id: number; size: number }>;
+      let excess = total - this.maxBytes;
+      let cutoff = 0;
+      for (const row of rows) {
+        if (excess <= 0) break;
+        excess -= row.size;
+        cutoff = row.id;
+      }
+      const dropped = this.db.prepare('DELETE FROM queued_messages WHERE id <= ?').run(cutoff).changes;
+      logger.warn(`Persistent queue over ${Math.round(this.maxBytes / 1024 / 1024)} MB: dropped ${dropped} oldest messages`);
+      deleted += dropped;
+    }
+    return deleted;
+  }
+
+  close(): void {
+    this.db.close();
+  }
+
+  private serialize(message: QueuedMessage): string {
+    if (Object.keys(message.wrappedKeys ?? {}).length === 0 || !message.meta) throw new Error('Refusing to persist an unsealed message');
+    // The plaintext copies of the sealed metadata stay in memory
+    const { authorId: _authorId, authorName: _authorName, channelName: _channelName, emoji: _emoji, ...stored } = message;
+    return JSON.stringify(stored);
+  }
+
+  /** Restored messages carry their names only in the sealed metadata, opened when a credential reads them. */
+  private deserialize(data: string): QueuedMessage {
+    const parsed = JSON.parse(data);
+    return {
+      authorId: '',
+      authorName: '',
+      channelName: '',
+      emoji: null,
+      ...parsed,
+      meta: parsed.meta ?? null,
+      timestamp: new Date(parsed.timestamp),
+      expiresAt: new Date(parsed.expiresAt),
+    };
+  }
+}
@@ -0,0 +1,175 @@
+/**
+ * Token buckets for MCP tool calls, so one agent loop can't flood a channel or get the shared
+ * bot token rate-limited by Discord for every tenant. Tools are grouped into categories; each
+ * category has an entity-wide bucket (operator limits) and, where a server admin set one,
+ * a bucket per entity on that server.
+ */
+
+export const RATE_LIMIT_CATEGORIES: Record<string, { description: string; tools: string[] }> = {
+  messages: {
+    description: 'Sending, editing and deleting messages, files, polls, threads and DMs',
+    tools: ['send_message', 'send_interactive_message', 'send_dm', 'respond_to_interaction', 'send_file', 'edit_message', 'delete_message', 'create_poll', 'create_thread', 'create_forum_post', 'introduce'],
+  },
+  reactions: {
+    description: 'Adding and removing reactions, pinning',
+    tools: ['add_reaction', 'remove_reaction', 'pin_message', 'unpin_message'],
+  },
+  search: {
+    description: 'Searches and history, member and reaction lookups that call Discord',
+    tools: ['search_messages', 'get_channel_history', 'list_forum_threads', 'get_reactions', 'list_members', 'get_user_info'],
+  },
+  moderation: {
+    description: 'Timeouts and role changes',
+    tools: ['timeout_user', 'assign_role', 'remove_role'],
+  },
+  channels: {
+    description: 'Creating, renaming, moving and deleting channels and categories',
+    tools: ['create_channel', 'set_channel_topic', 'rename_channel', 'delete_channel', 'create_category', 'move_channel'],
+  },
+};
+
+export interface RateLimit {
+  burst: number;      // bucket capacity — calls allowed back to back
+  per_minute: number; // refill rate
+}
+
+/** Category → limit. For operator limits, null means unlimited; for server limits, a missing category means no server limit. */
+export type RateLimits = Record<string, RateLimit | null>;
+
+/** Entity-wide limits used until the operator changes them. */
+export const DEFAULT_RATE_LIMITS: RateLimits = {
+  messages: { burst: 10, per_minute: 20 },
+  reactions: { burst: 20, per_minute: 60 },
+  search: { burst: 5, per_minute: 15 },
+  moderation: { burst: 5, per_minute: 10 },
+  channels: { burst: 3, per_minute: 5 },
+};
+
+const MAX_LIMIT = 1000;
+const IDLE_BUCKET_MS = 60 * 60 * 1000; // Full buckets untouched this long are dropped
+
+export function rateLimitCategory(tool: string): string | null {
+  for (const [category, { tools }] of Object.entries(RATE_LIMIT_CATEGORIES)) {
+    if (tools.includes(tool)) return category;
+  }
+  return null;
+}
+
+/**
+ * Validate a rate limit object from the API. Returns the cleaned limits, or an error message.
+ * `allowNull` lets a category be set to null (operator: unlimited).
+ */
+export function parseRateLimits(input: unknown, allowNull: boolean): RateLimits | string {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) return 'rate_limits must be an object';
+  const limits: RateLimits = {};
+  for (const [category, value] of Object.entries(input as Record<string, unknown>)) {
+    if (!RATE_LIMIT_CATEGORIES[category]) return `Unknown rate limit category: ${category}`;
+    if (value === null) {
+      if (allowNull) limits[category] = null;
+      continue;
+    }
+    const { burst, per_minute } = (value ?? {}) as Record<string, unknown>;
+    for (const [field, n] of [['burst', burst], ['per_minute', per_minute]] as const) {
+      if (typeof n !== 'number' || !Number.isInteger(n) || n < 1 || n > MAX_LIMIT) {
+        return `${category}.${field} must be a whole number between 1 and ${MAX_LIMIT}`;
+      }
+    }
+    limits[category] = { burst: burst as number, per_minute: per_minute as number };
+  }
+  return limits;
+}
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+/** Which limit stopped a call, and when to try again. */
+export interface RateLimitHit {
+  category: string;
+  scope: 'entity' | 'server';
+  limit: RateLimit;
+  retryAfterSeconds: number;
+}
+
+export interface BucketUsage {
+  limit: RateLimit;
+  remaining: number;          // whole calls available right now
+  retry_after_seconds: number; // 0 when a call would go through
+}
+
+/**
+ * Volatile token buckets. NEVER persisted — a restart refills every bucket.
+ */
+class RateLimiter {
+  private buckets: Map<string, Bucket> = new Map(); // entity:<id>:<category> or server:<id>:<entity>:<category>
+
+  /**
+   * Take one token from the entity bucket and (if limited) the server bucket of the tool's category.
+   * Nothing is taken unless both have a token. Returns null when the call may go ahead.
+   */
+  take(entityId: string, serverId: string | null, tool: string, entityLimits: RateLimits, serverLimits: RateLimits): RateLimitHit | null {
+    const category = rateLimitCategory(tool);
+    if (!category) return null;
+
+    const checks: Array<{ key: string; scope: 'entity' | 'server'; limit: RateLimit }> = [];
+    const entityLimit = entityLimits[category];
+    if (entityLimit) checks.push({ key: `entity:${entityId}:${category}`, scope: 'entity', limit: entityLimit });
+    const serverLimit = serverId ? serverLimits[category] : null;
+    if (serverId && serverLimit) checks.push({ key: `server:${serverId}:${entityId}:${category}`, scope: 'server', limit: serverLimit });
+
+    const now = Date.now();
+    let hit: RateLimitHit | null = null;
+    for (const { key, scope, limit } of checks) {
+      const bucket = this.refill(key, limit, now);
+      if (bucket.tokens >= 1) continue;
+      const retryAfterSeconds = Math.ceil((1 - bucket.tokens) * 60 / limit.per_minute);
+      if (!hit || retryAfterSeconds > hit.retryAfterSeconds) hit = { category, scope, limit, retryAfterSeconds };
+    }
+    if (hit) return hit;
+
+    for (const { key } of checks) this.buckets.get(key)!.tokens -= 1;
+    this.prune(now);
+    return null;
+  }
+
+  /** Current state of a bucket without taking from it. */
+  usage(key: string, limit: RateLimit): BucketUsage {
+    const bucket = this.refill(key, limit, Date.now());
+    return {
+      limit,
+      remaining: Math.floor(bucket.tokens),
+      retry_after_seconds: bucket.tokens >= 1 ? 0 : Math.ceil((1 - bucket.tokens) * 60 / limit.per_minute),
+    };
+  }
+
+  entityKey(entityId: string, category: string): string {
+    return `entity:${entityId}:${category}`;
+  }
+
+  serverKey(serverId: string, entityId: string, category: string): string {
+    return `server:${serverId}:${entityId}:${category}`;
+  }
+
+  private refill(key: string, limit: RateLimit, now: number): Bucket {
+    let bucket = this.buckets.get(key);
+    if (!bucket) {
+      bucket = { tokens: limit.burst, updatedAt: now };
+      this.buckets.set(key, bucket);
+      return bucket;
+    }
+    const elapsedMinutes = (now - bucket.updatedAt) / 60_000;
+    bucket.tokens = Math.min(limit.burst, bucket.tokens + elapsedMinutes * limit.per_minute);
+    bucket.updatedAt = now;
+    return bucket;
+  }
+
+  private prune(now: number): void {
+    if (this.buckets.size < 1000) return;
+    for (const [key, bucket] of this.buckets) {
+      if (now - bucket.updatedAt > IDLE_BUCKET_MS) this.buckets.delete(key);
+    }
+  }
+}
+
+export const rateLimiter = new RateLimiter();
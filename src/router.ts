@@ -1,12 +1,15 @@
+import { channelLineage, discordChannelLookup } from './channel-permissions.js';
 import { logger } from './logger.js';
-import { keyStore } from './key-store.js';
+import { loopGuard } from './loop-guard.js';
 import type { EntityRegistry } from './entity-registry.js';
 import type { Gateway } from './gateway.js';
 import type { MessageBus } from './message-bus.js';
 import type { WebhookManager } from './webhook-manager.js';
-import type { Entity, NormalizedMessage } from './types.js';
+import type { Entity, MessageExtras, NormalizedMessage } from './types.js';
 import type { Client } from 'discord.js';
 
+const ENTITY_ECHO_WAIT_MS = 500; // Gateway echo of a webhook post can arrive before webhook.send() resolves
+
 export class Router {
   private registry: EntityRegistry;
   private bus: MessageBus;
@@ -21,22 +24,51 @@ export class Router {
     this.discordClient = discordClient;
     this.webhookManager = webhookManager;
 
-    this.gateway.on('message', (msg: NormalizedMessage) => this.handleMessage(msg));
+    this.gateway.on('message', (msg: NormalizedMessage) => {
+      this.handleMessage(msg).catch(err => logger.error(`Routing failed for ${msg.kind} ${msg.messageId}: ${err}`));
+    });
     logger.info('Router attached to gateway');
   }
 
-  private handleMessage(msg: NormalizedMessage): void {
-    // Skip messages from bots (including ourselves)
-    if (msg.authorIsBot) return;
+  private async handleMessage(msg: NormalizedMessage): Promise<void> {
+    // Webhook posts are only routed when they are Arachne entities speaking; other webhooks and bots are skipped
+    let authorEntityId: string | null = null;
+    if (msg.webhookId) {
+      authorEntityId = await this.resolveAuthorEntity(msg.messageId, msg.webhookId);
+      if (!authorEntityId) return;
+    } else if (msg.authorIsBot) {
+      return;
+    }
 
-    // Skip webhook messages (prevents echo loops when entities post)
-    if (msg.webhookId) return;
+    // Track who is speaking so send_message can enforce loop guards
+    if (msg.kind === 'message') {
+      // The later parts of a split post belong to the same turn, not more entity messages in a row
+      if (!authorEntityId) loopGuard.recordHuman(msg.channelId);
+      else if (!this.webhookManager.isContinuationPart(msg.messageId)) loopGuard.recordEntity(msg.channelId, authorEntityId);
+    }
 
-    // Skip empty content
-    if (!msg.content) return;
+    // Skip messages with nothing in them (deletions and reactions carry no content by design).
+    // Image-only posts, files, embeds and stickers still count.
+    const hasMedia = msg.attachments.length > 0 || msg.embeds.length > 0 || msg.stickers.length > 0;
+    if (!msg.content && !hasMedia && (msg.kind === 'message' || msg.kind === 'edit')) return;
+
+    // Entity posts can't carry a native reply reference; send_message records the target instead
+    const replyTo = msg.replyToMessageId
+      ? { messageId: msg.replyToMessageId, authorId: msg.replyToAuthorId }
+      : authorEntityId ? this.webhookManager.getReplyTarget(msg.messageId) : null;
+
+    const extras: MessageExtras | null = hasMedia || replyTo
+      ? {
+        attachments: msg.attachments,
+        embeds: msg.embeds,
+        stickers: msg.stickers,
+        reply_to: replyTo ? { message_id: replyTo.messageId, author_id: replyTo.authorId } : null,
+      }
+      : null;
 
-    // Find all entities subscribed to this server+channel
-    const entities = this.registry.getEntitiesForChannel(msg.serverId, msg.channelId);
+    // Find all entities that may see this channel (admin ceiling, blocked channels, thread/category inheritance)
+    const lineage = channelLineage(msg.channelId, discordChannelLookup(this.discordClient), msg.parentId);
+    const entities = this.registry.getEntitiesForChannel(msg.serverId, lineage);
 
     if (entities.length === 0) return;
 
@@ -56,26 +88,29 @@ export class Router {
 
     // Push to each entity's queue (encrypted if key is available)
     for (const entity of entities) {
-      // Hard filter: skip if channel is blocked for this entity (overrides everything)
-      const blockedChannels: string[] = JSON.parse(entity.blocked_channels || '[]');
-      if (blockedChannels.includes(msg.channelId)) continue;
+      // Entity-authored posts: opt-in only, never echoed to the author, and cut off past the reply depth
+      if (authorEntityId) {
+        if (entity.id === authorEntityId || !entity.hear_entities) continue;
+        if (loopGuard.depth(msg.channelId) > entity.max_reply_depth) continue;
+      }
 
       // Trigger word + mention detection (runs before watch filter — triggers punch through)
       const triggers: string[] = JSON.parse(entity.triggers || '[]');
       const triggered = triggers.length > 0 && triggers.some(t => contentLower.includes(t.toLowerCase()));
       const addressed = addressedEntityIds.has(entity.id);
 
-      // Watch channel filter: if watch_channels is set, only queue from those channels
+      // Watch channel filter: if watch_channels is set, only queue from those channels (threads follow their parent)
       // BUT triggered/addressed messages always get through
       const watchChannels: string[] = JSON.parse(entity.watch_channels || '[]');
-      if (watchChannels.length > 0 && !watchChannels.includes(msg.channelId) && !triggered && !addressed) continue;
+      const watched = watchChannels.includes(msg.channelId) || (!!msg.parentId && watchChannels.includes(msg.parentId));
+      if (watchChannels.length > 0 && !watched && !triggered && !addressed) continue;
 
       const guild = this.discordClient.guilds.cache.get(msg.serverId);
       const ch = guild?.channels.cache.get(msg.channelId);
       const resolvedChannelName = ch && 'name' in ch ? ch.name : msg.channelId;
 
-      const encKey = keyStore.get(entity.id);
       this.bus.push(entity.id, {
+        kind: msg.kind,
         messageId: msg.messageId,
         channelId: msg.channelId,
         channelName: resolvedChannelName,
@@ -86,7 +121,16 @@ export class Router {
         timestamp: msg.timestamp,
         addressed,
         triggered,
-      }, encKey);
+        emoji: msg.emoji,
+        threadId: msg.threadId,
+        parentId: msg.parentId,
+        dm: false,
+        interactionId: null,
+        extras,
+      }, this.registry.getQueueRecipients(entity.id));
+
+      // Owner notifications only fire for new human messages — edits, reactions and entity chatter would re-notify
+      if (msg.kind !== 'message' || authorEntityId) continue;
 
       // Owner notifications (fire-and-forget)
       if (addressed && entity.notify_on_mention && entity.owner_id) {
@@ -97,10 +141,11 @@ export class Router {
       }
     }
 
-    // Reply-to-entity notification (independent of per-entity loop — checks all entities)
-    if (msg.replyToMessageId) {
-      const repliedEntityId = this.webhookManager.getEntityForMessage(msg.replyToMessageId);
-      if (repliedEntityId) {
+    // Reply-to-entity notification (independent of per-entity loop — checks all entities).
+    // Covers native replies from humans and reply_to_message_id replies from other entities.
+    if (msg.kind === 'message' && replyTo) {
+      const repliedEntityId = this.webhookManager.getEntityForMessage(replyTo.messageId);
+      if (repliedEntityId && repliedEntityId !== authorEntityId) {
         const repliedEntity = this.registry.getEntity(repliedEntityId);
         if (repliedEntity?.notify_on_mention && repliedEntity.owner_id) {
           this.sendOwnerNotification(repliedEntity, msg, 'reply');
@@ -109,10 +154,22 @@ export class Router {
     }
 
     logger.debug(
-      `Routed message ${msg.messageId} to ${entities.length} entity(s) in #${msg.channelId}`
+      `Routed ${msg.kind} ${msg.messageId} to ${entities.length} entity(s) in #${msg.channelId}`
     );
   }
 
+  /**
+   * Resolve which entity authored a webhook post. Returns null for webhooks Arachne doesn't own.
+   */
+  private async resolveAuthorEntity(messageId: string, webhookId: string): Promise<string | null> {
+    const known = this.webhookManager.getEntityForMessage(messageId);
+    if (known) return known;
+    if (!this.webhookManager.isOwnWebhook(webhookId)) return null;
+
+    await new Promise(resolve => setTimeout(resolve, ENTITY_ECHO_WAIT_MS));
+    return this.webhookManager.getEntityForMessage(messageId);
+  }
+
   private async sendOwnerNotification(
     entity: Entity,
     msg: NormalizedMessage,
@@ -127,7 +184,12 @@ export class Router {
       const channel = guild?.channels.cache.get(msg.channelId);
       const channelName = channel && 'name' in channel ? `#${channel.name}` : `#${msg.channelId}`;
 
-      const preview = msg.content.length > 200 ? msg.content.slice(0, 200) + '...' : msg.content;
+      const text = msg.content || [
+        ...msg.attachments.map(a => `[${a.filename}]`),
+        ...msg.stickers.map(s => `[sticker: ${s}]`),
+        ...(msg.embeds.length > 0 ? ['[embed]'] : []),
+      ].join(' ');
+      const preview = text.length > 200 ? text.slice(0, 200) + '...' : text;
       const jumpLink = `https://discord.com/channels/${msg.serverId}/${msg.channelId}/${msg.messageId}`;
 
       const label = reason === 'mention' ? '@mentioned' : reason === 'reply' ? 'replied to' : 'triggered';
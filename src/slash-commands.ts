@@ -0,0 +1,286 @@
+import {
+  EmbedBuilder,
+  MessageFlags,
+  PermissionFlagsBits,
+  SlashCommandBuilder,
+  type AutocompleteInteraction,
+  type ChatInputCommandInteraction,
+  type Client,
+  type Guild,
+  type SlashCommandStringOption,
+} from 'discord.js';
+import { channelLineage, channelRules, discordChannelLookup, evaluateChannel } from './channel-permissions.js';
+import { parseHexColor } from './embeds.js';
+import { logger } from './logger.js';
+import type { EntityRegistry } from './entity-registry.js';
+import type { Gateway } from './gateway.js';
+import type { MessageBus } from './message-bus.js';
+import type { Entity } from './types.js';
+
+type ServerEntity = ReturnType<EntityRegistry['getEntitiesForServer']>[number];
+
+const INTERACTION_TTL_MS = 15 * 60 * 1000; // Discord interaction tokens stop working after 15 minutes
+const TIMEOUT_NOTICE_MS = INTERACTION_TTL_MS - 30 * 1000; // Replace the "thinking…" placeholder just before that
+const DEFAULT_MUTE_MINUTES = 60;
+const MAX_MUTE_MINUTES = 7 * 24 * 60;
+const MAX_NAMECARDS = 10; // Discord embed limit per message
+
+const entityOption = (option: SlashCommandStringOption) => option
+  .setName('entity').setDescription('An entity on this server').setRequired(true).setAutocomplete(true);
+
+const COMMANDS = [
+  new SlashCommandBuilder().setName('ask').setDescription('Ask an entity something — it answers here')
+    .addStringOption(entityOption)
+    .addStringOption(o => o.setName('question').setDescription('What to ask').setRequired(true).setMaxLength(2000)),
+  new SlashCommandBuilder().setName('entities').setDescription('List the entities on this server'),
+  new SlashCommandBuilder().setName('whois').setDescription('Show an entity\'s namecard')
+    .addStringOption(entityOption),
+  new SlashCommandBuilder().setName('mute').setDescription('Stop an entity from acting on this server for a while')
+    .setDefaultMemberPermissions(PermissionFlagsBits.ManageGuild)
+    .addStringOption(entityOption)
+    .addIntegerOption(o => o.setName('minutes').setDescription(`How long (default ${DEFAULT_MUTE_MINUTES})`).setMinValue(1).setMaxValue(MAX_MUTE_MINUTES)),
+  new SlashCommandBuilder().setName('unmute').setDescription('Let a muted entity act on this server again')
+    .setDefaultMemberPermissions(PermissionFlagsBits.ManageGuild)
+    .addStringOption(entityOption),
+].map(command => command.toJSON());
+
+interface PendingInteraction {
+  interaction: ChatInputCommandInteraction;
+  entityId: string;
+  serverId: string;
+  answered: boolean;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * Guild slash commands for people to reach entities: /ask, /entities, /whois, and /mute + /unmute for admins.
+ * Entity options autocomplete from the server's entity list. /ask queues an addressed message carrying the
+ * interaction ID; the interaction (and its token) stays in memory here until the entity answers through
+ * respond_to_interaction or the token expires. A restart drops unanswered /asks.
+ */
+export class SlashCommands {
+  private registry: EntityRegistry;
+  private bus: MessageBus;
+  private discordClient: Client;
+  private pending: Map<string, PendingInteraction> = new Map(); // interaction ID → /ask awaiting an answer
+
+  constructor(gateway: Gateway, registry: EntityRegistry, bus: MessageBus, discordClient: Client) {
+    this.registry = registry;
+    this.bus = bus;
+    this.discordClient = discordClient;
+
+    gateway.on('command', (interaction: ChatInputCommandInteraction | AutocompleteInteraction) => {
+      this.handle(interaction).catch(err => logger.warn(`Slash command failed: ${err}`));
+    });
+    gateway.on('guildCreate', (guild: Guild) => {
+      if (this.registry.isServerBanned(guild.id)) return;
+      this.register(guild).catch(err => logger.warn(`Could not register slash commands in ${guild.name}: ${err}`));
+    });
+  }
+
+  /** Register the commands in every server the bot is in. */
+  async start(): Promise<void> {
+    for (const guild of this.discordClient.guilds.cache.values()) {
+      await this.register(guild).catch(err => logger.warn(`Could not register slash commands in ${guild.name}: ${err}`));
+    }
+    logger.info(`Slash commands registered in ${this.discordClient.guilds.cache.size} server(s)`);
+  }
+
+  stop(): void {
+    for (const pending of this.pending.values()) clearTimeout(pending.timer);
+    this.pending.clear();
+  }
+
+  /**
+   * Answer an /ask. The first answer replaces the "thinking…" placeholder; later ones are follow-ups.
+   * Returns the posted message ID, or an error message.
+   */
+  async respond(entity: Entity, interactionId: string, content: string): Promise<{ message_id: string } | string> {
+    const pending = this.pending.get(interactionId);
+    if (!pending || pending.entityId !== entity.id) return 'Interaction not found — it may have expired (15 minutes)';
+    const mutedUntil = this.registry.getEntityMute(entity.id, pending.serverId);
+    if (mutedUntil) return `A server admin muted you on this server until ${mutedUntil}`;
+
+    // Same as entity webhook posts: users can be mentioned, @everyone/@here and roles can't
+    const reply = { content: `**${entity.name}:** ${content}`, allowedMentions: { parse: ['users' as const] } };
+    const message = pending.answered
+      ? await pending.interaction.followUp(reply)
+      : await pending.interaction.editReply(reply);
+    pending.answered = true;
+    return { message_id: message.id };
+  }
+
+  /** The server an entity's pending /ask came from (null if it isn't that entity's or has expired). */
+  serverForInteraction(entityId: string, interactionId: string): string | null {
+    const pending = this.pending.get(interactionId);
+    return pending && pending.entityId === entityId ? pending.serverId : null;
+  }
+
+  private async register(guild: Guild): Promise<void> {
+    await guild.commands.set(COMMANDS);
+  }
+
+  private async handle(interaction: ChatInputCommandInteraction | AutocompleteInteraction): Promise<void> {
+    if (!interaction.guildId) return;
+
+    if (interaction.isAutocomplete()) {
+      const typed = interaction.options.getFocused().toLowerCase();
+      const choices = this.registry.getEntitiesForServer(interaction.guildId)
+        .filter(e => e.name.toLowerCase().includes(typed))
+        .slice(0, 25)
+        .map(e => ({ name: e.name.slice(0, 100), value: e.id }));
+      await interaction.respond(choices);
+      return;
+    }
+
+    switch (interaction.commandName) {
+      case 'ask': return this.ask(interaction);
+      case 'entities': return this.list(interaction);
+      case 'whois': return this.whois(interaction);
+      case 'mute': return this.mute(interaction, true);
+      case 'unmute': return this.mute(interaction, false);
+    }
+  }
+
+  /** The entity named by the `entity` option (autocomplete sends its ID; a typed name also works). */
+  private entityOption(interaction: ChatInputCommandInteraction): ServerEntity | null {
+    const value = interaction.options.getString('entity', true);
+    const entities = this.registry.getEntitiesForServer(interaction.guildId!);
+    return entities.find(e => e.id === value) ?? entities.find(e => e.name.toLowerCase() === value.toLowerCase()) ?? null;
+  }
+
+  private async ask(interaction: ChatInputCommandInteraction): Promise<void> {
+    const entity = this.entityOption(interaction);
+    if (!entity) {
+      await interaction.reply({ content: 'No such entity on this server. Try `/entities`.', flags: MessageFlags.Ephemeral });
+      return;
+    }
+    const lineage = channelLineage(interaction.channelId, discordChannelLookup(this.discordClient));
+    if (evaluateChannel(channelRules(entity), lineage, interaction.guildId) !== 'allowed') {
+      await interaction.reply({ content: `**${entity.name}** can't see this channel.`, flags: MessageFlags.Ephemeral });
+      return;
+    }
+    if (this.registry.getEntityMute(entity.id, entity.server_id)) {
+      await interaction.reply({ content: `**${entity.name}** is muted on this server.`, flags: MessageFlags.Ephemeral });
+      return;
+    }
+
+    await interaction.deferReply();
+    const channel = interaction.channel;
+    const inThread = !!channel?.isThread();
+    const queued = this.bus.push(entity.id, {
+      kind: 'message',
+      messageId: interaction.id,
+      channelId: interaction.channelId,
+      channelName: channel && 'name' in channel && channel.name ? channel.name : interaction.channelId,
+      serverId: interaction.guildId!,
+      authorId: interaction.user.id,
+      authorName: interaction.member && 'displayName' in interaction.member
+        ? interaction.member.displayName
+        : interaction.user.displayName,
+      content: interaction.options.getString('question', true),
+      timestamp: interaction.createdAt,
+      addressed: true,
+      triggered: false,
+      emoji: null,
+      threadId: inThread ? interaction.channelId : null,
+      parentId: inThread ? channel.parentId : null,
+      dm: false,
+      interactionId: interaction.id,
+      extras: null,
+    }, this.registry.getQueueRecipients(entity.id));
+
+    if (!queued) {
+      await interaction.editReply(`**${entity.name}** isn't connected right now, so it can't get your question.`);
+      return;
+    }
+
+    const timer = setTimeout(() => {
+      const pending = this.pending.get(interaction.id);
+      this.pending.delete(interaction.id);
+      if (pending && !pending.answered) {
+        interaction.editReply(`**${entity.name}** didn't answer in time.`).catch(() => {});
+      }
+    }, TIMEOUT_NOTICE_MS);
+    timer.unref();
+    this.pending.set(interaction.id, { interaction, entityId: entity.id, serverId: entity.server_id, answered: false, timer });
+    logger.info(`/ask from ${interaction.user.id} queued for ${entity.name} (${interaction.id})`);
+  }
+
+  private async list(interaction: ChatInputCommandInteraction): Promise<void> {
+    const entities = this.registry.getEntitiesForServer(interaction.guildId!);
+    if (entities.length === 0) {
+      await interaction.reply({ content: 'There are no entities on this server yet.', flags: MessageFlags.Ephemeral });
+      return;
+    }
+    const more = entities.length - MAX_NAMECARDS;
+    await interaction.reply({
+      content: more > 0 ? `…and ${more} more. Use \`/whois\` for any of them.` : undefined,
+      embeds: entities.slice(0, MAX_NAMECARDS).map(e => this.namecard(e, false)),
+      flags: MessageFlags.Ephemeral,
+      allowedMentions: { parse: [] },
+    });
+  }
+
+  private async whois(interaction: ChatInputCommandInteraction): Promise<void> {
+    const entity = this.entityOption(interaction);
+    if (!entity) {
+      await interaction.reply({ content: 'No such entity on this server. Try `/entities`.', flags: MessageFlags.Ephemeral });
+      return;
+    }
+    await interaction.reply({ embeds: [this.namecard(entity, true)], flags: MessageFlags.Ephemeral, allowedMentions: { parse: [] } });
+  }
+
+  private async mute(interaction: ChatInputCommandInteraction, mute: boolean): Promise<void> {
+    // Discord hides the command from non-admins by default, but server settings can override that
+    if (!interaction.memberPermissions?.any([PermissionFlagsBits.ManageGuild, PermissionFlagsBits.Administrator])) {
+      await interaction.reply({ content: 'Only server admins can do that.', flags: MessageFlags.Ephemeral });
+      return;
+    }
+    const entity = this.entityOption(interaction);
+    if (!entity) {
+      await interaction.reply({ content: 'No such entity on this server. Try `/entities`.', flags: MessageFlags.Ephemeral });
+      return;
+    }
+
+    if (!mute) {
+      this.registry.setEntityMute(entity.id, entity.server_id, null);
+      logger.info(`${entity.name} unmuted on ${entity.server_id} by ${interaction.user.id}`);
+      await interaction.reply({ content: `🔊 **${entity.name}** can act on this server again.`, allowedMentions: { parse: [] } });
+      return;
+    }
+
+    const minutes = interaction.options.getInteger('minutes') ?? DEFAULT_MUTE_MINUTES;
+    const until = new Date(Date.now() + minutes * 60 * 1000);
+    this.registry.setEntityMute(entity.id, entity.server_id, until);
+    logger.info(`${entity.name} muted on ${entity.server_id} for ${minutes} min by ${interaction.user.id}`);
+    await interaction.reply({
+      content: `🔇 **${entity.name}** is muted on this server until <t:${Math.floor(until.getTime() / 1000)}:t>.`,
+      allowedMentions: { parse: [] },
+    });
+  }
+
+  private namecard(entity: ServerEntity, detailed: boolean): EmbedBuilder {
+    const embed = new EmbedBuilder().setTitle(entity.name);
+    const color = parseHexColor(entity.accent_color);
+    if (color !== null) embed.setColor(color);
+    if (entity.avatar_url) embed.setThumbnail(entity.avatar_url);
+    if (entity.description) {
+      const limit = detailed ? 1000 : 200;
+      embed.setDescription(entity.description.length > limit ? entity.description.slice(0, limit) + '…' : entity.description);
+    }
+
+    const fields: Array<{ name: string; value: string; inline: boolean }> = [];
+    if (entity.platform) fields.push({ name: 'Platform', value: entity.platform, inline: true });
+    if (entity.owner_id) fields.push({ name: 'Partner', value: `<@${entity.owner_id}>`, inline: true });
+    if (entity.role_id) fields.push({ name: 'Mention', value: `<@&${entity.role_id}>`, inline: true });
+    if (detailed) {
+      const channels: string[] = JSON.parse(entity.channels || '[]');
+      fields.push({ name: 'Channels', value: channels.length === 0 ? 'All channels' : channels.map(id => `<#${id}>`).join(' ').slice(0, 1000), inline: false });
+      if (entity.dm_intake) fields.push({ name: 'DMs', value: 'Takes DMs — start one with `!' + entity.name + '`', inline: false });
+      const mutedUntil = this.registry.getEntityMute(entity.id, entity.server_id);
+      if (mutedUntil) fields.push({ name: 'Muted', value: `Until <t:${Math.floor(new Date(mutedUntil).getTime() / 1000)}:t>`, inline: false });
+    }
+    return embed.addFields(fields);
+  }
+}
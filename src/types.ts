@@ -2,6 +2,8 @@ import type { Client, Webhook } from 'discord.js';
 import type { EntityRegistry } from './entity-registry.js';
 import type { MessageBus } from './message-bus.js';
 import type { WebhookManager } from './webhook-manager.js';
+import type { ApprovalManager } from './approvals.js';
+import type { SlashCommands } from './slash-commands.js';
 
 // --- Entity Registry ---
 
@@ -13,14 +15,31 @@ export interface Entity {
   accent_color: string | null; // Hex color for profile banner
   platform: string | null;     // 'claude' | 'gpt' | 'gemini' | 'other'
   owner_name: string | null;   // Discord display name of owner
-  api_key_hash: string;
-  key_salt: string;
+  api_key_hash: string;       // Legacy single key — superseded by entity_api_keys ('' for new entities)
+  key_salt: string;           // Legacy single key salt ('' for new entities)
   created_at: string;
   active: number;
   owner_id: string | null; // Discord user ID of entity owner
   triggers: string;           // JSON array of trigger word strings
   notify_on_mention: number;  // 1 = DM owner when entity is @mentioned
   notify_on_trigger: number;  // 1 = DM owner when trigger word matched
+  dm_intake: number;          // 1 = DMs to the bot can be routed to this entity
+  dm_allowlist: string;       // JSON array of Discord user IDs who may DM it (empty = anyone sharing a server with it)
+}
+
+export interface EntityApiKey {
+  id: string;
+  entity_id: string;
+  label: string;              // e.g. "Claude Desktop laptop"
+  key_prefix: string | null;  // Lookup prefix embedded in the key (null = legacy key migrated from entities)
+  key_hash: string;           // bcrypt
+  key_salt: string;           // HKDF salt for this key's queue private key
+  public_key: string | null;  // base64 X25519 queue public key (null = legacy key that has not connected since)
+  tools: string;              // JSON array: tools this key may use (empty = no restriction beyond the server whitelist)
+  expires_at: string | null;  // ISO timestamp (null = never)
+  last_used_at: string | null;
+  created_at: string;
+  revoked: number;
 }
 
 export interface EntityServer {
@@ -34,15 +53,52 @@ export interface EntityServer {
   blocked_channels: string;  // JSON array: entity owner's no-respond channels
   role_id: string | null;    // Discord role ID for @mentions
   announce_channel: string | null; // Channel for join announcements
+  hear_entities: number;     // 1 = receive other entities' webhook posts (opt-in, loop-guarded)
+  max_reply_depth: number;   // loop guard: consecutive entity posts before a human must speak
+  reply_cooldown_seconds: number; // loop guard: min gap before answering another entity
+  hop_budget: number;        // loop guard: entity-to-entity hops per channel per hour
+  muted_until: string | null; // ISO time a server admin's /mute ends (null = not muted)
 }
 
+/** Per-server columns joined onto an entity on the routing hot path. */
+export type ChannelSubscription = Pick<EntityServer,
+  'server_id' | 'channels' | 'dedicated_channels' | 'tools' | 'blocked_channels' | 'watch_channels' |
+  'hear_entities' | 'max_reply_depth' | 'reply_cooldown_seconds' | 'hop_budget'>;
+
 export interface EntityWithServers extends Entity {
   servers: EntityServer[];
 }
 
 // --- Message Bus ---
 
+/** What happened to a message: a new post, an edit, a deletion, a reaction change, or a click on an entity's button or select menu. */
+export type MessageEventKind = 'message' | 'edit' | 'delete' | 'reaction_add' | 'reaction_remove' | 'component_interaction';
+
+export interface MessageAttachment {
+  filename: string;
+  size: number;               // bytes
+  content_type: string | null;
+  url: string;                // Discord CDN URL (expires — fetch promptly)
+}
+
+export interface MessageEmbedSummary {
+  title: string | null;
+  description: string | null; // truncated
+  url: string | null;
+  image_url: string | null;
+}
+
+/** Non-text parts of a message, stored and encrypted alongside its content. */
+export interface MessageExtras {
+  attachments: MessageAttachment[];
+  embeds: MessageEmbedSummary[];
+  stickers: string[];         // sticker names
+  reply_to: { message_id: string; author_id: string | null } | null;
+  component?: { custom_id: string; values: string[] }; // component_interaction only: the entity's custom ID and chosen select values
+}
+
 export interface QueuedMessage {
+  kind: MessageEventKind;
   messageId: string;
   channelId: string;
   channelName: string;
@@ -54,10 +110,35 @@ export interface QueuedMessage {
   expiresAt: Date;
   addressed: boolean;  // true when this entity was @mentioned by role
   triggered: boolean;  // true when message content matched an entity trigger word
-  encrypted: boolean;  // true when content is AES-256-GCM encrypted blob (base64)
+  wrappedKeys: Record<string, string>; // recipient ID (API key or OAuth grant) → content key sealed to its public key
+  emoji: string | null; // reaction emoji (reaction_add / reaction_remove only)
+  threadId: string | null; // set when the message is in a thread or forum post (same as channelId)
+  parentId: string | null; // the thread's parent channel (text or forum) whose permissions apply
+  dm: boolean; // a DM to the bot routed to this entity (channelId is the DM channel, serverId is '')
+  interactionId: string | null; // set for /ask — answer with respond_to_interaction
+  extras: string | null; // JSON MessageExtras, encrypted with content; null when the message has none
+  meta: string | null;   // JSON SealedMetadata, encrypted with content — the only copy the persistent store keeps
+}
+
+/**
+ * Who sent a queued message and where, sealed alongside its content. The names and author ID above stay in
+ * memory for routing and notifications; the persistent store writes only this sealed copy to disk.
+ */
+export interface SealedMetadata {
+  author_id: string;
+  author_name: string;
+  channel_name: string;
+  emoji: string | null;
+}
+
+/** A queue private key together with the recipient ID (API key or OAuth grant) its content keys are sealed under. */
+export interface QueueKey {
+  keyId: string;
+  key: Buffer; // raw X25519 private key — held only for the request or session that presented the credential
 }
 
 export interface ReadableMessage {
+  kind: MessageEventKind;
   id: string;
   channel_id: string;
   channel_name: string;
@@ -68,11 +149,23 @@ export interface ReadableMessage {
   timestamp: string; // ISO string
   addressed: boolean;
   triggered: boolean;
+  emoji?: string;
+  thread_id?: string;
+  parent_id?: string;
+  dm?: boolean;
+  interaction_id?: string;
+  attachments?: MessageAttachment[];
+  embeds?: MessageEmbedSummary[];
+  stickers?: string[];
+  reply_to?: { message_id: string; author_id: string | null };
+  custom_id?: string;
+  values?: string[];
 }
 
 // --- Discord Gateway ---
 
 export interface NormalizedMessage {
+  kind: MessageEventKind;
   messageId: string;
   channelId: string;
   serverId: string;
@@ -84,6 +177,13 @@ export interface NormalizedMessage {
   timestamp: Date;
   mentionedRoleIds: string[];
   replyToMessageId: string | null;
+  replyToAuthorId: string | null; // author of the replied-to message, when Discord resolved it
+  emoji: string | null;      // reaction events only
+  threadId: string | null;   // thread or forum post the message is in (same as channelId)
+  parentId: string | null;   // parent channel of that thread
+  attachments: MessageAttachment[];
+  embeds: MessageEmbedSummary[];
+  stickers: string[];
 }
 
 // --- MCP Context ---
@@ -95,7 +195,10 @@ export interface EntityContext {
   bus: MessageBus;
   webhookManager: WebhookManager;
   discordClient: Client;
-  encryptionKey?: Buffer; // Per-entity AES-256 key (volatile, from KeyStore)
+  approvals: ApprovalManager;
+  slashCommands: SlashCommands;
+  encryptionKey?: QueueKey; // Queue private key of the credential in use (derived from the API key, or carried in the OAuth token)
+  toolScope?: string[];     // Tools the credential is restricted to (API key scope); undefined = no restriction
 }
 
 // --- Dashboard / Loom ---
@@ -117,6 +220,53 @@ export interface ServerSettings {
   announce_channel: string | null;
   announce_message: string | null; // custom template with {name}, {mention}, {platform}, {owner} placeholders
   default_template: string | null; // template ID or null
+  rate_limits: string;             // JSON RateLimits — per-entity limits on this server
+  audit_channel: string | null;    // Channel the bot mirrors audit log entries to
+  approval_tools: string;          // JSON array of tools that need a human's approval on this server
+}
+
+export type PendingActionStatus = 'pending' | 'approved' | 'executed' | 'failed' | 'denied' | 'expired';
+
+/** A tool call held until a server admin or the entity owner approves it. */
+export interface PendingAction {
+  id: string;
+  entity_id: string;
+  entity_name: string;
+  server_id: string;
+  tool: string;
+  args: string;             // JSON tool arguments (approvable tools carry IDs, names and reasons — no message content)
+  status: PendingActionStatus; // 'approved' = running now
+  result: string | null;    // Tool output once executed/failed, or why it expired
+  decided_by: string | null;      // Discord user ID
+  decided_by_name: string | null;
+  created_at: string;
+  decided_at: string | null;
+  expires_at: string;
+}
+
+/** One mutating MCP tool call. Holds IDs only — never message content. */
+export interface AuditLogEntry {
+  id: number;
+  server_id: string | null;  // null for DMs
+  entity_id: string;
+  entity_name: string;
+  tool: string;
+  channel_id: string | null;
+  target_ids: string;        // JSON object: message_id, user_id, role_id, thread_id, ...
+  result: 'success' | 'error';
+  error: string | null;      // Error text returned to the entity (no content)
+  created_at: string;
+}
+
+export interface AuditLogFilter {
+  entity_id?: string;
+  tool?: string;
+  channel_id?: string;
+  result?: 'success' | 'error';
+  since?: string;  // "YYYY-MM-DD HH:MM:SS" UTC, as created_at is stored; inclusive
+  until?: string;  // same format; exclusive
+  before_id?: number; // pagination cursor: entries older than this ID
+  limit?: number;
 }
 
 export interface ServerTemplate {
@@ -128,6 +278,15 @@ export interface ServerTemplate {
   created_at: string;
 }
 
+export interface EntityPrompt {
+  id: string;
+  entity_id: string;
+  name: string;              // MCP prompt name (lowercase, a-z 0-9 _ -)
+  description: string | null;
+  template: string;          // Prompt text with {{placeholders}} (entity_name, server_name, channel_name, ...)
+  created_at: string;
+}
+
 export interface BugReport {
   id: string;
   reporter_id: string;
@@ -186,6 +345,7 @@ export interface OAuthAccessToken {
   issued_at: string;
   expires_at: string;
   revoked: number;
+  last_used_at: string | null;
 }
 
 export interface OAuthRefreshToken {
@@ -194,11 +354,22 @@ export interface OAuthRefreshToken {
   discord_user_id: string;
   client_id: string;
   access_token_jti: string;
+  scope: string;             // space-separated OAuth scopes, carried over on rotation
+  grant_id: string | null;   // stable across rotation; the recipient ID queued messages are sealed under
+  public_key: string | null; // base64 X25519 queue public key of the grant (null = issued before queue keys)
   created_at: string;
   expires_at: string;
   revoked: number;
 }
 
+export interface OAuthSigningKey {
+  kid: string;
+  private_key: string;       // PKCS#8 PEM (ES256 / P-256)
+  public_key: string;        // SPKI PEM, published via /.well-known/jwks.json
+  created_at: string;
+  retired_at: string | null; // set on rotation; still verifies until its last token expires
+}
+
 export interface OAuthClient {
   client_id: string;
   client_name: string | null;
@@ -209,6 +380,17 @@ export interface OAuthClient {
   created_at: string;
 }
 
+/** An OAuth client holding live tokens for an entity (Loom "Connected apps"). */
+export interface ConnectedApp {
+  client_id: string;
+  client_name: string | null;
+  active_access_tokens: number;
+  active_refresh_tokens: number;
+  authorized_at: string;        // most recent token issue
+  scope: string;                // scopes of that most recent grant
+  last_used_at: string | null;  // most recent MCP request with one of its access tokens
+}
+
 export interface OAuthJWTPayload {
   iss: string;       // "https://arachne-discord.fly.dev"
   sub: string;       // Discord user ID
@@ -216,7 +398,9 @@ export interface OAuthJWTPayload {
   exp: number;
   iat: number;
   jti: string;
-  scope: string;     // "mcp"
+  scope: string;     // space-separated OAuth scopes ("mcp" = all tools)
   entity_id: string;
   client_id: string;
+  grant_id?: string;  // queue recipient ID of the grant
+  queue_key?: string; // base64url X25519 queue private key of the grant — only the client holds it
 }
@@ -1,5 +1,6 @@
-import { Client, type Webhook, type TextChannel } from 'discord.js';
+import { Client, type BaseMessageOptions, type Webhook, type TextChannel } from 'discord.js';
 import { logger } from './logger.js';
+import { MESSAGE_MAX, splitMessage } from './message-splitter.js';
 
 const WEBHOOK_NAME = 'Arachne';
 
@@ -12,35 +13,72 @@ function bustAvatarCache(url: string | null | undefined): string | undefined {
 
 const SENT_MSG_TTL_MS = 15 * 60 * 1000; // 15 minutes, matches message bus
 const SENT_MSG_EVICT_INTERVAL_MS = 60 * 1000;
+const MAX_PARTS = 10; // A longer post is refused rather than flooding the channel
+const OVERFLOW_FILE_NAME = 'message.md';
+
+/** What to do with content over Discord's 2000 characters: send it in several parts, or attach the full text. */
+export type OverflowMode = 'split' | 'attachment';
+
+/** The message an entity post replies to (webhooks can't set message_reference, so it is tracked here). */
+export interface ReplyReference {
+  messageId: string;
+  authorId: string | null;
+}
 
 export class WebhookManager {
   private cache: Map<string, Webhook> = new Map();
   private pending: Map<string, Promise<Webhook>> = new Map();
   private client: Client;
 
-  /** Track which entity sent which message (for reply notifications). */
-  private sentMessages: Map<string, { entityId: string; expiresAt: number }> = new Map();
+  /**
+   * Track which entity sent which message, what it replied to (for reply notifications and reply_to),
+   * and which part of a split post it is (0 for the first or only part).
+   */
+  private sentMessages: Map<string, { entityId: string; replyTo: ReplyReference | null; part: number; expiresAt: number }> = new Map();
   private evictionTimer: NodeJS.Timeout | null = null;
 
   constructor(client: Client) {
     this.client = client;
     this.evictionTimer = setInterval(() => this.evictExpiredSentMessages(), SENT_MSG_EVICT_INTERVAL_MS);
+    this.evictionTimer.unref();
   }
 
   /** Record that a message was sent by an entity. */
-  private trackSentMessage(messageId: string, entityId: string): void {
-    this.sentMessages.set(messageId, { entityId, expiresAt: Date.now() + SENT_MSG_TTL_MS });
+  private trackSentMessage(messageId: string, entityId: string, replyTo?: ReplyReference, part = 0): void {
+    this.sentMessages.set(messageId, { entityId, replyTo: replyTo ?? null, part, expiresAt: Date.now() + SENT_MSG_TTL_MS });
   }
 
-  /** Look up which entity sent a message (if still tracked). */
-  getEntityForMessage(messageId: string): string | null {
+  private getSentMessage(messageId: string) {
     const entry = this.sentMessages.get(messageId);
     if (!entry) return null;
     if (Date.now() > entry.expiresAt) {
       this.sentMessages.delete(messageId);
       return null;
     }
-    return entry.entityId;
+    return entry;
+  }
+
+  /** Look up which entity sent a message (if still tracked). */
+  getEntityForMessage(messageId: string): string | null {
+    return this.getSentMessage(messageId)?.entityId ?? null;
+  }
+
+  /** Look up the message an entity post replied to (if it was sent with reply_to_message_id and is still tracked). */
+  getReplyTarget(messageId: string): ReplyReference | null {
+    return this.getSentMessage(messageId)?.replyTo ?? null;
+  }
+
+  /** Whether a message is the second or later part of a split post (if still tracked). */
+  isContinuationPart(messageId: string): boolean {
+    return (this.getSentMessage(messageId)?.part ?? 0) > 0;
+  }
+
+  /** Whether a webhook ID belongs to one of Arachne's cached channel webhooks. */
+  isOwnWebhook(webhookId: string): boolean {
+    for (const webhook of this.cache.values()) {
+      if (webhook.id === webhookId) return true;
+    }
+    return false;
   }
 
   private evictExpiredSentMessages(): void {
@@ -103,26 +141,85 @@ export class WebhookManager {
   }
 
   /**
-   * Send a message as a specific entity (custom name + avatar).
+   * Resolve where a webhook post goes. Threads and forum posts share their parent's webhook,
+   * so a thread — given as threadId, or passed directly as the channel — is sent via the parent.
+   */
+  private async resolveTarget(channelId: string, threadId?: string): Promise<{ webhook: Webhook; threadId?: string }> {
+    if (threadId) {
+      const thread = await this.client.channels.fetch(threadId);
+      if (!thread || !thread.isThread() || thread.parentId !== channelId) {
+        throw new Error(`Thread ${threadId} not found in channel ${channelId}`);
+      }
+      return { webhook: await this.getWebhook(channelId), threadId };
+    }
+
+    const channel = await this.client.channels.fetch(channelId);
+    if (channel?.isThread() && channel.parentId) {
+      return { webhook: await this.getWebhook(channel.parentId), threadId: channelId };
+    }
+    return { webhook: await this.getWebhook(channelId) };
+  }
+
+  /**
+   * Send a message as a specific entity (custom name + avatar), optionally with embeds.
+   * Content over 2000 characters is split (see message-splitter.ts) and the parts are sent one after another,
+   * each waiting for the last, so they arrive in order and discord.js can pace them against the webhook rate limit.
+   * Embeds go on the last part. With overflow "attachment" the first part is sent with the full text as message.md instead.
    */
   async sendAsEntity(
     channelId: string,
     content: string,
     entityName: string,
     entityAvatarUrl?: string | null,
-    entityId?: string
-  ): Promise<{ messageId: string }> {
-    const webhook = await this.getWebhook(channelId);
-
-    const msg = await webhook.send({
-      content,
+    entityId?: string,
+    threadId?: string,
+    replyTo?: ReplyReference,
+    embeds?: Array<Record<string, unknown>>,
+    overflow: OverflowMode = 'split'
+  ): Promise<{ messageId: string; messageIds: string[] }> {
+    const target = await this.resolveTarget(channelId, threadId);
+    const identity = {
+      threadId: target.threadId,
       username: entityName,
       avatarURL: bustAvatarCache(entityAvatarUrl),
-      allowedMentions: { parse: ['users'] },
-    });
+      allowedMentions: { parse: ['users' as const] },
+    };
 
-    if (entityId) this.trackSentMessage(msg.id, entityId);
-    return { messageId: msg.id };
+    const parts = splitMessage(content);
+    if (overflow === 'attachment' && content.length > MESSAGE_MAX) {
+      const msg = await target.webhook.send({
+        ...identity,
+        content: parts[0],
+        files: [{ attachment: Buffer.from(content, 'utf8'), name: OVERFLOW_FILE_NAME }],
+        ...(embeds?.length ? { embeds } : {}),
+      });
+      if (entityId) this.trackSentMessage(msg.id, entityId, replyTo);
+      return { messageId: msg.id, messageIds: [msg.id] };
+    }
+    if (parts.length > MAX_PARTS) {
+      throw new Error(`Message is too long: it would take ${parts.length} messages (max ${MAX_PARTS}). Shorten it, or use overflow "attachment".`);
+    }
+
+    const messageIds: string[] = [];
+    for (const [i, part] of parts.entries()) {
+      const last = i === parts.length - 1;
+      try {
+        const msg = await target.webhook.send({
+          ...identity,
+          content: part || undefined,
+          ...(last && embeds?.length ? { embeds } : {}),
+        });
+        messageIds.push(msg.id);
+        if (entityId) this.trackSentMessage(msg.id, entityId, i === 0 ? replyTo : undefined, i);
+      } catch (err) {
+        if (messageIds.length === 0) throw err;
+        const reason = err instanceof Error ? err.message : String(err);
+        throw new Error(`Sent ${messageIds.length} of ${parts.length} parts (${messageIds.join(', ')}), then Discord refused the rest: ${reason}`);
+      }
+    }
+
+    if (parts.length > 1) logger.debug(`Split a ${content.length}-character post into ${parts.length} messages in ${channelId}`);
+    return { messageId: messageIds[0], messageIds };
   }
 
   /**
@@ -135,12 +232,14 @@ export class WebhookManager {
     entityName: string,
     entityAvatarUrl?: string | null,
     content?: string,
-    entityId?: string
+    entityId?: string,
+    threadId?: string
   ): Promise<{ messageId: string }> {
-    const webhook = await this.getWebhook(channelId);
+    const target = await this.resolveTarget(channelId, threadId);
 
-    const msg = await webhook.send({
+    const msg = await target.webhook.send({
       content: content || undefined,
+      threadId: target.threadId,
       username: entityName,
       avatarURL: bustAvatarCache(entityAvatarUrl),
       allowedMentions: { parse: ['users'] },
@@ -151,16 +250,46 @@ export class WebhookManager {
     return { messageId: msg.id };
   }
 
+  /**
+   * Send a message with buttons and select menus as a specific entity.
+   * Only webhooks owned by the application can carry interactive components, which Arachne's are.
+   */
+  async sendComponentsAsEntity(
+    channelId: string,
+    content: string,
+    components: NonNullable<BaseMessageOptions['components']>,
+    entityName: string,
+    entityAvatarUrl?: string | null,
+    entityId?: string,
+    threadId?: string
+  ): Promise<{ messageId: string }> {
+    const target = await this.resolveTarget(channelId, threadId);
+
+    const msg = await target.webhook.send({
+      content: content || undefined,
+      threadId: target.threadId,
+      username: entityName,
+      avatarURL: bustAvatarCache(entityAvatarUrl),
+      allowedMentions: { parse: ['users'] },
+      components,
+      withComponents: true,
+    });
+
+    if (entityId) this.trackSentMessage(msg.id, entityId);
+    return { messageId: msg.id };
+  }
+
   /**
    * Edit a webhook message.
    */
   async editAsEntity(
     channelId: string,
     messageId: string,
-    newContent: string
+    newContent: string,
+    threadId?: string
   ): Promise<void> {
-    const webhook = await this.getWebhook(channelId);
-    await webhook.editMessage(messageId, { content: newContent });
+    const target = await this.resolveTarget(channelId, threadId);
+    await target.webhook.editMessage(messageId, { content: newContent, threadId: target.threadId });
   }
 
   /**